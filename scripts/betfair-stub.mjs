@@ -0,0 +1,259 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Betfair Exchange betting API.
+ *
+ * Serves listMarketCatalogue and listMarketBook in the API-NG response
+ * shape, with a WIN market per GB/IRE racecard and a PLACE market for fields
+ * of five or more. Each runner's price starts at its average bookmaker price
+ * (the each-way place price in PLACE markets) and drifts a tick at a time
+ * between calls, so the app's exchange adapter can be exercised without a
+ * Betfair account.
+ *
+ * Usage:
+ *   RACING_API_USERNAME=... RACING_API_PASSWORD=... node scripts/betfair-stub.mjs
+ *   node scripts/betfair-stub.mjs --racecards racecards.json
+ *
+ * Then run the app with:
+ *   BETFAIR_API_URL=http://localhost:3100 BETFAIR_APP_KEY=stub
+ *
+ * --racecards takes a saved Racing API racecards response (array or
+ * { racecards: [...] }). BETFAIR_STUB_PORT defaults to 3100.
+ */
+
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+
+const port = Number(process.env.BETFAIR_STUB_PORT || 3100);
+const racecardsArg = process.argv.indexOf('--racecards');
+const racecardsFile = racecardsArg >= 0 ? process.argv[racecardsArg + 1] : null;
+
+const RACING_API_BASE_URL = 'https://api.theracingapi.com/v1';
+
+// Betfair price increments: [upper bound, tick size]
+const INCREMENTS = [
+  [2, 0.01], [3, 0.02], [4, 0.05], [6, 0.1], [10, 0.2],
+  [20, 0.5], [30, 1], [50, 2], [100, 5], [1000, 10],
+];
+
+// Every valid price from 1.01 to 1000, as an index-able ladder
+const LADDER = [];
+{
+  let price = 1.01;
+  for (const [upper, tick] of INCREMENTS) {
+    while (price < upper - 1e-9) {
+      LADDER.push(Math.round(price * 100) / 100);
+      price += tick;
+    }
+    price = upper;
+  }
+  LADDER.push(1000);
+}
+
+function nearestTick(price) {
+  let best = 0;
+  for (let i = 1; i < LADDER.length; i++) {
+    if (Math.abs(LADDER[i] - price) < Math.abs(LADDER[best] - price)) best = i;
+  }
+  return best;
+}
+
+// Places paid and each-way fraction by field size (handicaps ignored)
+function placeTerms(fieldSize) {
+  if (fieldSize >= 8) return { places: 3, fraction: 1 / 5 };
+  if (fieldSize >= 5) return { places: 2, fraction: 1 / 4 };
+  return null;
+}
+
+function log(message) {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+async function loadRacecards() {
+  if (racecardsFile) {
+    const json = JSON.parse(await readFile(racecardsFile, 'utf8'));
+    return Array.isArray(json) ? json : json.racecards || [];
+  }
+
+  const username = process.env.RACING_API_USERNAME;
+  const password = process.env.RACING_API_PASSWORD;
+  if (!username || !password) {
+    throw new Error('Set RACING_API_USERNAME/RACING_API_PASSWORD or pass --racecards <file>');
+  }
+
+  const credentials = Buffer.from(`${username}:${password}`).toString('base64');
+  const racecards = [];
+  for (const day of ['today', 'tomorrow']) {
+    const res = await fetch(`${RACING_API_BASE_URL}/racecards/standard?day=${day}`, {
+      headers: { Authorization: `Basic ${credentials}` },
+    });
+    if (!res.ok) throw new Error(`Racing API ${day}: HTTP ${res.status}`);
+    const json = await res.json();
+    racecards.push(...(Array.isArray(json) ? json : json.racecards || []));
+  }
+  return racecards;
+}
+
+/**
+ * Build the stub's markets: catalogue entries plus mutable per-runner state
+ * (ladder index of the best back, matched volume).
+ */
+function buildMarkets(racecards) {
+  const markets = new Map();
+  let selectionId = 1000;
+
+  racecards.forEach((race, index) => {
+    const region = String(race.region || '').toUpperCase();
+    if (race.is_abandoned || (region !== 'GB' && region !== 'IRE')) return;
+
+    const marketId = `1.${200000000 + index}`;
+    const runners = (race.runners || []).filter((r) => r.horse).map((runner, i) => {
+      const prices = (runner.odds || [])
+        .map((o) => parseFloat(o.decimal))
+        .filter((p) => p > 1);
+      const average = prices.length > 0 ? prices.reduce((a, b) => a + b, 0) / prices.length : 10;
+      return {
+        selectionId: selectionId++,
+        runnerName: String(runner.horse).replace(/\s*\([A-Z]+\)\s*$/, ''),
+        sortPriority: i + 1,
+        average,
+        backIndex: nearestTick(average),
+        totalMatched: Math.round(Math.random() * 2000),
+      };
+    });
+
+    const catalogue = {
+      marketId,
+      marketName: race.race_name || 'Win',
+      marketStartTime: race.off_dt || `${race.date}T${race.off_time}:00Z`,
+      description: { marketType: 'WIN' },
+      event: {
+        id: String(30000000 + index),
+        name: `${race.course} ${race.date}`,
+        countryCode: region === 'IRE' ? 'IE' : 'GB',
+        venue: String(race.course || '').replace(/\s*\([^)]*\)/g, '').trim(),
+      },
+    };
+    markets.set(marketId, { catalogue, runners, numberOfWinners: 1 });
+
+    const terms = placeTerms(runners.length);
+    if (terms) {
+      const placeMarketId = `1.${300000000 + index}`;
+      markets.set(placeMarketId, {
+        catalogue: {
+          ...catalogue,
+          marketId: placeMarketId,
+          marketName: `${terms.places} TBP`,
+          description: { marketType: 'PLACE' },
+        },
+        runners: runners.map((runner) => ({
+          ...runner,
+          backIndex: nearestTick(1 + (runner.average - 1) * terms.fraction),
+          totalMatched: Math.round(Math.random() * 500),
+        })),
+        numberOfWinners: terms.places,
+      });
+    }
+  });
+
+  return markets;
+}
+
+function levels(indices) {
+  return indices
+    .filter((i) => i >= 0 && i < LADDER.length)
+    .map((i) => ({ price: LADDER[i], size: Math.round((2 + Math.random() * 500) * 100) / 100 }));
+}
+
+/** Move each runner's price by up to a tick and return its market book */
+function marketBook(market) {
+  const runners = market.runners.map((runner) => {
+    const move = Math.random();
+    if (move < 0.15) runner.backIndex = Math.max(0, runner.backIndex - 1);
+    else if (move > 0.85) runner.backIndex = Math.min(LADDER.length - 2, runner.backIndex + 1);
+    runner.totalMatched += Math.round(Math.random() * 50);
+
+    const back = runner.backIndex;
+    return {
+      selectionId: runner.selectionId,
+      status: 'ACTIVE',
+      lastPriceTraded: LADDER[back],
+      totalMatched: runner.totalMatched,
+      ex: {
+        availableToBack: levels([back, back - 1, back - 2]),
+        availableToLay: levels([back + 1, back + 2, back + 3]),
+      },
+    };
+  });
+
+  const inplay = Date.parse(market.catalogue.marketStartTime) <= Date.now();
+  return {
+    marketId: market.catalogue.marketId,
+    status: 'OPEN',
+    inplay,
+    numberOfWinners: market.numberOfWinners,
+    totalMatched: runners.reduce((sum, r) => sum + r.totalMatched, 0),
+    runners,
+  };
+}
+
+function listMarketCatalogue(markets, params) {
+  const from = Date.parse(params.filter?.marketStartTime?.from ?? '') || -Infinity;
+  const to = Date.parse(params.filter?.marketStartTime?.to ?? '') || Infinity;
+
+  const types = params.filter?.marketTypeCodes ?? ['WIN'];
+
+  return Array.from(markets.values())
+    .filter((m) => {
+      const start = Date.parse(m.catalogue.marketStartTime);
+      return start >= from && start <= to && types.includes(m.catalogue.description.marketType);
+    })
+    .slice(0, params.maxResults ?? 1000)
+    .map((m) => ({
+      ...m.catalogue,
+      runners: m.runners.map(({ selectionId, runnerName, sortPriority }) => ({ selectionId, runnerName, sortPriority })),
+    }));
+}
+
+function listMarketBook(markets, params) {
+  return (params.marketIds || [])
+    .map((id) => markets.get(id))
+    .filter(Boolean)
+    .map(marketBook);
+}
+
+const markets = buildMarkets(await loadRacecards());
+log(`Serving ${markets.size} WIN and PLACE markets`);
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const operation = (req.url || '').replace(/^.*\/(\w+)\/?$/, '$1');
+    const reply = (status, payload) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (req.method !== 'POST') return reply(405, { error: 'POST only' });
+    if (!req.headers['x-application']) {
+      return reply(400, { detail: { APINGException: { errorCode: 'INVALID_APP_KEY' } } });
+    }
+
+    let params;
+    try {
+      params = body ? JSON.parse(body) : {};
+    } catch {
+      return reply(400, { detail: { APINGException: { errorCode: 'INVALID_INPUT_DATA' } } });
+    }
+
+    if (operation === 'listMarketCatalogue') return reply(200, listMarketCatalogue(markets, params));
+    if (operation === 'listMarketBook') return reply(200, listMarketBook(markets, params));
+    return reply(404, { detail: { APINGException: { errorCode: 'NO_SUCH_OPERATION' } } });
+  });
+});
+
+server.listen(port, () => log(`Betfair stub listening on http://localhost:${port}`));
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
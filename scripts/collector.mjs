@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+/**
+ * Snapshot collector worker.
+ *
+ * Calls /api/collect in a loop so odds are captured whether or not anyone
+ * has the dashboard open. The route says how long to wait before the next
+ * run (shorter as races approach the off).
+ *
+ * Usage:
+ *   COLLECTOR_URL=https://your-app.vercel.app CRON_SECRET=... node scripts/collector.mjs
+ *   node scripts/collector.mjs --once
+ *
+ * COLLECTOR_URL defaults to http://localhost:3000.
+ */
+
+const baseUrl = (process.env.COLLECTOR_URL || 'http://localhost:3000').replace(/\/$/, '');
+const secret = process.env.CRON_SECRET;
+const once = process.argv.includes('--once');
+
+// Wait after a failed run before trying again
+const RETRY_MS = 60_000;
+
+let stopping = false;
+let wakeUp = null;
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => {
+    stopping = true;
+    if (wakeUp) wakeUp();
+  });
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wakeUp = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+}
+
+function log(message) {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+async function collectOnce() {
+  const res = await fetch(`${baseUrl}/api/collect`, {
+    method: 'POST',
+    headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+  });
+  const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+
+  if (json.error) {
+    log(`Collection failed: ${json.error}`);
+    return json.nextPollMs ?? RETRY_MS;
+  }
+
+  log(
+    `${json.racesDue}/${json.racesTracked} races due, ${json.saved} snapshots saved` +
+      ` (${json.newOpenings} new openings), next run in ${Math.round(json.nextPollMs / 1000)}s`
+  );
+  return json.nextPollMs;
+}
+
+log(`Collecting from ${baseUrl}/api/collect`);
+
+while (!stopping) {
+  let waitMs = RETRY_MS;
+  try {
+    waitMs = await collectOnce();
+  } catch (err) {
+    log(`Collector request error: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (once) break;
+  await sleep(waitMs);
+}
+
+log('Collector stopped');
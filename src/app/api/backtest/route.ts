@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { fetchSnapshotsInRange, fetchRacesInRange, fetchStoredResultsInRange } from '@/lib/history';
+import { buildStoredResultsMap } from '@/lib/results-store';
+import { raceRecordToMeta } from '@/lib/race-store';
+import { runBacktest } from '@/lib/backtest';
+import { DEFAULT_SETTINGS } from '@/lib/constants';
+import { parseStrategy } from '@/lib/strategy';
+import { parseProfiles } from '@/lib/profiles';
+import { RaceMeta, UserSettings } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/backtest
+ * Body: { startDate: 'YYYY-MM-DD', endDate: 'YYYY-MM-DD', settings?: Partial<UserSettings> }
+ *
+ * Replays every stored race in the date range through the lay engine
+ * and settles the simulated lays against stored race_results
+ * (load past days first with POST /api/results/backfill).
+ * Settings come from the client because they live in localStorage; any
+ * strategy profiles in them are replayed over the same data for comparison.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const startDate: string | undefined = body.startDate;
+    const endDate: string | undefined = body.endDate;
+
+    if (!isIsoDate(startDate) || !isIsoDate(endDate) || startDate > endDate) {
+      return NextResponse.json(
+        { data: null, error: 'startDate and endDate (YYYY-MM-DD) are required' },
+        { status: 400 }
+      );
+    }
+
+    const settings: UserSettings = { ...DEFAULT_SETTINGS, ...(body.settings || {}) };
+    const { error: strategyError } = parseStrategy(settings.strategy);
+    const { profiles, error: profilesError } = parseProfiles(settings.profiles);
+    if (strategyError || profilesError) {
+      return NextResponse.json(
+        { data: null, error: strategyError ?? profilesError },
+        { status: 400 }
+      );
+    }
+    settings.profiles = profiles;
+
+    const [snapshots, results, races] = await Promise.all([
+      fetchSnapshotsInRange(supabase, startDate, endDate),
+      fetchStoredResultsInRange(supabase, startDate, endDate),
+      fetchRacesInRange(supabase, startDate, endDate),
+    ]);
+
+    if (snapshots.error) {
+      return NextResponse.json(
+        { data: null, error: snapshots.error },
+        { status: 500 }
+      );
+    }
+
+    if (results.error) {
+      return NextResponse.json(
+        { data: null, error: results.error },
+        { status: 500 }
+      );
+    }
+
+    // Racecard metadata is optional — without it every race uses the global model pair
+    const raceMeta = new Map<string, RaceMeta>();
+    for (const [eventId, race] of races.data) {
+      raceMeta.set(eventId, raceRecordToMeta(race));
+    }
+
+    const report = runBacktest(snapshots.data, buildStoredResultsMap(results.data), settings, raceMeta);
+
+    return NextResponse.json({
+      data: report,
+      error: null,
+      snapshotCount: snapshots.data.length,
+      resultCount: results.data.length,
+    });
+  } catch (err) {
+    console.error('Backtest error:', err);
+    return NextResponse.json(
+      { data: null, error: `Backtest failed: ${err instanceof Error ? err.message : String(err)}` },
+      { status: 500 }
+    );
+  }
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { normalizeTransaction } from '@/lib/bankroll';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/bankroll
+ *
+ * List deposits and withdrawals, newest first.
+ */
+export async function GET() {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('bankroll_transactions')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Supabase query error:', error);
+    return NextResponse.json(
+      { data: null, error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ data: (data || []).map(normalizeTransaction), error: null });
+}
+
+/**
+ * POST /api/bankroll
+ * Body: { kind: 'deposit' | 'withdrawal', amount: number, note?: string }
+ *
+ * Record a deposit or withdrawal. Transactions are append-only; post an
+ * opposite entry to correct a mistake.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const amount = Number(body.amount);
+
+    if (body.kind !== 'deposit' && body.kind !== 'withdrawal') {
+      return NextResponse.json(
+        { data: null, error: "kind must be 'deposit' or 'withdrawal'" },
+        { status: 400 }
+      );
+    }
+    if (!(amount > 0)) {
+      return NextResponse.json(
+        { data: null, error: 'amount must be > 0' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('bankroll_transactions')
+      .insert({
+        kind: body.kind,
+        amount: Math.round(amount * 100) / 100,
+        note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Supabase insert error:', error);
+      return NextResponse.json(
+        { data: null, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: normalizeTransaction(data), error: null });
+  } catch (err) {
+    console.error('Bankroll transaction error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to record transaction' },
+      { status: 500 }
+    );
+  }
+}
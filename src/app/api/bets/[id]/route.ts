@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { BET_STATUSES, matchedStakeError, normalizeBet } from '@/lib/bets';
+import { betLiability } from '@/lib/rule4';
+import { BetStatus } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/bets/:id
+ * Body: { status?, matched_stake?, odds?, stake?, notes? }
+ *
+ * Update a recorded lay (e.g. part-matched → matched, or cancelled).
+ * Liability is recomputed from the resulting matched stake and odds (net of
+ * any Rule 4 deduction). When the status, odds or stakes change any
+ * settlement is cleared so the next settlement run recomputes it; editing
+ * only the notes leaves a settled lay settled.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('bets')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { data: null, error: fetchError?.message || 'Bet not found' },
+        { status: fetchError ? 500 : 404 }
+      );
+    }
+
+    const current = normalizeBet(existing);
+    const status: BetStatus = body.status ?? current.status;
+    if (!BET_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { data: null, error: `status must be one of ${BET_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const odds = body.odds !== undefined ? Number(body.odds) : current.odds;
+    const stake = body.stake !== undefined ? Number(body.stake) : current.stake;
+    if (!(odds > 1) || !(stake > 0)) {
+      return NextResponse.json(
+        { data: null, error: 'odds must be > 1 and stake must be > 0' },
+        { status: 400 }
+      );
+    }
+
+    const matchedError =
+      body.matched_stake !== undefined ? matchedStakeError(Number(body.matched_stake), stake) : null;
+    if (matchedError) {
+      return NextResponse.json(
+        { data: null, error: matchedError },
+        { status: 400 }
+      );
+    }
+
+    // Moving to fully matched fills the stake; a cancelled lay has nothing matched
+    // (an unmatched remainder cancelled on the exchange stays 'partially_matched').
+    // A reduced stake caps what was already recorded as matched.
+    let matchedStake =
+      body.matched_stake !== undefined ? Number(body.matched_stake) : Math.min(current.matched_stake, stake);
+    if (status === 'matched' && body.matched_stake === undefined) matchedStake = stake;
+    if (status === 'cancelled') matchedStake = 0;
+
+    // Only a change to what was matched reopens a settled lay; a notes edit
+    // keeps its settlement (and keeps a voided lay out of the open exposure)
+    const repriced =
+      status !== current.status ||
+      odds !== current.odds ||
+      stake !== current.stake ||
+      round2(matchedStake) !== current.matched_stake;
+
+    const updates = {
+      status,
+      odds,
+      stake,
+      matched_stake: round2(matchedStake),
+      liability: round2(betLiability({ matched_stake: matchedStake, odds, rule4_deduction: current.rule4_deduction })),
+      notes: body.notes !== undefined ? body.notes : current.notes,
+      ...(repriced ? { outcome: null, pnl: null, settled_at: null } : {}),
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await supabase
+      .from('bets')
+      .update(updates)
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Supabase update error:', error);
+      return NextResponse.json(
+        { data: null, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: normalizeBet(data), error: null });
+  } catch (err) {
+    console.error('Bet update error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to update bet' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bets/:id
+ *
+ * Remove a mistakenly recorded lay. Use status 'cancelled' for real
+ * exchange cancellations so the history is kept.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { error } = await supabase.from('bets').delete().eq('id', id);
+
+  if (error) {
+    console.error('Supabase delete error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ error: null });
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
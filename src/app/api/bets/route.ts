@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { normalizeBet, prepareNewBet } from '@/lib/bets';
+import { NewBet } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/bets
+ * GET /api/bets?eventId=xxx
+ * GET /api/bets?open=true  (unsettled matched / part-matched only)
+ *
+ * List recorded lays, newest first.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const eventId = searchParams.get('eventId');
+  const openOnly = searchParams.get('open') === 'true';
+
+  try {
+    let query = supabase
+      .from('bets')
+      .select('*')
+      .order('placed_at', { ascending: false });
+
+    if (eventId) {
+      query = query.eq('event_id', eventId);
+    }
+    if (openOnly) {
+      query = query.in('status', ['matched', 'partially_matched']).is('settled_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Supabase query error:', error);
+      return NextResponse.json(
+        { data: null, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: (data || []).map(normalizeBet), error: null });
+  } catch (err) {
+    console.error('Bets fetch error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to fetch bets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bets
+ * Body: NewBet
+ *
+ * Record a lay placed on the exchange. Liability is derived from the
+ * matched stake and odds server-side.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const body: NewBet = await request.json();
+    const { row, error: validationError } = prepareNewBet(body);
+
+    if (!row) {
+      return NextResponse.json(
+        { data: null, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('bets')
+      .insert(row)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Supabase insert error:', error);
+      return NextResponse.json(
+        { data: null, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: normalizeBet(data), error: null });
+  } catch (err) {
+    console.error('Bet create error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to record bet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { settleOpenBets } from '@/lib/settlement';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/bets/settle
+ *
+ * Settles every open lay whose race has a stored result. Results are also
+ * settled automatically whenever /api/results or the results backfill
+ * writes to race_results; this is for on-demand runs.
+ */
+export async function POST() {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Supabase is not configured', settled: 0 },
+      { status: 500 }
+    );
+  }
+
+  const result = await settleOpenBets(supabase);
+
+  if (result.error) {
+    return NextResponse.json(
+      { error: result.error, settled: result.settled, pending: result.pending },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ error: null, settled: result.settled, pending: result.pending });
+}
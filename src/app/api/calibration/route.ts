@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { fetchSnapshotsInRange, fetchStoredResultsInRange } from '@/lib/history';
+import { buildStoredResultsMap } from '@/lib/results-store';
+import { buildCalibrationSamples, calibrateModel, CalibrationPriceSource } from '@/lib/calibration';
+import { isDemarginMethod } from '@/lib/demargin';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/calibration?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ * GET /api/calibration?startDate=...&endDate=...&priceSource=final
+ * GET /api/calibration?startDate=...&endDate=...&demargin=shin
+ *
+ * Fits modelAlpha/modelBeta by maximum likelihood from stored prices
+ * (opening average by default) joined with race winners, and reports
+ * log-loss/Brier against the uncalibrated 1/O model. With `demargin` the
+ * prices are de-margined per race first, as the lay engine does.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const startDate = searchParams.get('startDate') || '';
+  const endDate = searchParams.get('endDate') || '';
+  const priceSource: CalibrationPriceSource =
+    searchParams.get('priceSource') === 'final' ? 'final' : 'opening';
+  const demarginParam = searchParams.get('demargin');
+  const demargin = isDemarginMethod(demarginParam) ? demarginParam : undefined;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    return NextResponse.json(
+      { data: null, error: 'startDate and endDate (YYYY-MM-DD) are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [snapshots, results] = await Promise.all([
+      fetchSnapshotsInRange(supabase, startDate, endDate),
+      fetchStoredResultsInRange(supabase, startDate, endDate),
+    ]);
+
+    if (snapshots.error) {
+      return NextResponse.json(
+        { data: null, error: snapshots.error },
+        { status: 500 }
+      );
+    }
+
+    if (results.error) {
+      return NextResponse.json(
+        { data: null, error: results.error },
+        { status: 500 }
+      );
+    }
+
+    const samples = buildCalibrationSamples(
+      snapshots.data,
+      buildStoredResultsMap(results.data),
+      priceSource,
+      demargin
+    );
+    const report = calibrateModel(samples, priceSource);
+
+    if (!report) {
+      return NextResponse.json({
+        data: null,
+        error: `Not enough settled runners to fit (${samples.length} samples in range)`,
+      });
+    }
+
+    return NextResponse.json({ data: report, error: null });
+  } catch (err) {
+    console.error('Calibration error:', err);
+    return NextResponse.json(
+      { data: null, error: `Calibration failed: ${err instanceof Error ? err.message : String(err)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { runCollection } from '@/lib/collector';
+import { getOddsProvider } from '@/lib/odds-provider';
+import { COLLECTOR_MAX_POLL_MS } from '@/lib/constants';
+import { isCronAuthorized } from '@/lib/cron-auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET|POST /api/collect
+ * Header: Authorization: Bearer <CRON_SECRET>
+ *
+ * Runs one snapshot collection pass: fetches today's and tomorrow's
+ * racecards and stores snapshots for every race that is due. Called by a
+ * cron job or by scripts/collector.mjs, which sleeps for the returned
+ * nextPollMs between runs.
+ *
+ * The bearer token must match CRON_SECRET. Without the secret the route
+ * only answers in development.
+ */
+export async function GET(request: NextRequest) {
+  return collect(request);
+}
+
+export async function POST(request: NextRequest) {
+  return collect(request);
+}
+
+async function collect(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', saved: 0 },
+      { status: 401 }
+    );
+  }
+
+  const { provider, error: providerError } = getOddsProvider();
+
+  if (provider && !provider.capabilities.live) {
+    return NextResponse.json({
+      error: 'Collection is disabled while replaying fixtures',
+      saved: 0,
+      nextPollMs: COLLECTOR_MAX_POLL_MS,
+    });
+  }
+
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Supabase is not configured', saved: 0 },
+      { status: 500 }
+    );
+  }
+
+  if (!provider) {
+    return NextResponse.json({ error: providerError, saved: 0 });
+  }
+
+  try {
+    const result = await runCollection(supabase, provider);
+    return NextResponse.json(result, { status: result.error ? 500 : 200 });
+  } catch (err) {
+    console.error('Snapshot collection error:', err);
+    return NextResponse.json(
+      { error: 'Failed to collect snapshots', saved: 0 },
+      { status: 500 }
+    );
+  }
+}
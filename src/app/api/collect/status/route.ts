@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { fetchLastSnapshotTime } from '@/lib/collector';
+import { isFixtureMode } from '@/lib/odds-provider';
+import { fixtureDir, fixtureNow, lastEventFrameTime } from '@/lib/fixture-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/collect/status
+ *
+ * When the collector last stored a snapshot, so the dashboard can show
+ * whether collection is running. In fixture mode this is the latest
+ * recorded price frame at the replay time.
+ */
+export async function GET() {
+  if (isFixtureMode()) {
+    const dir = fixtureDir();
+    const lastSnapshotAt = await lastEventFrameTime(dir, await fixtureNow(dir));
+    return NextResponse.json({ lastSnapshotAt, error: null });
+  }
+
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { lastSnapshotAt: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const result = await fetchLastSnapshotTime(supabase);
+
+  return NextResponse.json(
+    { lastSnapshotAt: result.data, error: result.error },
+    { status: result.error ? 500 : 200 }
+  );
+}
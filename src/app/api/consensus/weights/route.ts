@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { fetchSnapshotsInRange, fetchStoredResultsInRange } from '@/lib/history';
+import { buildStoredResultsMap } from '@/lib/results-store';
+import { fitBookmakerWeights } from '@/lib/consensus';
+import { isDemarginMethod } from '@/lib/demargin';
+import { DemarginMethod } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/consensus/weights?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ * GET /api/consensus/weights?startDate=...&endDate=...&demargin=shin
+ *
+ * Fits per-bookmaker consensus weights from stored opening prices joined
+ * with race winners: books whose de-margined openings gave winners a higher
+ * probability than the equal-weight consensus weigh more (see consensus.ts).
+ */
+export async function GET(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const startDate = searchParams.get('startDate') || '';
+  const endDate = searchParams.get('endDate') || '';
+  const demarginParam = searchParams.get('demargin');
+  const demargin: DemarginMethod = isDemarginMethod(demarginParam) ? demarginParam : 'proportional';
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    return NextResponse.json(
+      { data: null, error: 'startDate and endDate (YYYY-MM-DD) are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [snapshots, results] = await Promise.all([
+      fetchSnapshotsInRange(supabase, startDate, endDate),
+      fetchStoredResultsInRange(supabase, startDate, endDate),
+    ]);
+
+    if (snapshots.error) {
+      return NextResponse.json(
+        { data: null, error: snapshots.error },
+        { status: 500 }
+      );
+    }
+
+    if (results.error) {
+      return NextResponse.json(
+        { data: null, error: results.error },
+        { status: 500 }
+      );
+    }
+
+    const report = fitBookmakerWeights(
+      snapshots.data,
+      buildStoredResultsMap(results.data),
+      demargin
+    );
+
+    if (!report) {
+      return NextResponse.json({
+        data: null,
+        error: 'No settled races in range with prices from two or more bookmakers',
+      });
+    }
+
+    return NextResponse.json({ data: report, error: null });
+  } catch (err) {
+    console.error('Bookmaker weights error:', err);
+    return NextResponse.json(
+      { data: null, error: `Weight fit failed: ${err instanceof Error ? err.message : String(err)}` },
+      { status: 500 }
+    );
+  }
+}
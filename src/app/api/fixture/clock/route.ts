@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFixtureMode } from '@/lib/odds-provider';
+import { fixtureDir, fixtureClock, recordingRange } from '@/lib/fixture-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/fixture/clock
+ * POST /api/fixture/clock
+ * Body: { time?: ISO string, speed?: number, reset?: boolean }
+ *
+ * Replay clock for fixture mode (ODDS_PROVIDER=fixture). GET reports the
+ * simulated time and the recording's range; POST jumps to `time`, changes
+ * `speed` (0 freezes the clock, handy for deterministic tests) or resets
+ * to FIXTURE_START / the start of the recording.
+ */
+export async function GET() {
+  if (!isFixtureMode()) {
+    return NextResponse.json(
+      { data: null, error: 'Not in fixture mode (set ODDS_PROVIDER=fixture)' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ data: await clockState(), error: null });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isFixtureMode()) {
+    return NextResponse.json(
+      { data: null, error: 'Not in fixture mode (set ODDS_PROVIDER=fixture)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const clock = fixtureClock(fixtureDir());
+
+    if (body.reset) {
+      clock.reset();
+    }
+
+    const time = typeof body.time === 'string' ? new Date(body.time) : undefined;
+    if (time && isNaN(time.getTime())) {
+      return NextResponse.json(
+        { data: null, error: 'time must be an ISO date-time' },
+        { status: 400 }
+      );
+    }
+
+    const speed = body.speed === undefined ? undefined : Number(body.speed);
+    if (speed !== undefined && (isNaN(speed) || speed < 0)) {
+      return NextResponse.json(
+        { data: null, error: 'speed must be a number ≥ 0' },
+        { status: 400 }
+      );
+    }
+
+    if (time || speed !== undefined) {
+      await clock.set(time, speed);
+    }
+
+    return NextResponse.json({ data: await clockState(), error: null });
+  } catch (err) {
+    console.error('Fixture clock error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to update fixture clock' },
+      { status: 500 }
+    );
+  }
+}
+
+async function clockState() {
+  const dir = fixtureDir();
+  const clock = fixtureClock(dir);
+  const now = await clock.now();
+  const range = await recordingRange(dir);
+
+  return {
+    now: now.toISOString(),
+    speed: clock.speed(),
+    recordingStart: range.start,
+    recordingEnd: range.end,
+  };
+}
@@ -1,17 +1,18 @@
 import { NextResponse } from 'next/server';
 import { isSupabaseConfigured } from '@/lib/supabase';
+import { getOddsProvider } from '@/lib/odds-provider';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
-  const hasRacingApi = Boolean(process.env.RACING_API_USERNAME && process.env.RACING_API_PASSWORD);
+  const { provider, error: providerError } = getOddsProvider();
   const hasSupabase = isSupabaseConfigured();
 
   return NextResponse.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
     services: {
-      racingApi: hasRacingApi ? 'configured' : 'missing RACING_API_USERNAME / RACING_API_PASSWORD',
+      oddsProvider: provider ? `${provider.id} (configured)` : providerError,
       supabase: hasSupabase ? 'configured' : 'missing Supabase credentials',
     },
   });
@@ -1,16 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServiceSupabase } from '@/lib/supabase';
+import { fetchOpeningSnapshots } from '@/lib/history';
+import { isFixtureMode } from '@/lib/odds-provider';
+import { fixtureDir, fixtureNow, replaySnapshots, replayResultRecords } from '@/lib/fixture-store';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/history?eventId=xxx
  * GET /api/history?eventId=xxx&runnerName=yyy
- * GET /api/history?opening=true  (fetch all opening snapshots)
+ * GET /api/history?opening=true  (opening snapshots for races not yet off)
  *
- * Retrieve historical odds snapshots.
+ * Retrieve historical odds snapshots. Event queries also return the
+ * stored race_results rows for that event (empty until the race is settled).
+ * In fixture mode both are replayed from the recording up to the replay time.
  */
 export async function GET(request: NextRequest) {
+  if (isFixtureMode()) {
+    return fixtureHistory(request);
+  }
+
   const supabase = getServiceSupabase();
 
   if (!supabase) {
@@ -26,17 +35,14 @@ export async function GET(request: NextRequest) {
   const openingOnly = searchParams.get('opening') === 'true';
 
   try {
-    // Special mode: fetch all opening snapshots (used by dashboard to get initial odds)
+    // Special mode: opening snapshots for races still to run, used to get
+    // initial odds
     if (openingOnly) {
-      const { data, error } = await supabase
-        .from('odds_snapshots')
-        .select('event_id, runner_name, back_price, is_opening')
-        .eq('is_opening', true);
+      const { data, error } = await fetchOpeningSnapshots(supabase, new Date());
 
       if (error) {
-        console.error('Supabase query error:', error);
         return NextResponse.json(
-          { data: null, error: error.message },
+          { data: null, error },
           { status: 500 }
         );
       }
@@ -62,7 +68,16 @@ export async function GET(request: NextRequest) {
       query = query.eq('runner_name', runnerName);
     }
 
-    const { data, error } = await query;
+    let resultsQuery = supabase
+      .from('race_results')
+      .select('*')
+      .eq('event_id', eventId);
+
+    if (runnerName) {
+      resultsQuery = resultsQuery.eq('horse_name', runnerName);
+    }
+
+    const [{ data, error }, results] = await Promise.all([query, resultsQuery]);
 
     if (error) {
       console.error('Supabase query error:', error);
@@ -72,7 +87,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ data, error: null });
+    if (results.error) {
+      console.error('Supabase race_results query error:', results.error);
+    }
+
+    return NextResponse.json({ data, results: results.data || [], error: null });
   } catch (err) {
     console.error('History fetch error:', err);
     return NextResponse.json(
@@ -81,3 +100,45 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+async function fixtureHistory(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const eventId = searchParams.get('eventId');
+  const runnerName = searchParams.get('runnerName');
+
+  try {
+    const dir = fixtureDir();
+    const now = await fixtureNow(dir);
+
+    if (searchParams.get('opening') === 'true') {
+      const data = (await replaySnapshots(dir, now, () => true))
+        .filter((row) => row.is_opening && new Date(row.commence_time) > now)
+        .map(({ event_id, runner_name, bookmaker, back_price, is_opening }) => ({ event_id, runner_name, bookmaker, back_price, is_opening }));
+      return NextResponse.json({ data, error: null });
+    }
+
+    if (!eventId) {
+      return NextResponse.json(
+        { data: null, error: 'eventId is required' },
+        { status: 400 }
+      );
+    }
+
+    const [snapshots, results] = await Promise.all([
+      replaySnapshots(dir, now, (id) => id === eventId),
+      replayResultRecords(dir, now, eventId),
+    ]);
+
+    return NextResponse.json({
+      data: runnerName ? snapshots.filter((row) => row.runner_name === runnerName) : snapshots,
+      results: runnerName ? results.filter((row) => row.horse_name === runnerName) : results,
+      error: null,
+    });
+  } catch (err) {
+    console.error('Fixture history error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to replay history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { isCronAuthorized } from '@/lib/cron-auth';
+import { downsampleSnapshots } from '@/lib/snapshot-store';
+import { SNAPSHOT_RETENTION_DAYS, SNAPSHOT_BAR_MINUTES } from '@/lib/constants';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET|POST /api/maintenance/snapshots?olderThanDays=7&barMinutes=5
+ * Header: Authorization: Bearer <CRON_SECRET>
+ *
+ * Snapshot retention job. Downsamples the price history of races that
+ * started more than `olderThanDays` ago to the opening, first, last, min and
+ * max price plus one price per `barMinutes` bar for each runner/bookmaker,
+ * moving the other rows to odds_snapshots_archive. Meant to run from a daily
+ * cron; `remaining: true` means another call is needed to finish the backlog.
+ */
+export async function GET(request: NextRequest) {
+  return runMaintenance(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runMaintenance(request);
+}
+
+async function runMaintenance(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json(
+      { data: null, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const olderThanDays = Number(searchParams.get('olderThanDays') ?? SNAPSHOT_RETENTION_DAYS);
+  const barMinutes = Number(searchParams.get('barMinutes') ?? SNAPSHOT_BAR_MINUTES);
+
+  if (!Number.isFinite(olderThanDays) || olderThanDays < 1) {
+    return NextResponse.json(
+      { data: null, error: 'olderThanDays must be at least 1' },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(barMinutes) || barMinutes < 1) {
+    return NextResponse.json(
+      { data: null, error: 'barMinutes must be a whole number of minutes' },
+      { status: 400 }
+    );
+  }
+
+  const before = new Date(Date.now() - olderThanDays * 24 * 60 * 60_000);
+
+  try {
+    const result = await downsampleSnapshots(supabase, before, barMinutes);
+    const { error, ...data } = result;
+
+    return NextResponse.json(
+      { data: { before: before.toISOString(), barMinutes, ...data }, error },
+      { status: error ? 500 : 200 }
+    );
+  } catch (err) {
+    console.error('Snapshot maintenance error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to downsample snapshots' },
+      { status: 500 }
+    );
+  }
+}
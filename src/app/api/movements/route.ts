@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { fetchSnapshotsInRange } from '@/lib/history';
+import { detectMovements, MovementEvent } from '@/lib/movement';
+import { isFixtureMode } from '@/lib/odds-provider';
+import { fixtureDir, fixtureNow, replaySnapshots } from '@/lib/fixture-store';
+import { OddsSnapshot } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/movements
+ *
+ * Steam, drift, reversal and late-money events for today's and tomorrow's
+ * races, detected from the stored snapshot series (see movement.ts). In
+ * fixture mode the snapshots are replayed up to the replay time.
+ */
+export async function GET() {
+  try {
+    if (isFixtureMode()) {
+      const dir = fixtureDir();
+      const now = await fixtureNow(dir);
+      const today = now.toISOString().slice(0, 10);
+      const snapshots = (await replaySnapshots(dir, now, () => true)).filter(
+        (row) => new Date(row.commence_time).toISOString().slice(0, 10) >= today
+      );
+      return NextResponse.json({ data: movementsByRace(snapshots), error: null });
+    }
+
+    const supabase = getServiceSupabase();
+
+    if (!supabase) {
+      return NextResponse.json(
+        { data: null, error: 'Supabase is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const today = new Date();
+    const tomorrow = new Date(today);
+    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+    const { data, error } = await fetchSnapshotsInRange(
+      supabase,
+      today.toISOString().slice(0, 10),
+      tomorrow.toISOString().slice(0, 10)
+    );
+
+    if (error) {
+      return NextResponse.json({ data: null, error }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: movementsByRace(data), error: null });
+  } catch (err) {
+    console.error('Movements route error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to detect movements' },
+      { status: 500 }
+    );
+  }
+}
+
+function movementsByRace(snapshots: OddsSnapshot[]): MovementEvent[] {
+  const byEvent = new Map<string, OddsSnapshot[]>();
+  for (const snap of snapshots) {
+    const existing = byEvent.get(snap.event_id) || [];
+    existing.push(snap);
+    byEvent.set(snap.event_id, existing);
+  }
+  return Array.from(byEvent.values()).flatMap(detectMovements);
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { fetchNonRunners } from '@/lib/non-runners';
+import { isFixtureMode } from '@/lib/odds-provider';
+import { fixtureDir, fixtureNow, replayNonRunners } from '@/lib/fixture-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/non-runners
+ *
+ * Runners withdrawn from today's and upcoming races, with the Rule 4
+ * deduction for each. Withdrawals are detected whenever racecards are
+ * refreshed (/api/racing and the collector); in fixture mode they are
+ * replayed from the recorded racecards up to the replay time.
+ */
+export async function GET() {
+  try {
+    if (isFixtureMode()) {
+      const dir = fixtureDir();
+      return NextResponse.json({ data: await replayNonRunners(dir, await fixtureNow(dir)), error: null });
+    }
+
+    const supabase = getServiceSupabase();
+
+    if (!supabase) {
+      return NextResponse.json(
+        { data: null, error: 'Supabase is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const { data, error } = await fetchNonRunners(supabase, today);
+
+    if (error) {
+      return NextResponse.json({ data: null, error }, { status: 500 });
+    }
+
+    return NextResponse.json({ data, error: null });
+  } catch (err) {
+    console.error('Non-runners route error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to load non-runners' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { isFixtureMode } from '@/lib/odds-provider';
+import { fixtureDir, fixtureNow, replayRacecard } from '@/lib/fixture-store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/racecard?eventId=xxx
+ *
+ * Stored racecard for a race: metadata from `races` plus every declared
+ * runner from `runners`, ordered by saddlecloth number. In fixture mode
+ * the same rows are built from the recorded racecard.
+ */
+export async function GET(request: NextRequest) {
+  if (isFixtureMode()) {
+    const eventId = new URL(request.url).searchParams.get('eventId');
+    if (!eventId) {
+      return NextResponse.json(
+        { data: null, error: 'eventId is required' },
+        { status: 400 }
+      );
+    }
+    const dir = fixtureDir();
+    return NextResponse.json({ data: await replayRacecard(dir, await fixtureNow(dir), eventId), error: null });
+  }
+
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const eventId = searchParams.get('eventId');
+
+  if (!eventId) {
+    return NextResponse.json(
+      { data: null, error: 'eventId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [raceRes, runnersRes] = await Promise.all([
+      supabase.from('races').select('*').eq('id', eventId).maybeSingle(),
+      supabase
+        .from('runners')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('number', { ascending: true }),
+    ]);
+
+    const error = raceRes.error || runnersRes.error;
+    if (error) {
+      console.error('Supabase query error:', error);
+      return NextResponse.json(
+        { data: null, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: raceRes.data ? { race: raceRes.data, runners: runnersRes.data || [] } : null,
+      error: null,
+    });
+  } catch (err) {
+    console.error('Racecard fetch error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to fetch racecard' },
+      { status: 500 }
+    );
+  }
+}
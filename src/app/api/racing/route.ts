@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchRacecards, transformRacecardsToEvents } from '@/lib/racing-api';
+import { getOddsProvider } from '@/lib/odds-provider';
+import { getServiceSupabase } from '@/lib/supabase';
+import { saveRacecards } from '@/lib/race-store';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,30 +10,26 @@ export const dynamic = 'force-dynamic';
  * GET /api/racing?day=today
  * GET /api/racing?day=tomorrow
  *
- * Fetches horse racing racecards from The Racing API and transforms
- * them into the same OddsApiEvent format used by the rest of the dashboard.
+ * Fetches racecards from the configured odds provider (ODDS_PROVIDER,
+ * The Racing API by default) and returns them as OddsApiEvent prices for
+ * the dashboard. Race metadata and runner details are upserted into
+ * Supabase on each fetch (not when replaying fixtures). With the Racing API and BETFAIR_APP_KEY set,
+ * exchange market books (best back/lay, top-three ladder, total matched)
+ * are attached to each event.
  */
 export async function GET(request: NextRequest) {
   try {
-    const username = process.env.RACING_API_USERNAME;
-    const password = process.env.RACING_API_PASSWORD;
+    const { provider, error: providerError } = getOddsProvider();
 
-    if (!username || !password) {
-      return NextResponse.json(
-        {
-          data: null,
-          error:
-            'Racing API credentials not configured. Add RACING_API_USERNAME and RACING_API_PASSWORD to your Vercel Environment Variables, then redeploy.',
-        },
-        { status: 200 }
-      );
+    if (!provider) {
+      return NextResponse.json({ data: null, error: providerError });
     }
 
     const { searchParams } = new URL(request.url);
     const day = (searchParams.get('day') || 'today') as 'today' | 'tomorrow';
     const raw = searchParams.get('raw') === 'true';
 
-    const result = await fetchRacecards(username, password, day);
+    const result = await provider.listEvents(day);
 
     if (!result.data) {
       return NextResponse.json({
@@ -40,7 +38,7 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Debug mode: return raw Racing API data (first racecard + first runner)
+    // Debug mode: return raw racecard data (first racecard + first runner)
     // so we can see the actual field names and odds structure
     if (raw) {
       const firstRace = result.data[0] || null;
@@ -60,11 +58,28 @@ export async function GET(request: NextRequest) {
           region: firstRace.region,
         } : null,
         sampleRunner: firstRunner,
-        source: 'the-racing-api',
+        source: provider.id,
       });
     }
 
-    const events = transformRacecardsToEvents(result.data);
+    // Persist racecard metadata (failure here must not break the dashboard)
+    const supabase = getServiceSupabase();
+    let racecardsSaved: number | null = null;
+    if (supabase && provider.capabilities.live) {
+      const saved = await saveRacecards(supabase, result.data);
+      racecardsSaved = saved.error ? null : saved.races;
+    }
+
+    const prices = await provider.fetchPrices(result.data);
+
+    if (prices.error) {
+      return NextResponse.json({
+        data: null,
+        error: prices.error,
+      });
+    }
+
+    const events = prices.data;
 
     // Transformed debug mode: show the first transformed event
     // to verify bookmakers and outcomes are mapped correctly
@@ -83,7 +98,7 @@ export async function GET(request: NextRequest) {
           firstBookmaker: firstEvent.bookmakers[0] || null,
           totalOutcomes: firstEvent.bookmakers[0]?.markets[0]?.outcomes?.length || 0,
         } : null,
-        source: 'the-racing-api',
+        source: provider.id,
       });
     }
 
@@ -91,10 +106,15 @@ export async function GET(request: NextRequest) {
       data: events,
       error: null,
       racecardCount: result.data.length,
-      source: 'the-racing-api',
+      racecardsSaved,
+      exchangeMarkets: provider.capabilities.exchangeOdds ? events.filter((e) => e.exchange).length : null,
+      exchangeError: prices.warning,
+      source: provider.id,
+      // Simulated time when replaying fixtures, so the dashboard splits days on the replay clock
+      replayTime: provider.clock ? (await provider.clock()).toISOString() : null,
     });
   } catch (err) {
-    console.error('Racing API route error:', err);
+    console.error('Racing route error:', err);
     return NextResponse.json({
       data: null,
       error: `Racing API route error: ${err instanceof Error ? err.message : String(err)}`,
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { getOddsProvider } from '@/lib/odds-provider';
+import { saveResults } from '@/lib/results-store';
+import { settleOpenBets } from '@/lib/settlement';
+
+export const dynamic = 'force-dynamic';
+
+// Keep each backfill within a sensible number of provider pages
+const MAX_BACKFILL_DAYS = 31;
+
+/**
+ * POST /api/results/backfill
+ * Body: { startDate: 'YYYY-MM-DD', endDate: 'YYYY-MM-DD' }
+ *
+ * Loads results for a past date range from the odds provider and writes them
+ * to race_results, so races from days when nobody refreshed the dashboard
+ * can still be settled, backtested and calibrated.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Supabase is not configured', saved: 0 },
+      { status: 500 }
+    );
+  }
+
+  const { provider, error: providerError } = getOddsProvider();
+
+  if (!provider) {
+    return NextResponse.json({ error: providerError, saved: 0 });
+  }
+
+  if (!provider.capabilities.live || !provider.capabilities.resultsRange) {
+    return NextResponse.json(
+      { error: `Provider ${provider.id} does not support result backfills`, saved: 0 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const startDate: string = body.startDate || '';
+    const endDate: string = body.endDate || '';
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate) || startDate > endDate) {
+      return NextResponse.json(
+        { error: 'startDate and endDate (YYYY-MM-DD) are required', saved: 0 },
+        { status: 400 }
+      );
+    }
+
+    const days = (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000 + 1;
+    if (days > MAX_BACKFILL_DAYS) {
+      return NextResponse.json(
+        { error: `Backfill at most ${MAX_BACKFILL_DAYS} days per request`, saved: 0 },
+        { status: 400 }
+      );
+    }
+
+    const results = await provider.fetchResultsRange(startDate, endDate);
+    if (!results.data) {
+      return NextResponse.json({ error: results.error, saved: 0 });
+    }
+
+    const saved = await saveResults(supabase, results.data);
+    if (saved.error) {
+      return NextResponse.json(
+        { error: saved.error, saved: 0 },
+        { status: 500 }
+      );
+    }
+
+    // Lays on the backfilled races can now be settled
+    const settlement = await settleOpenBets(supabase);
+
+    return NextResponse.json({
+      error: null,
+      races: results.data.length,
+      saved: saved.saved,
+      nonRunners: saved.nonRunners,
+      betsSettled: settlement.error ? null : settlement.settled,
+    });
+  } catch (err) {
+    console.error('Results backfill error:', err);
+    return NextResponse.json(
+      { error: 'Failed to backfill results', saved: 0 },
+      { status: 500 }
+    );
+  }
+}
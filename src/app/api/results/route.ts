@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchResults } from '@/lib/racing-api';
+import { getOddsProvider } from '@/lib/odds-provider';
+import { getServiceSupabase } from '@/lib/supabase';
+import { saveResults } from '@/lib/results-store';
+import { settleOpenBets } from '@/lib/settlement';
 
 export const dynamic = 'force-dynamic';
 
@@ -7,34 +10,52 @@ export const dynamic = 'force-dynamic';
  * GET /api/results
  * GET /api/results?day=today
  *
- * Fetches race results from The Racing API.
+ * Fetches race results from the configured odds provider.
  * Returns runner positions and starting prices for completed races.
+ * Every live fetch is also written to the race_results table, and any open
+ * recorded lays with a result are settled.
  */
 export async function GET(request: NextRequest) {
   try {
-    const username = process.env.RACING_API_USERNAME;
-    const password = process.env.RACING_API_PASSWORD;
-
-    if (!username || !password) {
-      return NextResponse.json({
-        data: null,
-        error: 'Racing API credentials not configured',
-      });
+    const { provider, error: providerError } = getOddsProvider();
+
+    if (!provider) {
+      return NextResponse.json({ data: null, error: providerError });
+    }
+
+    if (!provider.capabilities.results) {
+      return NextResponse.json({ data: [], error: null, resultCount: 0, source: provider.id });
     }
 
     const { searchParams } = new URL(request.url);
     const day = (searchParams.get('day') || 'today') as 'today' | 'tomorrow';
 
-    const result = await fetchResults(username, password, day);
+    const result = await provider.fetchResults(day);
 
     if (!result.data) {
       return NextResponse.json({ data: null, error: result.error });
     }
 
+    // Persist results (failure here must not break the dashboard)
+    const supabase = getServiceSupabase();
+    let resultsSaved: number | null = null;
+    let betsSettled: number | null = null;
+    if (supabase && provider.capabilities.live) {
+      const saved = await saveResults(supabase, result.data);
+      resultsSaved = saved.error ? null : saved.saved;
+      if (!saved.error) {
+        const settlement = await settleOpenBets(supabase);
+        betsSettled = settlement.error ? null : settlement.settled;
+      }
+    }
+
     return NextResponse.json({
       data: result.data,
       error: null,
       resultCount: result.data.length,
+      resultsSaved,
+      betsSettled,
+      source: provider.id,
     });
   } catch (err) {
     console.error('Results API route error:', err);
@@ -1,19 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServiceSupabase } from '@/lib/supabase';
+import { saveSnapshots } from '@/lib/snapshot-store';
 import { OddsSnapshot } from '@/lib/types';
+import { isFixtureMode } from '@/lib/odds-provider';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * POST /api/snapshot
  * Save odds snapshots to Supabase.
- * Body: { snapshots: OddsSnapshot[] }
+ * Body: { snapshots: OddsSnapshot[], cycleId?: string }
  *
- * Uses a single batch query to check which event+runner combos already have
- * opening snapshots, then marks new ones accordingly. Much faster than
- * checking each snapshot individually.
+ * Scheduled collection goes through /api/collect; this route is kept for
+ * manual imports. Only price changes are stored, and posting the same
+ * cycleId twice is a no-op (defaults to the current collection window).
+ * In fixture mode nothing is written; snapshots come from the recording.
  */
 export async function POST(request: NextRequest) {
+  if (isFixtureMode()) {
+    return NextResponse.json({ error: null, saved: 0, newOpenings: 0, fixture: true });
+  }
+
   const supabase = getServiceSupabase();
 
   if (!supabase) {
@@ -34,62 +41,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Batch-fetch all existing opening snapshots in ONE query
-    // Get unique event+runner combos from the incoming snapshots
-    const uniqueKeys = new Set<string>();
-    const eventIds = new Set<string>();
-    for (const s of snapshots) {
-      uniqueKeys.add(`${s.event_id}::${s.runner_name}`);
-      eventIds.add(s.event_id);
-    }
-
-    // Query all existing openings for these events at once
-    const existingOpenings = new Set<string>();
-    const { data: existingData } = await supabase
-      .from('odds_snapshots')
-      .select('event_id, runner_name')
-      .eq('is_opening', true)
-      .in('event_id', Array.from(eventIds));
-
-    if (existingData) {
-      for (const row of existingData) {
-        existingOpenings.add(`${row.event_id}::${row.runner_name}`);
-      }
-    }
-
-    // Mark snapshots: first occurrence of each event+runner gets is_opening = true
-    const openingsMarkedThisBatch = new Set<string>();
-    const snapshotsToInsert = snapshots.map((snapshot) => {
-      const key = `${snapshot.event_id}::${snapshot.runner_name}`;
-      const alreadyHasOpening = existingOpenings.has(key) || openingsMarkedThisBatch.has(key);
-
-      if (!alreadyHasOpening) {
-        openingsMarkedThisBatch.add(key);
-      }
-
-      return {
-        ...snapshot,
-        is_opening: !alreadyHasOpening,
-      };
-    });
-
-    const { data, error } = await supabase
-      .from('odds_snapshots')
-      .insert(snapshotsToInsert)
-      .select('id');
+    const cycleId = typeof body.cycleId === 'string' && body.cycleId ? body.cycleId : undefined;
+    const result = await saveSnapshots(supabase, snapshots, cycleId);
 
-    if (error) {
-      console.error('Supabase insert error:', error);
+    if (result.error) {
       return NextResponse.json(
-        { error: error.message, saved: 0 },
+        { error: result.error, saved: 0 },
         { status: 500 }
       );
     }
 
     return NextResponse.json({
       error: null,
-      saved: data?.length || 0,
-      newOpenings: openingsMarkedThisBatch.size,
+      saved: result.saved,
+      newOpenings: result.newOpenings,
     });
   } catch (err) {
     console.error('Snapshot save error:', err);
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/strategies/:id
+ *
+ * Remove a saved strategy. Settings that loaded it keep their own copy.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { id } = await params;
+
+  const { error } = await supabase.from('lay_strategies').delete().eq('id', id);
+
+  if (error) {
+    console.error('Supabase delete error:', error);
+    return NextResponse.json(
+      { data: null, error: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ data: { id }, error: null });
+}
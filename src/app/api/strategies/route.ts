@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { parseStrategy } from '@/lib/strategy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/strategies
+ *
+ * List saved lay strategies, by name.
+ */
+export async function GET() {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('lay_strategies')
+    .select('id, name, definition, updated_at')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Supabase query error:', error);
+    return NextResponse.json(
+      { data: null, error: error.message },
+      { status: 500 }
+    );
+  }
+
+  // Skip rows edited by hand into something the engine can't evaluate
+  const strategies = (data || []).filter((row) => {
+    const { error: parseError } = parseStrategy(row.definition);
+    if (parseError) console.error(`Skipping lay strategy "${row.name}": ${parseError}`);
+    return !parseError;
+  });
+
+  return NextResponse.json({ data: strategies, error: null });
+}
+
+/**
+ * POST /api/strategies
+ * Body: { name: string, definition: StrategyGroup }
+ *
+ * Save a strategy under a name, replacing any saved with the same name.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = getServiceSupabase();
+
+  if (!supabase) {
+    return NextResponse.json(
+      { data: null, error: 'Supabase is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json(
+        { data: null, error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    const { strategy, error: parseError } = parseStrategy(body.definition);
+    if (!strategy) {
+      return NextResponse.json(
+        { data: null, error: parseError },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('lay_strategies')
+      .upsert(
+        { name, definition: strategy, updated_at: new Date().toISOString() },
+        { onConflict: 'name' }
+      )
+      .select('id, name, definition, updated_at')
+      .single();
+
+    if (error) {
+      console.error('Supabase upsert error:', error);
+      return NextResponse.json(
+        { data: null, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data, error: null });
+  } catch (err) {
+    console.error('Save strategy error:', err);
+    return NextResponse.json(
+      { data: null, error: 'Failed to save strategy' },
+      { status: 500 }
+    );
+  }
+}
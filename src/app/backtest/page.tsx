@@ -0,0 +1,382 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSettings } from '@/hooks/useSettings';
+import { useBacktest, useResultsBackfill } from '@/hooks/useBacktest';
+import { formatOdds, formatPercent } from '@/lib/calculations';
+import ValueAlert from '@/components/ValueAlert';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+
+function isoDaysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? '-' : ''}£${Math.abs(value).toFixed(2)}`;
+}
+
+export default function BacktestPage() {
+  const { settings } = useSettings();
+  const backtest = useBacktest();
+  const backfill = useResultsBackfill();
+  const [startDate, setStartDate] = useState(isoDaysAgo(7));
+  const [endDate, setEndDate] = useState(isoDaysAgo(1));
+
+  const report = backtest.data;
+  const summary = report?.summary;
+
+  const chartData = (report?.curve ?? []).map((point, i) => ({
+    index: i,
+    label: point.time
+      ? new Date(point.time).toLocaleString('en-GB', {
+          day: 'numeric',
+          month: 'short',
+          hour: '2-digit',
+          minute: '2-digit',
+        })
+      : point.label,
+    bankroll: point.bankroll,
+  }));
+
+  const racesWithBets = (report?.races ?? []).filter((r) => r.bets.length > 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="max-w-7xl mx-auto">
+          <Link href="/" className="text-xs text-blue-600 hover:underline mb-2 inline-block">
+            &larr; Back to dashboard
+          </Link>
+          <h1 className="text-lg font-bold text-gray-900">Backtest</h1>
+          <p className="text-xs text-gray-500">
+            Replays stored snapshots through the lay engine using your current settings
+            and settles each lay against the official result.
+          </p>
+        </div>
+      </div>
+
+      <main className="max-w-7xl mx-auto px-4 py-4 space-y-6">
+        {/* Controls */}
+        <section className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <button
+            onClick={() => backtest.mutate({ startDate, endDate, settings })}
+            disabled={backtest.isPending}
+            className="px-4 py-2 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {backtest.isPending ? 'Running...' : 'Run backtest'}
+          </button>
+          <button
+            onClick={() => backfill.mutate({ startDate, endDate })}
+            disabled={backfill.isPending}
+            className="px-3 py-2 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            title="Load Racing API results for this date range into the database"
+          >
+            {backfill.isPending ? 'Loading results...' : 'Backfill results'}
+          </button>
+          {backfill.data && (
+            <span className="text-[10px] text-green-600">
+              {backfill.data.races} races / {backfill.data.saved} runners stored
+            </span>
+          )}
+          {backfill.isError && (
+            <span className="text-[10px] text-red-600">
+              {backfill.error instanceof Error ? backfill.error.message : 'Backfill failed'}
+            </span>
+          )}
+          <p className="text-[10px] text-gray-400">
+            Bankroll £{settings.bankroll} &middot; Kelly ×{settings.kellyMultiplier} &middot;
+            max liability {settings.maxLiabilityPct}% &middot; α={settings.modelAlpha}, β={settings.modelBeta}
+            {settings.profiles.length > 0 && (
+              <> &middot; {settings.profiles.length} strateg{settings.profiles.length !== 1 ? 'ies' : 'y'} to compare</>
+            )}
+          </p>
+        </section>
+
+        {/* Error state */}
+        {backtest.isError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-red-800 mb-1">Backtest failed</h3>
+            <p className="text-xs text-red-600">
+              {backtest.error instanceof Error ? backtest.error.message : 'Unknown error'}
+            </p>
+          </div>
+        )}
+
+        {summary && (
+          <>
+            {/* Summary */}
+            <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                {
+                  label: 'P&L',
+                  value: formatMoney(summary.totalPnl),
+                  color: summary.totalPnl >= 0 ? 'text-green-600' : 'text-red-600',
+                  subtitle: `${formatMoney(summary.startingBankroll)} → ${formatMoney(summary.endingBankroll)}`,
+                },
+                {
+                  label: 'ROI on Liability',
+                  value: summary.roi !== null ? formatPercent(summary.roi) : '-',
+                  color: (summary.roi ?? 0) >= 0 ? 'text-green-600' : 'text-red-600',
+                  subtitle: `${formatMoney(summary.totalLiability)} risked`,
+                },
+                {
+                  label: 'Lays',
+                  value: summary.bets.toString(),
+                  color: 'text-blue-600',
+                  subtitle: `${summary.betsWon} won · ${summary.betsLost} lost · ${summary.betsVoid} void${
+                    summary.strikeRate !== null ? ` · ${formatPercent(summary.strikeRate)} strike` : ''
+                  }`,
+                },
+                {
+                  label: 'Max Drawdown',
+                  value: formatMoney(summary.maxDrawdown),
+                  color: summary.maxDrawdown > 0 ? 'text-amber-600' : 'text-gray-600',
+                  subtitle: `${formatPercent(summary.maxDrawdownPct)} of peak · ${summary.racesWithResults}/${summary.racesReplayed} races settled`,
+                },
+              ].map((item) => (
+                <div key={item.label} className="bg-white rounded-lg border border-gray-200 px-4 py-3">
+                  <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                    {item.label}
+                  </div>
+                  <div className={`text-xl font-bold ${item.color}`}>{item.value}</div>
+                  <div className="text-[10px] text-gray-400 mt-0.5">{item.subtitle}</div>
+                </div>
+              ))}
+            </section>
+
+            {/* Strategy comparison */}
+            {report.profiles.length > 0 && (
+              <section>
+                <h2 className="text-sm font-semibold text-gray-900 mb-2">
+                  Strategy Comparison
+                  <span className="ml-1 text-xs font-normal text-gray-400">
+                    (same snapshots and results, each from {formatMoney(summary.startingBankroll)})
+                  </span>
+                </h2>
+                <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead>
+                      <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+                        <th className="px-3 py-2 font-medium">Strategy</th>
+                        <th className="px-2 py-2 font-medium text-center">Lays</th>
+                        <th className="px-2 py-2 font-medium text-center">W/L/V</th>
+                        <th className="px-2 py-2 font-medium text-right">Strike</th>
+                        <th className="px-2 py-2 font-medium text-right">Liability</th>
+                        <th className="px-2 py-2 font-medium text-right">P&amp;L</th>
+                        <th className="px-2 py-2 font-medium text-right">ROI</th>
+                        <th className="px-3 py-2 font-medium text-right">Max Drawdown</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[
+                        { key: 'current', name: 'Current settings', summary },
+                        ...report.profiles.map((p) => ({ key: p.profileId, name: p.profileName, summary: p.summary })),
+                      ].map((row) => (
+                        <tr key={row.key} className="border-b border-gray-50 hover:bg-gray-50">
+                          <td className={`px-3 py-2 font-medium ${row.key === 'current' ? 'text-gray-500' : ''}`}>
+                            {row.name}
+                          </td>
+                          <td className="px-2 py-2 text-center">{row.summary.bets}</td>
+                          <td className="px-2 py-2 text-center text-xs text-gray-500">
+                            {row.summary.betsWon}/{row.summary.betsLost}/{row.summary.betsVoid}
+                          </td>
+                          <td className="px-2 py-2 text-right font-mono text-gray-500">
+                            {row.summary.strikeRate !== null ? formatPercent(row.summary.strikeRate) : '-'}
+                          </td>
+                          <td className="px-2 py-2 text-right font-mono">{formatMoney(row.summary.totalLiability)}</td>
+                          <td
+                            className={`px-2 py-2 text-right font-mono ${
+                              row.summary.totalPnl >= 0 ? 'text-green-600' : 'text-red-600'
+                            }`}
+                          >
+                            {formatMoney(row.summary.totalPnl)}
+                          </td>
+                          <td className="px-2 py-2 text-right font-mono text-gray-500">
+                            {row.summary.roi !== null ? formatPercent(row.summary.roi) : '-'}
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono">
+                            {formatMoney(row.summary.maxDrawdown)}
+                            <span className="text-[10px] text-gray-400"> ({formatPercent(row.summary.maxDrawdownPct)})</span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            )}
+
+            {/* Bankroll curve */}
+            {chartData.length > 1 && (
+              <section>
+                <h2 className="text-sm font-semibold text-gray-900 mb-2">Bankroll</h2>
+                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                  <ResponsiveContainer width="100%" height={260}>
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                      <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+                      <Tooltip />
+                      <Line
+                        type="monotone"
+                        dataKey="bankroll"
+                        stroke="#3b82f6"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </section>
+            )}
+
+            {/* Daily ledger */}
+            <section>
+              <h2 className="text-sm font-semibold text-gray-900 mb-2">Daily Ledger</h2>
+              <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+                      <th className="px-3 py-2 font-medium">Date</th>
+                      <th className="px-2 py-2 font-medium text-center">Races</th>
+                      <th className="px-2 py-2 font-medium text-center">Lays</th>
+                      <th className="px-2 py-2 font-medium text-right">Liability</th>
+                      <th className="px-2 py-2 font-medium text-right">P&amp;L</th>
+                      <th className="px-2 py-2 font-medium text-right">ROI</th>
+                      <th className="px-3 py-2 font-medium text-right">Bankroll</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.days.map((day) => (
+                      <tr key={day.date} className="border-b border-gray-50 hover:bg-gray-50">
+                        <td className="px-3 py-2 font-medium">{day.date}</td>
+                        <td className="px-2 py-2 text-center">{day.races}</td>
+                        <td className="px-2 py-2 text-center">{day.bets}</td>
+                        <td className="px-2 py-2 text-right font-mono">{formatMoney(day.liability)}</td>
+                        <td className={`px-2 py-2 text-right font-mono ${day.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatMoney(day.pnl)}
+                        </td>
+                        <td className="px-2 py-2 text-right font-mono text-gray-500">
+                          {day.roi !== null ? formatPercent(day.roi) : '-'}
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono">{formatMoney(day.bankrollEnd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            {/* Race ledger */}
+            <section>
+              <h2 className="text-sm font-semibold text-gray-900 mb-2">
+                Race Ledger
+                <span className="ml-1 text-xs font-normal text-gray-400">
+                  ({racesWithBets.length} races with lays)
+                </span>
+              </h2>
+              <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+                      <th className="px-3 py-2 font-medium">Race</th>
+                      <th className="px-2 py-2 font-medium">Horse</th>
+                      <th className="px-2 py-2 font-medium text-center">Opening Avg</th>
+                      <th className="px-2 py-2 font-medium text-center">Laid At</th>
+                      <th className="px-2 py-2 font-medium text-center">Signal</th>
+                      <th className="px-2 py-2 font-medium text-right">Stake</th>
+                      <th className="px-2 py-2 font-medium text-right">Liability</th>
+                      <th className="px-3 py-2 font-medium text-right">P&amp;L</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {racesWithBets.flatMap((race) =>
+                      race.bets.map((bet, i) => (
+                        <tr key={`${race.eventId}-${bet.runnerName}`} className="border-b border-gray-50 hover:bg-gray-50">
+                          <td className="px-3 py-2 text-xs">
+                            {i === 0 && (
+                              <>
+                                <div className="font-medium text-gray-900">{race.eventName}</div>
+                                <div className="text-[10px] text-gray-400">
+                                  {race.date}
+                                  {race.winner && <> &middot; won by {race.winner}</>}
+                                </div>
+                              </>
+                            )}
+                          </td>
+                          <td className="px-2 py-2 font-medium">{bet.runnerName}</td>
+                          <td className="px-2 py-2 text-center font-mono">{formatOdds(bet.openingAverageOdds)}</td>
+                          <td className="px-2 py-2 text-center font-mono">
+                            {formatOdds(bet.layOdds)}
+                            <div className="text-[9px] text-gray-400">
+                              {new Date(bet.placedAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                            </div>
+                          </td>
+                          <td className="px-2 py-2 text-center">
+                            <ValueAlert signal={bet.valueSignal} />
+                          </td>
+                          <td className="px-2 py-2 text-right font-mono">{formatMoney(bet.stake)}</td>
+                          <td className="px-2 py-2 text-right font-mono">{formatMoney(bet.liability)}</td>
+                          <td
+                            className={`px-3 py-2 text-right font-mono ${
+                              bet.outcome === 'won'
+                                ? 'text-green-600'
+                                : bet.outcome === 'lost'
+                                  ? 'text-red-600'
+                                  : 'text-gray-400'
+                            }`}
+                          >
+                            {bet.outcome === 'unsettled' ? 'no result' : bet.outcome === 'void' ? 'void' : formatMoney(bet.pnl)}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+                {racesWithBets.length === 0 && (
+                  <p className="text-xs text-gray-400 text-center py-6">
+                    No lays were triggered in this period.
+                  </p>
+                )}
+              </div>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
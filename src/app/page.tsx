@@ -3,6 +3,9 @@
 import { useState, useMemo } from 'react';
 import { useOdds } from '@/hooks/useOdds';
 import { useSettings } from '@/hooks/useSettings';
+import { useBets } from '@/hooks/useBets';
+import { useEffectiveBankroll } from '@/hooks/useBankroll';
+import { openLiabilityByEvent, totalOpenLiability } from '@/lib/bets';
 import DashboardHeader from '@/components/DashboardHeader';
 import DashboardStats from '@/components/DashboardStats';
 import RaceCard from '@/components/RaceCard';
@@ -16,13 +19,21 @@ export default function Dashboard() {
   const [showSettings, setShowSettings] = useState(false);
   const [activeTab, setActiveTab] = useState<DayTab>('today');
 
+  const { data: bets } = useBets();
+  const { state: bankrollState } = useEffectiveBankroll(settings);
   const races = useMemo(() => data?.races ?? [], [data?.races]);
   const stats = data?.stats ?? null;
 
+  // Open liability from recorded lays
+  const liabilityByEvent = useMemo(() => openLiabilityByEvent(bets ?? []), [bets]);
+  const exposure = useMemo(() => totalOpenLiability(bets ?? []), [bets]);
+
   // Split races into today and tomorrow
+  const replayTime = stats?.replayTime ?? null;
   const { todayRaces, tomorrowRaces } = useMemo(() => {
-    const today = new Date().toDateString();
-    const tomorrow = new Date();
+    const now = replayTime ? new Date(replayTime) : new Date();
+    const today = now.toDateString();
+    const tomorrow = new Date(now);
     tomorrow.setDate(tomorrow.getDate() + 1);
     const tomorrowStr = tomorrow.toDateString();
 
@@ -30,7 +41,7 @@ export default function Dashboard() {
       todayRaces: races.filter((r) => new Date(r.commenceTime).toDateString() === today),
       tomorrowRaces: races.filter((r) => new Date(r.commenceTime).toDateString() === tomorrowStr),
     };
-  }, [races]);
+  }, [races, replayTime]);
 
   const displayedRaces = activeTab === 'today' ? todayRaces : tomorrowRaces;
 
@@ -42,6 +53,10 @@ export default function Dashboard() {
         isRefetching={isRefetching}
         onRefresh={() => refetch()}
         onToggleSettings={() => setShowSettings((s) => !s)}
+        exposure={exposure}
+        bankroll={
+          settings.bankrollMode === 'dynamic' && bankrollState ? bankrollState.balance : settings.bankroll
+        }
       />
 
       <main className="max-w-7xl mx-auto px-4 py-4">
@@ -137,7 +152,12 @@ export default function Dashboard() {
 
         {/* Race cards */}
         {displayedRaces.map((race) => (
-          <RaceCard key={race.eventId} race={race} settings={settings} />
+          <RaceCard
+            key={race.eventId}
+            race={race}
+            settings={settings}
+            openLiability={liabilityByEvent.get(race.eventId)}
+          />
         ))}
       </main>
 
@@ -0,0 +1,313 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSettings } from '@/hooks/useSettings';
+import { useBets, useSettleBets } from '@/hooks/useBets';
+import { buildPnlReport, PnlPeriod, PnlStats } from '@/lib/pnl';
+import { formatOdds, formatPercent } from '@/lib/calculations';
+import ValueAlert from '@/components/ValueAlert';
+import BetsTable from '@/components/BetsTable';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+
+const PERIOD_LABELS: Record<PnlPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? '-' : ''}£${Math.abs(value).toFixed(2)}`;
+}
+
+function formatPeriod(key: string, period: PnlPeriod): string {
+  if (period === 'month') {
+    return new Date(`${key}-01T00:00:00Z`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+  }
+  const label = new Date(`${key}T00:00:00Z`).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+  return period === 'week' ? `w/c ${label}` : label;
+}
+
+function StatsCells({ stats }: { stats: PnlStats }) {
+  return (
+    <>
+      <td className="px-2 py-2 text-center">{stats.bets}</td>
+      <td className="px-2 py-2 text-center text-xs text-gray-500">
+        {stats.won}/{stats.lost}/{stats.void}
+      </td>
+      <td className="px-2 py-2 text-right font-mono text-gray-500">
+        {stats.strikeRate !== null ? formatPercent(stats.strikeRate) : '-'}
+      </td>
+      <td className="px-2 py-2 text-center font-mono">{formatOdds(stats.averageOdds)}</td>
+      <td className="px-2 py-2 text-right font-mono">{formatMoney(stats.liability)}</td>
+      <td className={`px-2 py-2 text-right font-mono ${stats.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {formatMoney(stats.pnl)}
+      </td>
+      <td className="px-3 py-2 text-right font-mono text-gray-500">
+        {stats.roi !== null ? formatPercent(stats.roi) : '-'}
+      </td>
+    </>
+  );
+}
+
+const STATS_HEADERS = (
+  <>
+    <th className="px-2 py-2 font-medium text-center">Lays</th>
+    <th className="px-2 py-2 font-medium text-center">W/L/V</th>
+    <th className="px-2 py-2 font-medium text-right">Strike</th>
+    <th className="px-2 py-2 font-medium text-center">Avg Odds</th>
+    <th className="px-2 py-2 font-medium text-right">Liability</th>
+    <th className="px-2 py-2 font-medium text-right">P&amp;L</th>
+    <th className="px-3 py-2 font-medium text-right">ROI</th>
+  </>
+);
+
+export default function PnlPage() {
+  const { settings } = useSettings();
+  const { data: bets, isLoading } = useBets();
+  const settle = useSettleBets();
+  const [period, setPeriod] = useState<PnlPeriod>('day');
+
+  const report = useMemo(
+    () => buildPnlReport(bets ?? [], settings.bankroll, period),
+    [bets, settings.bankroll, period]
+  );
+  const summary = report.summary;
+
+  const chartData = report.curve.map((point) => ({
+    label: new Date(point.time).toLocaleString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    }),
+    bankroll: point.bankroll,
+  }));
+
+  const settledBets = (bets ?? []).filter((b) => b.settled_at);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="max-w-7xl mx-auto">
+          <Link href="/" className="text-xs text-blue-600 hover:underline mb-2 inline-block">
+            &larr; Back to dashboard
+          </Link>
+          <h1 className="text-lg font-bold text-gray-900">Profit &amp; Loss</h1>
+          <p className="text-xs text-gray-500">
+            Recorded lays settled against stored race results, net of commission.
+          </p>
+        </div>
+      </div>
+
+      <main className="max-w-7xl mx-auto px-4 py-4 space-y-6">
+        {/* Controls */}
+        <section className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+          <div className="flex gap-1">
+            {(Object.keys(PERIOD_LABELS) as PnlPeriod[]).map((p) => (
+              <button
+                key={p}
+                onClick={() => setPeriod(p)}
+                className={`px-3 py-1.5 text-xs rounded border transition-colors ${
+                  period === p
+                    ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                    : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                {PERIOD_LABELS[p]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => settle.mutate()}
+            disabled={settle.isPending}
+            className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            title="Settle open lays against results already stored in the database"
+          >
+            {settle.isPending ? 'Settling...' : 'Settle now'}
+          </button>
+          {settle.data && (
+            <span className="text-[10px] text-green-600">
+              {settle.data.settled} settled &middot; {settle.data.pending} awaiting results
+            </span>
+          )}
+          {settle.isError && (
+            <span className="text-[10px] text-red-600">
+              {settle.error instanceof Error ? settle.error.message : 'Settlement failed'}
+            </span>
+          )}
+          <p className="text-[10px] text-gray-400">
+            {summary.openBets} open lay{summary.openBets !== 1 ? 's' : ''} &middot; missing results can be
+            loaded with Backfill results on the <Link href="/backtest" className="text-blue-600 hover:underline">backtest page</Link>
+          </p>
+        </section>
+
+        {isLoading && <p className="text-xs text-gray-400">Loading bets...</p>}
+
+        {/* Summary */}
+        <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            {
+              label: 'P&L',
+              value: formatMoney(summary.pnl),
+              color: summary.pnl >= 0 ? 'text-green-600' : 'text-red-600',
+              subtitle: `${formatMoney(summary.startingBankroll)} → ${formatMoney(summary.endingBankroll)}`,
+            },
+            {
+              label: 'ROI on Liability',
+              value: summary.roi !== null ? formatPercent(summary.roi) : '-',
+              color: (summary.roi ?? 0) >= 0 ? 'text-green-600' : 'text-red-600',
+              subtitle: `${formatMoney(summary.liability)} risked`,
+            },
+            {
+              label: 'Strike Rate',
+              value: summary.strikeRate !== null ? formatPercent(summary.strikeRate) : '-',
+              color: 'text-blue-600',
+              subtitle: `${summary.won} won · ${summary.lost} lost · ${summary.void} void`,
+            },
+            {
+              label: 'Average Odds',
+              value: formatOdds(summary.averageOdds),
+              color: 'text-gray-700',
+              subtitle: `${summary.bets} settled lay${summary.bets !== 1 ? 's' : ''}`,
+            },
+          ].map((item) => (
+            <div key={item.label} className="bg-white rounded-lg border border-gray-200 px-4 py-3">
+              <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                {item.label}
+              </div>
+              <div className={`text-xl font-bold ${item.color}`}>{item.value}</div>
+              <div className="text-[10px] text-gray-400 mt-0.5">{item.subtitle}</div>
+            </div>
+          ))}
+        </section>
+
+        {/* Cumulative bankroll */}
+        {chartData.length > 1 && (
+          <section>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Bankroll</h2>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+                  <Tooltip />
+                  <Line type="monotone" dataKey="bankroll" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </section>
+        )}
+
+        {/* Period totals */}
+        <section>
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">{PERIOD_LABELS[period]} Totals</h2>
+          <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+                  <th className="px-3 py-2 font-medium">Period</th>
+                  {STATS_HEADERS}
+                </tr>
+              </thead>
+              <tbody>
+                {report.periods.map((row) => (
+                  <tr key={row.period} className="border-b border-gray-50 hover:bg-gray-50">
+                    <td className="px-3 py-2 font-medium">{formatPeriod(row.period, period)}</td>
+                    <StatsCells stats={row} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.periods.length === 0 && (
+              <p className="text-xs text-gray-400 text-center py-6">No settled lays yet.</p>
+            )}
+          </div>
+        </section>
+
+        {/* Breakdown by signal */}
+        {report.signals.length > 0 && (
+          <section>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">By Value Signal</h2>
+            <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+                    <th className="px-3 py-2 font-medium">Signal</th>
+                    {STATS_HEADERS}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.signals.map((row) => (
+                    <tr key={row.signal} className="border-b border-gray-50 hover:bg-gray-50">
+                      <td className="px-3 py-2">
+                        {row.signal === 'none' ? (
+                          <span className="text-xs text-gray-400">No signal</span>
+                        ) : (
+                          <ValueAlert signal={row.signal} />
+                        )}
+                      </td>
+                      <StatsCells stats={row} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        {/* Breakdown by strategy profile */}
+        {report.strategies.length > 0 && (
+          <section>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">
+              By Strategy
+              <span className="ml-1 text-xs font-normal text-gray-400">
+                (lays each profile recommended when recorded)
+              </span>
+            </h2>
+            <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+                    <th className="px-3 py-2 font-medium">Strategy</th>
+                    {STATS_HEADERS}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.strategies.map((row) => (
+                    <tr key={row.strategy} className="border-b border-gray-50 hover:bg-gray-50">
+                      <td className="px-3 py-2 font-medium">{row.strategy}</td>
+                      <StatsCells stats={row} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        {/* Settled lays */}
+        {settledBets.length > 0 && (
+          <section>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Settled Lays</h2>
+            <BetsTable bets={settledBets} showRace />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
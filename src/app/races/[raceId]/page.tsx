@@ -5,10 +5,20 @@ import Link from 'next/link';
 import { useOdds } from '@/hooks/useOdds';
 import { useSnapshots } from '@/hooks/useSnapshots';
 import { useSettings } from '@/hooks/useSettings';
-import { formatOdds, formatPercent } from '@/lib/calculations';
+import { useRacecard } from '@/hooks/useRacecard';
+import { useBets } from '@/hooks/useBets';
+import { totalOpenLiability } from '@/lib/bets';
+import { formatPercent } from '@/lib/calculations';
+import { formatOddsAs } from '@/lib/odds-format';
+import { formatEachWayTerms } from '@/lib/place-market';
 import KellyCalculator from '@/components/KellyCalculator';
 import CompressionBadge from '@/components/CompressionBadge';
 import ValueAlert from '@/components/ValueAlert';
+import RacecardDetails from '@/components/RacecardDetails';
+import RecordLayButton from '@/components/RecordLayButton';
+import ExchangeLadder from '@/components/ExchangeLadder';
+import BetsTable from '@/components/BetsTable';
+import NonRunnerBanner from '@/components/NonRunnerBanner';
 import {
   LineChart,
   Line,
@@ -40,6 +50,8 @@ export default function RaceDetailPage({
   const { settings } = useSettings();
   const { data } = useOdds(settings);
   const { data: snapshots } = useSnapshots(raceId);
+  const { data: racecard } = useRacecard(raceId);
+  const { data: bets } = useBets(raceId);
   const [notes, setNotes] = useState('');
 
   const race = data?.races.find((r) => r.eventId === raceId);
@@ -68,29 +80,32 @@ export default function RaceDetailPage({
   // Build price history chart data
   const chartData: Record<string, number | string>[] = [];
   if (snapshots && snapshots.length > 0) {
-    // Group by snapshot_time, then by runner
-    const timeGroups = new Map<string, Map<string, number>>();
+    // Group by snapshot_time
+    const timeGroups = new Map<string, typeof snapshots>();
     for (const snap of snapshots) {
       const time = snap.snapshot_time || snap.created_at || '';
-      if (!timeGroups.has(time)) timeGroups.set(time, new Map());
-      const group = timeGroups.get(time)!;
-      if (snap.back_price) {
-        const existing = group.get(snap.runner_name);
-        // Keep the best (lowest) price per runner per time
-        if (!existing || snap.back_price < existing) {
-          group.set(snap.runner_name, typeof snap.back_price === 'string' ? parseFloat(snap.back_price) : snap.back_price);
-        }
-      }
+      if (!timeGroups.has(time)) timeGroups.set(time, []);
+      timeGroups.get(time)!.push(snap);
     }
 
+    // Snapshots only store price changes, so carry each bookmaker's last
+    // price forward and plot the best (lowest) price per runner per time
+    const latest = new Map<string, Map<string, number>>();
     const sortedTimes = Array.from(timeGroups.keys()).sort();
     for (const time of sortedTimes) {
-      const group = timeGroups.get(time)!;
+      for (const snap of timeGroups.get(time)!) {
+        if (!snap.back_price) continue;
+        const price = typeof snap.back_price === 'string' ? parseFloat(snap.back_price) : snap.back_price;
+        const books = latest.get(snap.runner_name) ?? new Map<string, number>();
+        books.set(snap.bookmaker, price);
+        latest.set(snap.runner_name, books);
+      }
+
       const point: Record<string, number | string> = {
         time: new Date(time).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }),
       };
-      group.forEach((price, runner) => {
-        point[runner] = price;
+      latest.forEach((books, runner) => {
+        point[runner] = Math.min(...books.values());
       });
       chartData.push(point);
     }
@@ -104,6 +119,11 @@ export default function RaceDetailPage({
     }
   }
 
+  // Bookmaker key per column title, for looking up consensus weights
+  const bookmakerKeys = new Map(
+    race.runners.flatMap((r) => r.bookmakerOdds.map((b) => [b.bookmakerTitle, b.bookmaker] as const))
+  );
+
   // Find the first value-signal runner for Kelly default
   const valueRunner = race.runners.find((r) => r.valueSignal !== 'none');
 
@@ -121,6 +141,7 @@ export default function RaceDetailPage({
               <p className="text-xs text-gray-500">
                 {raceTime} &middot; {race.runnerCount} runners &middot;{' '}
                 {race.bookPercentage !== null && `Book: ${formatPercent(race.bookPercentage)}`}
+                {race.eachWay && ` · EW ${formatEachWayTerms(race.eachWay)}`}
               </p>
               {race.result?.winner && (
                 <p className="text-xs mt-1">
@@ -134,6 +155,12 @@ export default function RaceDetailPage({
       </div>
 
       <main className="max-w-7xl mx-auto px-4 py-4 space-y-6">
+        {race.nonRunners.length > 0 && (
+          <div className="rounded-lg border border-amber-200 overflow-hidden">
+            <NonRunnerBanner nonRunners={race.nonRunners} deduction={race.rule4Deduction} />
+          </div>
+        )}
+
         {/* Full odds comparison table */}
         <section>
           <h2 className="text-sm font-semibold text-gray-900 mb-2">
@@ -145,7 +172,15 @@ export default function RaceDetailPage({
                 <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
                   <th className="px-3 py-2 font-medium sticky left-0 bg-white">Horse</th>
                   <th className="px-2 py-2 font-medium text-center">Opening Avg</th>
+                  <th className="px-2 py-2 font-medium text-center" title="Current weighted consensus across bookmakers, averaged as probabilities">
+                    Consensus
+                  </th>
                   <th className="px-2 py-2 font-medium text-center">Betfair</th>
+                  {race.places !== null && (
+                    <th className="px-2 py-2 font-medium text-center" title="Exchange PLACE market lay price and the model's place probability">
+                      Place ({race.places})
+                    </th>
+                  )}
                   <th className="px-2 py-2 font-medium text-center">Compression</th>
                   <th className="px-2 py-2 font-medium text-center">Signal</th>
                   {/* Get all unique bookmakers */}
@@ -156,8 +191,15 @@ export default function RaceDetailPage({
                       )
                     )
                   ).map((bm) => (
-                    <th key={bm} className="px-2 py-2 font-medium text-center">
+                    <th
+                      key={bm}
+                      className="px-2 py-2 font-medium text-center"
+                      title="Consensus weight (fitted from history in Settings; 1 = unweighted)"
+                    >
                       {bm}
+                      <div className="font-mono text-gray-300">
+                        ×{(settings.bookmakerWeights[bookmakerKeys.get(bm) ?? ''] ?? 1).toFixed(2)}
+                      </div>
                     </th>
                   ))}
                 </tr>
@@ -180,10 +222,11 @@ export default function RaceDetailPage({
                         {runner.runnerName}
                       </td>
                       <td className="px-2 py-2 text-center font-mono">
-                        {formatOdds(runner.openingAverageOdds)}
-                        {runner.impliedProbability !== null && (
-                          <div className="text-[10px] text-gray-400">
+                        {formatOddsAs(runner.openingAverageOdds, settings.oddsFormat)}
+                        {runner.impliedProbability !== null && settings.oddsFormat !== 'implied' && (
+                          <div className="text-[10px] text-gray-400" title="Raw implied probability (1 ÷ odds), then with the race's overround removed">
                             {formatPercent(runner.impliedProbability)}
+                            {runner.fairProbability !== null && ` · ${formatPercent(runner.fairProbability)} fair`}
                           </div>
                         )}
                         <div className="text-[9px]">
@@ -194,13 +237,66 @@ export default function RaceDetailPage({
                             ({runner.bookmakerCount} bk{runner.bookmakerCount !== 1 ? 's' : ''})
                           </span>
                         </div>
+                        {runner.unadjustedOpeningOdds !== runner.openingAverageOdds && (
+                          <div className="text-[9px] text-amber-600">
+                            R4 {race.rule4Deduction}p · was {formatOddsAs(runner.unadjustedOpeningOdds, settings.oddsFormat)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-2 py-2 text-center font-mono">
+                        {formatOddsAs(runner.averageOdds, settings.oddsFormat)}
+                        {runner.consensus.length > 0 && (
+                          <div className="text-[9px] text-gray-400">
+                            {runner.consensus.filter((c) => c.excluded === null).length} of {runner.consensus.length} bks
+                          </div>
+                        )}
                       </td>
                       <td className={`px-2 py-2 text-center font-mono font-semibold ${runner.betfairOdds === null ? 'text-gray-300' : ''}`}>
-                        {runner.betfairOdds !== null ? formatOdds(runner.betfairOdds) : 'N/A'}
+                        {runner.betfairOdds !== null ? formatOddsAs(runner.betfairOdds, settings.oddsFormat) : 'N/A'}
+                        {runner.exchange && (
+                          <div className="mt-1">
+                            <ExchangeLadder book={runner.exchange} />
+                          </div>
+                        )}
+                        {runner.betfairOdds !== null && !race.result && (
+                          <div className="mt-1">
+                            <RecordLayButton
+                              race={race}
+                              runner={runner}
+                              settings={settings}
+                              primary={runner.layDecision?.placeLay}
+                            />
+                          </div>
+                        )}
                       </td>
+                      {race.places !== null && (
+                        <td className={`px-2 py-2 text-center font-mono ${runner.placeOdds === null ? 'text-gray-300' : ''}`}>
+                          {runner.placeOdds !== null ? formatOddsAs(runner.placeOdds, settings.oddsFormat) : 'N/A'}
+                          {runner.placeProbability !== null && (
+                            <div className="text-[10px] text-gray-400" title="Model place probability (Harville)">
+                              model {formatPercent(runner.placeProbability * 100)}
+                            </div>
+                          )}
+                          {runner.layDecision?.placeMarket?.placeLay && (
+                            <div className="text-[9px] font-bold text-teal-700">PLACE LAY</div>
+                          )}
+                          {runner.placeOdds !== null && runner.layDecision?.placeMarket && !race.result && (
+                            <div className="mt-1">
+                              <RecordLayButton
+                                race={race}
+                                runner={runner}
+                                settings={settings}
+                                primary={runner.layDecision.placeMarket.placeLay}
+                                market="place"
+                              />
+                            </div>
+                          )}
+                        </td>
+                      )}
                       <td className="px-2 py-2 text-center">
                         <CompressionBadge
                           compressionPercent={runner.compressionPercent}
+                          compressionTicks={runner.compressionTicks}
                           signal={runner.valueSignal}
                         />
                       </td>
@@ -214,14 +310,22 @@ export default function RaceDetailPage({
                         const isBetfair = price?.bookmaker === 'betfair_exchange' || price?.bookmaker === 'betfair_ex';
                         const isBest =
                           price && runner.bestCurrentOdds === price.price;
+                        const contributor = runner.consensus.find((c) => c.bookmakerTitle === bm);
                         return (
                           <td
                             key={bm}
                             className={`px-2 py-2 text-center font-mono text-xs ${
                               isBetfair ? 'font-bold text-green-700 bg-green-50' : isBest ? 'font-bold text-blue-600' : 'text-gray-500'
-                            }`}
+                            } ${contributor?.excluded ? 'line-through opacity-50' : ''}`}
+                            title={
+                              contributor?.excluded
+                                ? `Left out of the consensus: ${contributor.excluded === 'stale' ? 'price not updated recently' : 'too far from the other books'}`
+                                : contributor
+                                  ? `${formatPercent(contributor.share * 100)} of the consensus`
+                                  : undefined
+                            }
                           >
-                            {price ? formatOdds(price.price) : '-'}
+                            {price ? formatOddsAs(price.price, settings.oddsFormat, price.fractional) : '-'}
                           </td>
                         );
                       })}
@@ -233,6 +337,34 @@ export default function RaceDetailPage({
           </div>
         </section>
 
+        {/* Lays recorded against this race */}
+        <section>
+          <div className="flex items-baseline justify-between mb-2">
+            <h2 className="text-sm font-semibold text-gray-900">Recorded Lays</h2>
+            {bets && bets.length > 0 && (
+              <span className="text-xs text-gray-500">
+                Open liability:{' '}
+                <span className="font-mono font-semibold text-red-600">
+                  £{totalOpenLiability(bets).toFixed(2)}
+                </span>
+              </span>
+            )}
+          </div>
+          <BetsTable bets={bets ?? []} />
+        </section>
+
+        {/* Full racecard (from stored races/runners) */}
+        {racecard && (
+          <section>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Racecard</h2>
+            <RacecardDetails
+              race={racecard.race}
+              runners={racecard.runners}
+              positions={race.result?.positions}
+            />
+          </section>
+        )}
+
         {/* Price movement chart */}
         {chartData.length > 1 && (
           <section>
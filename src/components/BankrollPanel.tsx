@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { BankrollTransaction, UserSettings } from '@/lib/types';
+import { useAddBankrollTransaction, useBankrollTransactions, useEffectiveBankroll } from '@/hooks/useBankroll';
+
+interface BankrollPanelProps {
+  settings: UserSettings;
+}
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? '-' : ''}£${Math.abs(value).toFixed(2)}`;
+}
+
+/**
+ * Dynamic bankroll breakdown and the deposit/withdrawal audit trail.
+ */
+export default function BankrollPanel({ settings }: BankrollPanelProps) {
+  const { state } = useEffectiveBankroll(settings);
+  const { data: transactions } = useBankrollTransactions();
+  const addTransaction = useAddBankrollTransaction();
+
+  const [kind, setKind] = useState<BankrollTransaction['kind']>('deposit');
+  const [amount, setAmount] = useState(0);
+  const [note, setNote] = useState('');
+
+  const submit = () => {
+    addTransaction.mutate(
+      { kind, amount, note: note.trim() || null },
+      {
+        onSuccess: () => {
+          setAmount(0);
+          setNote('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {state ? (
+        <div className="bg-gray-50 rounded p-3 text-xs space-y-1">
+          {[
+            { label: 'Starting', value: state.starting },
+            { label: 'Deposits', value: state.deposits },
+            { label: 'Withdrawals', value: -state.withdrawals },
+            { label: 'Settled P&L', value: state.settledPnl },
+            { label: 'Open liability', value: -state.openLiability },
+          ].map((row) => (
+            <div key={row.label} className="flex justify-between">
+              <span className="text-gray-500">{row.label}</span>
+              <span className={`font-mono ${row.value < 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                {formatMoney(row.value)}
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between border-t border-gray-200 pt-1 font-semibold">
+            <span className="text-gray-700">Staking bankroll</span>
+            <span className="font-mono text-blue-600">{formatMoney(state.effective)}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-[10px] text-gray-400">Loading bankroll...</p>
+      )}
+
+      {/* New transaction */}
+      <div className="flex gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as BankrollTransaction['kind'])}
+          className="px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        >
+          <option value="deposit">Deposit</option>
+          <option value="withdrawal">Withdrawal</option>
+        </select>
+        <input
+          type="number"
+          value={amount || ''}
+          onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+          placeholder="£"
+          className="w-24 px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          min={0}
+          step={10}
+        />
+        <button
+          onClick={submit}
+          disabled={addTransaction.isPending || !(amount > 0)}
+          className="flex-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {addTransaction.isPending ? 'Saving...' : 'Add'}
+        </button>
+      </div>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        className="w-full px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+      />
+      {addTransaction.isError && (
+        <p className="text-[10px] text-red-600">
+          {addTransaction.error instanceof Error ? addTransaction.error.message : 'Failed to save'}
+        </p>
+      )}
+
+      {/* Audit trail */}
+      {transactions && transactions.length > 0 && (
+        <div className="max-h-40 overflow-y-auto border border-gray-100 rounded">
+          {transactions.map((tx) => (
+            <div key={tx.id} className="flex items-center justify-between px-2 py-1 text-[11px] border-b border-gray-50">
+              <div>
+                <span className="text-gray-400">
+                  {new Date(tx.created_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: '2-digit' })}
+                </span>
+                {tx.note && <span className="ml-1 text-gray-500">{tx.note}</span>}
+              </div>
+              <span className={`font-mono ${tx.kind === 'deposit' ? 'text-green-600' : 'text-red-600'}`}>
+                {formatMoney(tx.kind === 'deposit' ? tx.amount : -tx.amount)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-[10px] text-gray-400">
+        Transactions can&apos;t be edited; post an opposite entry to correct a mistake.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { Bet } from '@/lib/types';
+import { formatOdds } from '@/lib/calculations';
+import { BET_STATUS_LABELS } from '@/lib/bets';
+import { useUpdateBet, useDeleteBet } from '@/hooks/useBets';
+
+interface BetsTableProps {
+  bets: Bet[];
+  /** Show the race column (off for single-race views) */
+  showRace?: boolean;
+}
+
+const STATUS_BADGES: Record<Bet['status'], string> = {
+  matched: 'bg-blue-50 text-blue-700',
+  partially_matched: 'bg-amber-50 text-amber-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? '-' : ''}£${Math.abs(value).toFixed(2)}`;
+}
+
+export default function BetsTable({ bets, showRace }: BetsTableProps) {
+  const updateBet = useUpdateBet();
+  const deleteBet = useDeleteBet();
+  const busy = updateBet.isPending || deleteBet.isPending;
+
+  if (bets.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 px-4 py-6 text-center text-xs text-gray-400">
+        No lays recorded.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+            {showRace && <th className="px-3 py-2 font-medium">Race</th>}
+            <th className="px-3 py-2 font-medium">Horse</th>
+            <th className="px-2 py-2 font-medium text-center">Odds</th>
+            <th className="px-2 py-2 font-medium text-right">Stake</th>
+            <th className="px-2 py-2 font-medium text-right">Liability</th>
+            <th className="px-2 py-2 font-medium text-center">Status</th>
+            <th className="px-2 py-2 font-medium text-right">P&amp;L</th>
+            <th className="px-3 py-2 font-medium text-right"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {bets.map((bet) => (
+            <tr key={bet.id} className="border-b border-gray-50 hover:bg-gray-50">
+              {showRace && (
+                <td className="px-3 py-2 text-xs">
+                  <div className="font-medium text-gray-900">{bet.event_name}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {new Date(bet.commence_time).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}
+                  </div>
+                </td>
+              )}
+              <td className="px-3 py-2">
+                <div className="font-medium">
+                  {bet.runner_name}
+                  {bet.market === 'place' && (
+                    <span
+                      className="ml-1 px-1 py-0.5 rounded text-[9px] font-medium bg-teal-50 text-teal-700"
+                      title="Place market lay: loses if the horse finishes in the places"
+                    >
+                      PLACE{bet.places !== null ? ` ${bet.places}` : ''}
+                    </span>
+                  )}
+                </div>
+                {bet.notes && <div className="text-[10px] text-gray-400">{bet.notes}</div>}
+              </td>
+              <td className="px-2 py-2 text-center font-mono">{formatOdds(bet.odds)}</td>
+              <td className="px-2 py-2 text-right font-mono">
+                £{bet.matched_stake.toFixed(2)}
+                {bet.matched_stake < bet.stake && (
+                  <div className="text-[9px] text-gray-400">of £{bet.stake.toFixed(2)}</div>
+                )}
+              </td>
+              <td className="px-2 py-2 text-right font-mono text-red-600">
+                £{bet.liability.toFixed(2)}
+                {bet.rule4_deduction > 0 && (
+                  <div className="text-[9px] text-amber-600" title="Rule 4 deduction from a later non-runner (pence in the £ off the winnings)">
+                    R4 {bet.rule4_deduction}p
+                  </div>
+                )}
+              </td>
+              <td className="px-2 py-2 text-center">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${STATUS_BADGES[bet.status]}`}>
+                  {BET_STATUS_LABELS[bet.status]}
+                </span>
+              </td>
+              <td
+                className={`px-2 py-2 text-right font-mono ${
+                  bet.outcome === 'won' ? 'text-green-600' : bet.outcome === 'lost' ? 'text-red-600' : 'text-gray-400'
+                }`}
+              >
+                {bet.outcome === null ? 'open' : bet.outcome === 'void' ? 'void' : formatMoney(bet.pnl ?? 0)}
+              </td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                {bet.status === 'partially_matched' && !bet.settled_at && (
+                  <button
+                    onClick={() => updateBet.mutate({ id: bet.id, status: 'matched' })}
+                    disabled={busy}
+                    className="text-[10px] text-blue-600 hover:underline disabled:opacity-50 mr-2"
+                  >
+                    Fully matched
+                  </button>
+                )}
+                {bet.status !== 'cancelled' && !bet.settled_at && (
+                  <button
+                    onClick={() => updateBet.mutate({ id: bet.id, status: 'cancelled' })}
+                    disabled={busy}
+                    className="text-[10px] text-amber-600 hover:underline disabled:opacity-50 mr-2"
+                    title="Mark as cancelled on the exchange (nothing matched)"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    if (confirm(`Delete the lay on ${bet.runner_name}?`)) deleteBet.mutate(bet.id);
+                  }}
+                  disabled={busy}
+                  className="text-[10px] text-gray-400 hover:text-red-600 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
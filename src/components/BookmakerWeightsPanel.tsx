@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { useBookmakerWeights } from '@/hooks/useBookmakerWeights';
+import { DemarginMethod } from '@/lib/types';
+
+interface BookmakerWeightsPanelProps {
+  current: Record<string, number>;
+  /** De-margining method the books are scored with */
+  demargin: DemarginMethod;
+  onApply: (weights: Record<string, number>) => void;
+}
+
+function isoDaysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function BookmakerWeightsPanel({ current, demargin, onApply }: BookmakerWeightsPanelProps) {
+  const fit = useBookmakerWeights();
+  const [startDate, setStartDate] = useState(isoDaysAgo(30));
+  const [endDate, setEndDate] = useState(isoDaysAgo(1));
+
+  const report = fit.data;
+  const currentBooks = Object.keys(current);
+  const isApplied =
+    report !== undefined &&
+    currentBooks.length === report.bookmakers.length &&
+    report.bookmakers.every((b) => current[b.bookmaker] === b.weight);
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded border border-gray-100">
+      <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-2">
+        Fit from history
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className="px-2 py-1 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        <input
+          type="date"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          className="px-2 py-1 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+      </div>
+      <button
+        onClick={() => fit.mutate({ startDate, endDate, demargin })}
+        disabled={fit.isPending}
+        className="w-full px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+      >
+        {fit.isPending ? 'Fitting...' : 'Fit bookmaker weights'}
+      </button>
+
+      {fit.isError && (
+        <p className="text-[10px] text-red-600 mt-2">
+          {fit.error instanceof Error ? fit.error.message : 'Weight fit failed'}
+        </p>
+      )}
+
+      {report && (
+        <div className="mt-2 space-y-1 text-xs">
+          <div className="text-[10px] text-gray-400">
+            {report.races} races &middot; consensus log-loss {report.consensusLogLoss.toFixed(4)}
+          </div>
+          <table className="w-full text-[10px] mt-1">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left font-medium">Bookmaker</th>
+                <th className="text-right font-medium">Races</th>
+                <th className="text-right font-medium">Edge</th>
+                <th className="text-right font-medium">Weight</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {report.bookmakers.map((b) => (
+                <tr key={b.bookmaker}>
+                  <td className="text-gray-500 font-sans truncate max-w-[8rem]">{b.bookmaker}</td>
+                  <td className="text-right">{b.races}</td>
+                  <td className={`text-right ${b.edge > 0 ? 'text-green-600' : b.edge < 0 ? 'text-red-600' : ''}`}>
+                    {b.edge > 0 ? '+' : ''}{b.edge.toFixed(3)}
+                  </td>
+                  <td className="text-right font-semibold">{b.weight.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={() => onApply(report.weights)}
+            disabled={isApplied}
+            className="w-full mt-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {isApplied ? 'Fitted weights applied' : 'Apply fitted weights'}
+          </button>
+        </div>
+      )}
+
+      {currentBooks.length > 0 && (
+        <button
+          onClick={() => onApply({})}
+          className="w-full mt-2 px-3 py-1.5 text-xs font-medium text-gray-500 bg-white border border-gray-200 rounded hover:bg-gray-100 transition-colors"
+        >
+          Clear weights ({currentBooks.length} books)
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { useCalibration } from '@/hooks/useCalibration';
+import { CalibrationPriceSource } from '@/lib/calibration';
+import { ModelParams } from '@/lib/lay-engine';
+import { DemarginMethod } from '@/lib/types';
+
+interface CalibrationPanelProps {
+  current: ModelParams;
+  /** De-margining method the fit should match */
+  demargin: DemarginMethod;
+  onApply: (params: ModelParams) => void;
+}
+
+function isoDaysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function CalibrationPanel({ current, demargin, onApply }: CalibrationPanelProps) {
+  const calibration = useCalibration();
+  const [startDate, setStartDate] = useState(isoDaysAgo(30));
+  const [endDate, setEndDate] = useState(isoDaysAgo(1));
+  const [priceSource, setPriceSource] = useState<CalibrationPriceSource>('opening');
+
+  const report = calibration.data;
+  const isApplied =
+    report !== undefined &&
+    report.params.alpha === current.alpha &&
+    report.params.beta === current.beta;
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded border border-gray-100">
+      <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-2">
+        Fit from history
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className="px-2 py-1 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        <input
+          type="date"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          className="px-2 py-1 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+      </div>
+      <div className="flex gap-2 mb-2">
+        {(['opening', 'final'] as const).map((source) => (
+          <button
+            key={source}
+            onClick={() => setPriceSource(source)}
+            className={`flex-1 px-2 py-1 text-xs rounded border transition-colors ${
+              priceSource === source
+                ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            {source === 'opening' ? 'Opening prices' : 'Final prices'}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => calibration.mutate({ startDate, endDate, priceSource, demargin })}
+        disabled={calibration.isPending}
+        className="w-full px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+      >
+        {calibration.isPending ? 'Fitting...' : 'Fit alpha / beta'}
+      </button>
+
+      {calibration.isError && (
+        <p className="text-[10px] text-red-600 mt-2">
+          {calibration.error instanceof Error ? calibration.error.message : 'Calibration failed'}
+        </p>
+      )}
+
+      {report && (
+        <div className="mt-2 space-y-1 text-xs">
+          <div className="flex justify-between">
+            <span className="text-gray-500">Fitted</span>
+            <span className="font-mono font-semibold">
+              α={report.params.alpha.toFixed(4)}, β={report.params.beta.toFixed(4)}
+            </span>
+          </div>
+          <div className="text-[10px] text-gray-400">
+            {report.samples} runners &middot; {report.races} races &middot; {report.winners} winners
+            {!report.converged && <span className="text-amber-500 ml-1">(did not converge)</span>}
+          </div>
+          <table className="w-full text-[10px] mt-1">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left font-medium"></th>
+                <th className="text-right font-medium">Log-loss</th>
+                <th className="text-right font-medium">Brier</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              <tr>
+                <td className="text-gray-500 font-sans">Fitted</td>
+                <td className="text-right">{report.fitted.logLoss.toFixed(4)}</td>
+                <td className="text-right">{report.fitted.brier.toFixed(4)}</td>
+              </tr>
+              <tr>
+                <td className="text-gray-500 font-sans">Raw 1/O</td>
+                <td className="text-right">{report.baseline.logLoss.toFixed(4)}</td>
+                <td className="text-right">{report.baseline.brier.toFixed(4)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <button
+            onClick={() => onApply(report.params)}
+            disabled={isApplied}
+            className="w-full mt-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {isApplied ? 'Fitted params applied' : 'Apply fitted params'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
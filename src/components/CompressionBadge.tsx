@@ -7,11 +7,14 @@ import { formatPercent } from '@/lib/calculations';
 interface CompressionBadgeProps {
   compressionPercent: number | null;
   signal: ValueSignalLevel;
+  /** The same move in exchange ladder ticks, shown underneath */
+  compressionTicks?: number | null;
 }
 
 export default function CompressionBadge({
   compressionPercent,
   signal,
+  compressionTicks,
 }: CompressionBadgeProps) {
   if (compressionPercent === null) {
     return <span className="text-xs text-gray-400">-</span>;
@@ -20,20 +23,36 @@ export default function CompressionBadge({
   const isNegative = compressionPercent < 0;
   const colors = COMPRESSION_COLORS[signal];
 
+  const ticks = compressionTicks !== undefined && compressionTicks !== null && (
+    <div
+      className="text-[9px] text-gray-400 cursor-help"
+      title="Exchange ladder ticks between the opening average and the current lay price"
+    >
+      {compressionTicks > 0 ? '+' : ''}
+      {compressionTicks} tick{Math.abs(compressionTicks) !== 1 ? 's' : ''}
+    </div>
+  );
+
   if (signal === 'none') {
     return (
-      <span className={`text-xs font-mono ${isNegative ? 'text-gray-400' : 'text-gray-500'}`}>
-        {isNegative ? '' : '+'}
-        {formatPercent(compressionPercent)}
-      </span>
+      <>
+        <span className={`text-xs font-mono ${isNegative ? 'text-gray-400' : 'text-gray-500'}`}>
+          {isNegative ? '' : '+'}
+          {formatPercent(compressionPercent)}
+        </span>
+        {ticks}
+      </>
     );
   }
 
   return (
-    <span
-      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold ${colors.badge}`}
-    >
-      +{formatPercent(compressionPercent)}
-    </span>
+    <>
+      <span
+        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold ${colors.badge}`}
+      >
+        +{formatPercent(compressionPercent)}
+      </span>
+      {ticks}
+    </>
   );
 }
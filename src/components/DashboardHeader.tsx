@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { DashboardStats } from '@/lib/types';
 
 interface DashboardHeaderProps {
@@ -8,6 +9,9 @@ interface DashboardHeaderProps {
   isRefetching: boolean;
   onRefresh: () => void;
   onToggleSettings: () => void;
+  /** Total open liability across recorded lays */
+  exposure?: number;
+  bankroll?: number;
 }
 
 export default function DashboardHeader({
@@ -16,6 +20,8 @@ export default function DashboardHeader({
   isRefetching,
   onRefresh,
   onToggleSettings,
+  exposure,
+  bankroll,
 }: DashboardHeaderProps) {
   const lastRefreshed = stats?.lastRefreshed
     ? new Date(stats.lastRefreshed).toLocaleTimeString('en-GB')
@@ -57,6 +63,20 @@ export default function DashboardHeader({
                   </strong>{' '}
                   alerts
                 </span>
+                {exposure !== undefined && bankroll !== undefined && (
+                  <>
+                    <span className="text-gray-300">|</span>
+                    <span title="Open liability on recorded lays vs bankroll">
+                      Exposure{' '}
+                      <strong className={exposure > 0 ? 'text-blue-600' : 'text-gray-700'}>
+                        £{exposure.toFixed(2)}
+                      </strong>
+                      {bankroll > 0 && (
+                        <span className="text-gray-400"> ({((exposure / bankroll) * 100).toFixed(1)}% of £{bankroll})</span>
+                      )}
+                    </span>
+                  </>
+                )}
                 <span className="text-gray-300">|</span>
                 <span className={stats.supabaseConnected ? 'text-green-600' : 'text-amber-500'}>
                   DB: {stats.supabaseConnected ? 'connected' : 'offline'}
@@ -64,6 +84,15 @@ export default function DashboardHeader({
               </div>
             )}
 
+            {stats?.replayTime && (
+              <span
+                className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-purple-100 text-purple-700"
+                title="Fixture mode: recorded data replayed on a simulated clock (see /api/fixture/clock)"
+              >
+                Replay {new Date(stats.replayTime).toLocaleString('en-GB', { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+
             {/* Refresh indicator */}
             <div className="flex items-center gap-2">
               {lastRefreshed && (
@@ -83,6 +112,18 @@ export default function DashboardHeader({
             >
               {isRefetching ? 'Refreshing...' : 'Refresh'}
             </button>
+            <Link
+              href="/backtest"
+              className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+            >
+              Backtest
+            </Link>
+            <Link
+              href="/pnl"
+              className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+            >
+              P&amp;L
+            </Link>
             <button
               onClick={onToggleSettings}
               className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
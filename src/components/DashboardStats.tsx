@@ -33,7 +33,9 @@ export default function DashboardStats({ stats }: DashboardStatsProps) {
         : 'Not connected',
       color: stats.supabaseConnected ? 'text-green-600' : 'text-amber-600',
       subtitle: stats.supabaseConnected
-        ? `${stats.snapshotsSaved} saved this cycle`
+        ? stats.lastSnapshotAt
+          ? `Last collected ${new Date(stats.lastSnapshotAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`
+          : 'Collector has not run yet'
         : 'Check Supabase env vars',
     },
   ];
@@ -0,0 +1,54 @@
+'use client';
+
+import { ExchangeRunnerBook } from '@/lib/types';
+import { formatOdds } from '@/lib/calculations';
+
+interface ExchangeLadderProps {
+  book: ExchangeRunnerBook;
+  /** Single summary line instead of the full three-level ladder */
+  compact?: boolean;
+}
+
+function formatVolume(size: number): string {
+  return size >= 1000 ? `£${(size / 1000).toFixed(1)}k` : `£${Math.round(size)}`;
+}
+
+export default function ExchangeLadder({ book, compact }: ExchangeLadderProps) {
+  if (book.status !== 'ACTIVE') {
+    return <div className="text-[9px] text-red-400">{book.status.toLowerCase()} on exchange</div>;
+  }
+
+  if (compact) {
+    return (
+      <div
+        className="text-[8px] text-gray-400 text-center cursor-help"
+        title={`Exchange: back ${formatOdds(book.bestBack)} / lay ${formatOdds(book.bestLay)}. ${formatVolume(book.availableToLay[0]?.size ?? 0)} available at the best lay, ${formatVolume(book.totalMatched)} matched on this runner.`}
+      >
+        B {formatOdds(book.bestBack)} · {formatVolume(book.availableToLay[0]?.size ?? 0)} · {formatVolume(book.totalMatched)} matched
+      </div>
+    );
+  }
+
+  // Back side reads right-to-left (best price next to the lay side), like the exchange
+  const backLevels = [...book.availableToBack].reverse();
+
+  return (
+    <div className="inline-block text-[9px] font-mono">
+      <div className="flex gap-px">
+        {backLevels.map((level) => (
+          <div key={`b${level.price}`} className="w-10 bg-blue-50 text-blue-700 px-1 py-0.5 text-center">
+            <div className="font-semibold">{formatOdds(level.price)}</div>
+            <div className="text-blue-400">{formatVolume(level.size)}</div>
+          </div>
+        ))}
+        {book.availableToLay.map((level) => (
+          <div key={`l${level.price}`} className="w-10 bg-pink-50 text-pink-700 px-1 py-0.5 text-center">
+            <div className="font-semibold">{formatOdds(level.price)}</div>
+            <div className="text-pink-400">{formatVolume(level.size)}</div>
+          </div>
+        ))}
+      </div>
+      <div className="text-gray-400 text-center mt-0.5">{formatVolume(book.totalMatched)} matched</div>
+    </div>
+  );
+}
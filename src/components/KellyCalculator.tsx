@@ -1,8 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { kellyLayStake, impliedProbability } from '@/lib/calculations';
-import { UserSettings } from '@/lib/types';
+import { kellyLayStake, impliedProbability, formatOdds } from '@/lib/calculations';
+import { formatOddsAs, parseOddsAs, ODDS_FORMAT_LABELS } from '@/lib/odds-format';
+import { isValidTick, offsetTicks, snapToTick } from '@/lib/tick-ladder';
+import { OddsFormat, UserSettings } from '@/lib/types';
+
+// Suggested lay prices, in ticks above the current lay price
+const TICK_SUGGESTIONS = [1, 2, 3, 5, 10];
 
 interface KellyCalculatorProps {
   settings: UserSettings;
@@ -10,6 +15,49 @@ interface KellyCalculatorProps {
   currentLayOdds?: number;
 }
 
+interface OddsInputProps {
+  label: string;
+  /** Decimal odds */
+  value: number;
+  format: OddsFormat;
+  onChange: (decimal: number) => void;
+}
+
+/**
+ * Odds entry in the display format. The typed text is kept as-is and the
+ * last valid price is used; the decimal equivalent is shown underneath.
+ */
+function OddsInput({ label, value, format, onChange }: OddsInputProps) {
+  const [text, setText] = useState(format === 'decimal' ? String(value) : formatOddsAs(value, format));
+  const valid = parseOddsAs(text, format) !== null;
+
+  return (
+    <div>
+      <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+        {label}
+        {format !== 'decimal' && <span className="normal-case tracking-normal"> ({ODDS_FORMAT_LABELS[format]})</span>}
+      </label>
+      <input
+        type={format === 'decimal' ? 'number' : 'text'}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const decimal = parseOddsAs(e.target.value, format);
+          if (decimal !== null) onChange(decimal);
+        }}
+        className={`w-full px-2 py-1.5 border rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none ${
+          valid ? 'border-gray-200' : 'border-red-300'
+        }`}
+        min={1.01}
+        step={0.1}
+      />
+      {format !== 'decimal' && (
+        <div className="text-[9px] text-gray-400 mt-0.5">= {formatOdds(value)} decimal</div>
+      )}
+    </div>
+  );
+}
+
 export default function KellyCalculator({
   settings,
   initialOdds: defaultInitial,
@@ -21,13 +69,21 @@ export default function KellyCalculator({
   const [multiplier, setMultiplier] = useState(settings.kellyMultiplier);
   const [maxLiab, setMaxLiab] = useState(settings.maxLiabilityPct);
 
+  // The exchange only accepts ladder prices; an off-ladder lay fills at the next tick up
+  const layPrice = snapToTick(layOdds, 'up');
   const trueProb = impliedProbability(initialOdds);
-  const result = kellyLayStake({
-    bankroll,
-    trueProb,
-    currentLayOdds: layOdds,
-    kellyMultiplier: multiplier,
-    maxLiabilityPct: maxLiab,
+  const sizeAt = (price: number) =>
+    kellyLayStake({
+      bankroll,
+      trueProb,
+      currentLayOdds: price,
+      kellyMultiplier: multiplier,
+      maxLiabilityPct: maxLiab,
+    });
+  const result = sizeAt(layPrice);
+  const suggestions = TICK_SUGGESTIONS.map((ticks) => {
+    const price = offsetTicks(layPrice, ticks);
+    return { ticks, price, result: sizeAt(price) };
   });
 
   return (
@@ -37,32 +93,21 @@ export default function KellyCalculator({
       </h3>
 
       <div className="grid grid-cols-2 gap-3 mb-4">
-        <div>
-          <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
-            Initial Odds
-          </label>
-          <input
-            type="number"
-            value={initialOdds}
-            onChange={(e) => setInitialOdds(parseFloat(e.target.value) || 1.01)}
-            className="w-full px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-            min={1.01}
-            step={0.1}
-          />
-        </div>
-        <div>
-          <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
-            Current Lay Odds
-          </label>
-          <input
-            type="number"
-            value={layOdds}
-            onChange={(e) => setLayOdds(parseFloat(e.target.value) || 1.01)}
-            className="w-full px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-            min={1.01}
-            step={0.1}
-          />
-        </div>
+        {/* Remount on format change so the text is re-rendered in the new format */}
+        <OddsInput
+          key={`initial-${settings.oddsFormat}`}
+          label="Initial Odds"
+          value={initialOdds}
+          format={settings.oddsFormat}
+          onChange={setInitialOdds}
+        />
+        <OddsInput
+          key={`lay-${settings.oddsFormat}`}
+          label="Current Lay Odds"
+          value={layOdds}
+          format={settings.oddsFormat}
+          onChange={setLayOdds}
+        />
         <div>
           <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
             Bankroll (£)
@@ -106,6 +151,13 @@ export default function KellyCalculator({
         </div>
       </div>
 
+      {!isValidTick(layOdds) && (
+        <p className="text-[10px] text-amber-600 -mt-2 mb-3">
+          {formatOdds(layOdds)} is not on the exchange ladder — sized at the next tick up,{' '}
+          {formatOddsAs(layPrice, settings.oddsFormat)}.
+        </p>
+      )}
+
       {/* Results */}
       <div className="bg-gray-50 rounded p-3 space-y-2">
         <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-2">
@@ -153,6 +205,31 @@ export default function KellyCalculator({
           </div>
         </div>
       </div>
+
+      {/* Lay prices a few ticks above the current one */}
+      <div className="mt-3">
+        <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+          Lay at N ticks above current
+        </div>
+        <table className="w-full text-xs">
+          <tbody>
+            {suggestions.map(({ ticks, price, result: s }) => (
+              <tr key={ticks} className="border-b border-gray-50">
+                <td className="py-1 text-gray-500">+{ticks} tick{ticks !== 1 ? 's' : ''}</td>
+                <td className="py-1 font-mono text-center">{formatOddsAs(price, settings.oddsFormat)}</td>
+                {s.layStake > 0 ? (
+                  <>
+                    <td className="py-1 font-mono text-right text-blue-600">£{s.layStake.toFixed(2)}</td>
+                    <td className="py-1 font-mono text-right text-red-600">£{s.liability.toFixed(2)}</td>
+                  </>
+                ) : (
+                  <td colSpan={2} className="py-1 text-right text-gray-300">no edge</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
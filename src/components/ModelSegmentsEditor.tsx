@@ -0,0 +1,178 @@
+'use client';
+
+import { ModelSegment, ModelSegmentMatch } from '@/lib/lay-engine';
+
+interface ModelSegmentsEditorProps {
+  segments: ModelSegment[];
+  onChange: (segments: ModelSegment[]) => void;
+}
+
+// Comma-separated text criteria and the RaceMeta field they match
+const LIST_FIELDS: { key: 'types' | 'raceClasses' | 'goings' | 'surfaces' | 'regions'; label: string; placeholder: string }[] = [
+  { key: 'types', label: 'Type', placeholder: 'Flat, Hurdle, Chase' },
+  { key: 'raceClasses', label: 'Class', placeholder: 'Class 1, Class 2' },
+  { key: 'goings', label: 'Going', placeholder: 'Soft, Heavy' },
+  { key: 'surfaces', label: 'Surface', placeholder: 'Turf, AW' },
+  { key: 'regions', label: 'Region', placeholder: 'GB, IRE' },
+];
+
+const inputClass =
+  'flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+function parseList(value: string): string[] | undefined {
+  const items = value.split(',').map((v) => v.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseOptionalInt(value: string): number | undefined {
+  const n = parseInt(value, 10);
+  return isNaN(n) ? undefined : n;
+}
+
+export default function ModelSegmentsEditor({ segments, onChange }: ModelSegmentsEditorProps) {
+  const update = (index: number, updates: Partial<ModelSegment>) => {
+    onChange(segments.map((s, i) => (i === index ? { ...s, ...updates } : s)));
+  };
+
+  const updateMatch = (index: number, updates: Partial<ModelSegmentMatch>) => {
+    update(index, { match: { ...segments[index].match, ...updates } });
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= segments.length) return;
+    const next = [...segments];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const add = () => {
+    onChange([
+      ...segments,
+      {
+        id: `seg_${Date.now().toString(36)}`,
+        label: `Segment ${segments.length + 1}`,
+        match: {},
+        params: { alpha: 1, beta: 1 },
+      },
+    ]);
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+        Segments
+      </div>
+      <p className="text-[10px] text-gray-400 mb-2">
+        First matching segment wins; blank criteria match any race. Unmatched races use the
+        global alpha/beta above.
+      </p>
+
+      <div className="space-y-2">
+        {segments.map((segment, index) => (
+          <div key={segment.id} className="p-2 rounded border border-gray-100 bg-gray-50 space-y-1.5">
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                value={segment.label}
+                onChange={(e) => update(index, { label: e.target.value })}
+                className={`${inputClass} font-semibold`}
+              />
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="px-1.5 text-xs text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                title="Move up (checked earlier)"
+              >
+                &#9650;
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === segments.length - 1}
+                className="px-1.5 text-xs text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                title="Move down (checked later)"
+              >
+                &#9660;
+              </button>
+              <button
+                onClick={() => onChange(segments.filter((_, i) => i !== index))}
+                className="px-1.5 text-sm text-gray-400 hover:text-red-600"
+                title="Remove segment"
+              >
+                &times;
+              </button>
+            </div>
+
+            {LIST_FIELDS.map((field) => (
+              <div key={field.key} className="flex items-center gap-2">
+                <span className="text-[10px] text-gray-500 w-12">{field.label}</span>
+                <input
+                  type="text"
+                  defaultValue={(segment.match[field.key] ?? []).join(', ')}
+                  onBlur={(e) => updateMatch(index, { [field.key]: parseList(e.target.value) })}
+                  placeholder={field.placeholder}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-gray-500 w-12">Runners</span>
+              <input
+                type="number"
+                value={segment.match.fieldSizeMin ?? ''}
+                onChange={(e) => updateMatch(index, { fieldSizeMin: parseOptionalInt(e.target.value) })}
+                placeholder="min"
+                className={inputClass}
+                min={1}
+                max={40}
+              />
+              <input
+                type="number"
+                value={segment.match.fieldSizeMax ?? ''}
+                onChange={(e) => updateMatch(index, { fieldSizeMax: parseOptionalInt(e.target.value) })}
+                placeholder="max"
+                className={inputClass}
+                min={1}
+                max={40}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-gray-500 w-12">α / β</span>
+              <input
+                type="number"
+                value={segment.params.alpha}
+                onChange={(e) =>
+                  update(index, { params: { ...segment.params, alpha: parseFloat(e.target.value) || 1 } })
+                }
+                className={inputClass}
+                min={0.01}
+                max={10}
+                step={0.01}
+              />
+              <input
+                type="number"
+                value={segment.params.beta}
+                onChange={(e) =>
+                  update(index, { params: { ...segment.params, beta: parseFloat(e.target.value) || 1 } })
+                }
+                className={inputClass}
+                min={0.01}
+                max={5}
+                step={0.01}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={add}
+        className="w-full mt-2 px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+      >
+        + Add segment
+      </button>
+    </div>
+  );
+}
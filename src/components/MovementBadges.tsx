@@ -0,0 +1,59 @@
+'use client';
+
+import { MovementEvent, MovementKind, MOVEMENT_LABELS } from '@/lib/movement';
+import { formatPercent } from '@/lib/calculations';
+
+interface MovementBadgesProps {
+  movements: MovementEvent[];
+}
+
+const MOVEMENT_COLORS: Record<MovementKind, string> = {
+  steam: 'bg-orange-100 text-orange-800',
+  drift: 'bg-sky-100 text-sky-800',
+  reversal: 'bg-purple-100 text-purple-800',
+  'late-money': 'bg-rose-100 text-rose-800',
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * One badge per kind of move seen on the runner; the tooltip lists every
+ * event of that kind with its time and size.
+ */
+export default function MovementBadges({ movements }: MovementBadgesProps) {
+  if (movements.length === 0) return null;
+
+  const kinds = (Object.keys(MOVEMENT_LABELS) as MovementKind[]).filter((kind) =>
+    movements.some((m) => m.kind === kind)
+  );
+
+  return (
+    <div className="flex flex-wrap justify-center gap-0.5 mt-1">
+      {kinds.map((kind) => {
+        const events = movements.filter((m) => m.kind === kind);
+        const latest = events[events.length - 1];
+        return (
+          <span
+            key={kind}
+            className={`inline-block px-1 py-px rounded text-[8px] font-semibold uppercase cursor-help ${MOVEMENT_COLORS[kind]}`}
+            title={events
+              .map(
+                (m) =>
+                  `${MOVEMENT_LABELS[kind]} ${formatTime(m.from)}–${formatTime(m.at)}: ${m.fromPrice} → ${m.toPrice} (${m.magnitude > 0 ? '+' : ''}${formatPercent(m.magnitude)}, ${m.books} book${m.books !== 1 ? 's' : ''})`
+              )
+              .join('\n')}
+          >
+            {MOVEMENT_LABELS[kind]}
+            {events.length > 1 ? ` ×${events.length}` : ''}
+            <span className="font-mono normal-case ml-0.5">
+              {latest.magnitude > 0 ? '+' : ''}
+              {Math.round(latest.magnitude)}%
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
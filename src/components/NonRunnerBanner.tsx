@@ -0,0 +1,39 @@
+'use client';
+
+import { NonRunner } from '@/lib/types';
+import { formatOdds } from '@/lib/calculations';
+
+interface NonRunnerBannerProps {
+  nonRunners: NonRunner[];
+  /** Combined Rule 4 deduction applied to the race (pence in the £) */
+  deduction: number;
+}
+
+export default function NonRunnerBanner({ nonRunners, deduction }: NonRunnerBannerProps) {
+  if (nonRunners.length === 0) return null;
+
+  return (
+    <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-800">
+      <span className="font-semibold">Non-runner{nonRunners.length > 1 ? 's' : ''}: </span>
+      {nonRunners.map((nr, i) => (
+        <span
+          key={nr.runnerName}
+          title={`Withdrawn at ${new Date(nr.withdrawnAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}${
+            nr.price !== null ? ` when priced at ${formatOdds(nr.price)}` : ' before it was priced'
+          }`}
+        >
+          {i > 0 && ', '}
+          <span className="line-through">{nr.runnerName}</span>
+          <span className="text-amber-600">
+            {' '}({nr.price !== null ? formatOdds(nr.price) : 'unpriced'}, {nr.deduction}p)
+          </span>
+        </span>
+      ))}
+      <span className="ml-2 text-amber-600">
+        {deduction > 0
+          ? `· Rule 4: ${deduction}p in the £ — opening odds adjusted, earlier lays reduced`
+          : '· No Rule 4 deduction'}
+      </span>
+    </div>
+  );
+}
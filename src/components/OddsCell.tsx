@@ -1,15 +1,21 @@
 'use client';
 
 import { formatOdds, formatPercent } from '@/lib/calculations';
+import { formatOddsAs } from '@/lib/odds-format';
+import { OddsFormat } from '@/lib/types';
 
 interface OddsCellProps {
   odds: number | null;
   impliedPct: number | null;
   label?: string;
   muted?: boolean;
+  /** Display format (defaults to decimal) */
+  format?: OddsFormat;
+  /** Win probability with the race's overround removed (%), shown in place of the raw 1/O */
+  fairPct?: number | null;
 }
 
-export default function OddsCell({ odds, impliedPct, label, muted }: OddsCellProps) {
+export default function OddsCell({ odds, impliedPct, label, muted, format = 'decimal', fairPct = null }: OddsCellProps) {
   const textColor = muted ? 'text-gray-400' : 'text-gray-900';
 
   return (
@@ -19,10 +25,22 @@ export default function OddsCell({ odds, impliedPct, label, muted }: OddsCellPro
           {label}
         </div>
       )}
-      <div className={`text-sm font-mono font-semibold ${textColor}`}>
-        {formatOdds(odds)}
+      <div
+        className={`text-sm font-mono font-semibold ${textColor}`}
+        title={format !== 'decimal' && odds !== null ? `Decimal ${formatOdds(odds)}` : undefined}
+      >
+        {formatOddsAs(odds, format)}
       </div>
-      {impliedPct !== null && (
+      {impliedPct !== null && format === 'implied' ? (
+        <div className="text-[10px] text-gray-400">{formatOdds(odds)} decimal</div>
+      ) : impliedPct !== null && fairPct !== null ? (
+        <div
+          className="text-[10px] text-gray-400 cursor-help"
+          title={`Fair probability: the implied ${formatPercent(impliedPct)} (1 ÷ ${formatOdds(odds)}) with the race's overround removed, so the whole field adds up to 100%.`}
+        >
+          {formatPercent(fairPct)} fair
+        </div>
+      ) : impliedPct !== null && (
         <div
           className="text-[10px] text-gray-400 cursor-help"
           title={`Implied probability: 1 ÷ ${formatOdds(odds)} = ${formatPercent(impliedPct)}. This is the market's implied chance of winning based on the odds.`}
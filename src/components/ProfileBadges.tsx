@@ -0,0 +1,42 @@
+'use client';
+
+import { ProfileDecision } from '@/lib/profiles';
+
+interface ProfileBadgesProps {
+  decisions: ProfileDecision[];
+}
+
+/**
+ * One badge per strategy profile that recommends the lay; the tooltip
+ * gives every profile's verdict with its stake or first failed rule.
+ */
+export default function ProfileBadges({ decisions }: ProfileBadgesProps) {
+  if (decisions.length === 0) return null;
+
+  const fired = decisions.filter((d) => d.decision?.placeLay);
+  const summary = decisions
+    .map(({ profileName, decision }) => {
+      if (decision?.placeLay && decision.kelly) {
+        return `${profileName}: LAY £${decision.kelly.layStake.toFixed(2)} (liab £${decision.kelly.liability.toFixed(2)})`;
+      }
+      return `${profileName}: no lay${decision?.reasons.length ? ` — ${decision.reasons[0]}` : ''}`;
+    })
+    .join('\n');
+
+  return (
+    <div className="flex flex-wrap justify-center gap-0.5 mt-1 cursor-help" title={summary}>
+      {fired.length > 0 ? (
+        fired.map((d) => (
+          <span
+            key={d.profileId}
+            className="inline-block max-w-[80px] truncate px-1 py-px rounded text-[8px] font-semibold bg-indigo-100 text-indigo-800"
+          >
+            {d.profileName}
+          </span>
+        ))
+      ) : (
+        <span className="text-[9px] text-gray-300">0/{decisions.length} strategies</span>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,18 @@
 import Link from 'next/link';
 import { Race, UserSettings } from '@/lib/types';
 import { formatPercent } from '@/lib/calculations';
+import { formatEachWayTerms } from '@/lib/place-market';
 import RunnerRow from './RunnerRow';
+import NonRunnerBanner from './NonRunnerBanner';
 
 interface RaceCardProps {
   race: Race;
   settings: UserSettings;
+  /** Open liability from recorded lays on this race */
+  openLiability?: number;
 }
 
-export default function RaceCard({ race, settings }: RaceCardProps) {
+export default function RaceCard({ race, settings, openLiability }: RaceCardProps) {
   const raceTime = new Date(race.commenceTime).toLocaleTimeString('en-GB', {
     hour: '2-digit',
     minute: '2-digit',
@@ -23,7 +27,9 @@ export default function RaceCard({ race, settings }: RaceCardProps) {
   });
 
   const isMuted = !race.withinFieldSizeFilter;
-  const layRunners = race.runners.filter((r) => r.layDecision?.placeLay);
+  const layRunners = race.runners.filter(
+    (r) => r.layDecision?.placeLay || r.layDecision?.placeMarket?.placeLay
+  );
   const valueRunners = layRunners.length > 0
     ? layRunners
     : race.runners.filter((r) => r.valueSignal !== 'none');
@@ -56,6 +62,26 @@ export default function RaceCard({ race, settings }: RaceCardProps) {
             </div>
             <div className="text-xs text-gray-500">
               {raceDate} &middot; {raceTime}
+              {race.meta && (
+                <span className="text-gray-400">
+                  {[race.meta.type, race.meta.raceClass, race.meta.going, race.meta.surface]
+                    .filter(Boolean)
+                    .map((part) => ` · ${part}`)
+                    .join('')}
+                </span>
+              )}
+              {race.eachWay && (
+                <span
+                  className="text-gray-400"
+                  title={`Each-way terms most bookmakers are offering${
+                    race.places !== null && race.places !== race.eachWay.places
+                      ? ` (the exchange place market pays ${race.places})`
+                      : ''
+                  }`}
+                >
+                  {' · EW '}{formatEachWayTerms(race.eachWay)}
+                </span>
+              )}
             </div>
             {/* Winner display */}
             {winner && (
@@ -83,6 +109,14 @@ export default function RaceCard({ race, settings }: RaceCardProps) {
               Book: {formatPercent(race.bookPercentage)}
             </span>
           )}
+          {openLiability !== undefined && openLiability > 0 && (
+            <span
+              className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 font-semibold"
+              title="Open liability from lays recorded on this race"
+            >
+              Liab £{openLiability.toFixed(2)}
+            </span>
+          )}
           {valueRunners.length > 0 && (
             <span className="px-2 py-0.5 rounded bg-red-50 text-red-700 font-semibold">
               {valueRunners.length} alert{valueRunners.length > 1 ? 's' : ''}
@@ -91,6 +125,8 @@ export default function RaceCard({ race, settings }: RaceCardProps) {
         </div>
       </div>
 
+      <NonRunnerBanner nonRunners={race.nonRunners} deduction={race.rule4Deduction} />
+
       {/* Runners table */}
       <div className="overflow-x-auto">
         <table className="w-full text-left">
@@ -102,7 +138,7 @@ export default function RaceCard({ race, settings }: RaceCardProps) {
               </th>
               <th
                 className="px-2 py-2 font-medium text-center"
-                title="Simple average of all bookmaker odds at the first snapshot captured. This is the 'truth anchor' — professional bookmaker odds before emotional market forces act."
+                title="Weighted consensus of all bookmaker odds at the first snapshot captured, averaged as probabilities with outliers left out. This is the 'truth anchor' — professional bookmaker odds before emotional market forces act."
               >
                 Opening Avg
                 <div className="text-[8px] normal-case tracking-normal text-gray-300 font-normal">
@@ -140,6 +176,7 @@ export default function RaceCard({ race, settings }: RaceCardProps) {
                 muted={isMuted}
                 position={race.result?.positions.get(runner.runnerName) ?? null}
                 isWinner={runner.runnerName === winner}
+                race={race}
               />
             ))}
           </tbody>
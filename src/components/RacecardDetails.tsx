@@ -0,0 +1,137 @@
+'use client';
+
+import { RaceRecord, RunnerRecord } from '@/lib/types';
+
+interface RacecardDetailsProps {
+  race: RaceRecord;
+  runners: RunnerRecord[];
+  /** Finishing positions by horse name, when the result is in */
+  positions?: Map<string, string>;
+}
+
+function formatWeight(lbs: number | null): string {
+  if (lbs === null) return '-';
+  return `${Math.floor(lbs / 14)}-${lbs % 14}`;
+}
+
+function dash(value: string | number | null): string {
+  return value === null || value === '' ? '-' : String(value);
+}
+
+export default function RacecardDetails({ race, runners, positions }: RacecardDetailsProps) {
+  const facts = [
+    { label: 'Distance', value: race.distance },
+    { label: 'Type', value: race.race_type },
+    { label: 'Class', value: race.race_class },
+    { label: 'Pattern', value: race.pattern },
+    { label: 'Going', value: race.going_detailed || race.going },
+    { label: 'Surface', value: race.surface },
+    { label: 'Age', value: race.age_band },
+    { label: 'Rating', value: race.rating_band },
+    { label: 'Prize', value: race.prize },
+  ].filter((f) => f.value);
+
+  const showDraw = runners.some((r) => r.draw !== null);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <div className="text-sm font-semibold text-gray-900">
+          {race.race_name || race.course}
+          {race.big_race && (
+            <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium bg-purple-50 text-purple-700">
+              BIG RACE
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs">
+          {facts.map((fact) => (
+            <span key={fact.label}>
+              <span className="text-gray-400">{fact.label}: </span>
+              <span className="text-gray-700">{fact.value}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-wider text-gray-400 border-b border-gray-100">
+              <th className="px-3 py-2 font-medium">No.</th>
+              {showDraw && <th className="px-2 py-2 font-medium text-center">Draw</th>}
+              <th className="px-2 py-2 font-medium">Horse</th>
+              <th className="px-2 py-2 font-medium text-center">Age</th>
+              <th className="px-2 py-2 font-medium text-center">Wgt</th>
+              <th className="px-2 py-2 font-medium">Jockey</th>
+              <th className="px-2 py-2 font-medium">Trainer</th>
+              <th className="px-2 py-2 font-medium text-center" title="Official Rating">OR</th>
+              <th className="px-2 py-2 font-medium text-center" title="Racing Post Rating">RPR</th>
+              <th className="px-2 py-2 font-medium text-center" title="Topspeed">TS</th>
+              <th className="px-2 py-2 font-medium">Form</th>
+              <th className="px-2 py-2 font-medium text-center" title="Days since last run">Last</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runners.map((runner) => {
+              const position = positions?.get(runner.horse_name);
+              return (
+                <tr
+                  key={runner.horse_name}
+                  className={`border-b border-gray-50 hover:bg-gray-50 ${runner.is_non_runner ? 'opacity-50' : ''}`}
+                >
+                  <td className="px-3 py-2 font-mono text-gray-500">{dash(runner.number)}</td>
+                  {showDraw && (
+                    <td className="px-2 py-2 text-center font-mono text-gray-500">{dash(runner.draw)}</td>
+                  )}
+                  <td className="px-2 py-2">
+                    <div className="flex items-center gap-1.5">
+                      {runner.silk_url && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={runner.silk_url} alt="" className="w-5 h-5 object-contain" />
+                      )}
+                      <span className={`font-medium text-gray-900 ${runner.is_non_runner ? 'line-through' : ''}`}>
+                        {runner.horse_name}
+                      </span>
+                      {runner.is_non_runner && (
+                        <span
+                          className="px-1 rounded text-[9px] font-medium bg-amber-50 text-amber-700"
+                          title={runner.rule4_deduction ? `Rule 4 deduction ${runner.rule4_deduction}p in the £` : 'No Rule 4 deduction'}
+                        >
+                          NR
+                        </span>
+                      )}
+                      {runner.headgear && (
+                        <sup className="text-[9px] text-gray-500" title="Headgear">{runner.headgear}</sup>
+                      )}
+                      {position && (
+                        <span className="text-[10px] text-gray-400">({position})</span>
+                      )}
+                    </div>
+                    {runner.comment && (
+                      <div className="text-[10px] text-gray-400 max-w-xs truncate" title={runner.comment}>
+                        {runner.comment}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-2 py-2 text-center">
+                    {dash(runner.age)}
+                    {runner.sex && <span className="text-gray-400">{runner.sex.toLowerCase()}</span>}
+                  </td>
+                  <td className="px-2 py-2 text-center font-mono">{formatWeight(runner.weight_lbs)}</td>
+                  <td className="px-2 py-2 text-gray-700">{dash(runner.jockey)}</td>
+                  <td className="px-2 py-2 text-gray-700">{dash(runner.trainer)}</td>
+                  <td className="px-2 py-2 text-center font-mono">{dash(runner.official_rating)}</td>
+                  <td className="px-2 py-2 text-center font-mono">{dash(runner.rpr)}</td>
+                  <td className="px-2 py-2 text-center font-mono">{dash(runner.ts)}</td>
+                  <td className="px-2 py-2 font-mono text-gray-500">{dash(runner.form)}</td>
+                  <td className="px-2 py-2 text-center text-gray-500">{dash(runner.last_run)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
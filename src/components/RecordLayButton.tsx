@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import { Race, RunnerOdds, UserSettings, BetStatus, BetMarket } from '@/lib/types';
+import { layLiability } from '@/lib/lay-engine';
+import { isValidTick, snapToTick } from '@/lib/tick-ladder';
+import { BET_STATUS_LABELS } from '@/lib/bets';
+import { firedProfiles } from '@/lib/profiles';
+import { useCreateBet } from '@/hooks/useBets';
+
+interface RecordLayButtonProps {
+  race: Pick<Race, 'eventId' | 'eventName' | 'commenceTime'>;
+  runner: RunnerOdds;
+  settings: UserSettings;
+  /** Visual weight: primary when the engine recommends the lay */
+  primary?: boolean;
+  /** Market to record the lay in (defaults to win) */
+  market?: BetMarket;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function RecordLayButton({ race, runner, settings, primary, market = 'win' }: RecordLayButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${
+          primary
+            ? 'bg-blue-600 text-white hover:bg-blue-700'
+            : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+        }`}
+        title={`Record a ${market} lay you have placed on the exchange`}
+      >
+        {market === 'place' ? 'Record place lay' : 'Record lay'}
+      </button>
+      {open && (
+        <RecordLayDialog
+          race={race}
+          runner={runner}
+          settings={settings}
+          market={market}
+          onClose={() => setOpen(false)}
+        />
+      )}
+    </>
+  );
+}
+
+function RecordLayDialog({
+  race,
+  runner,
+  settings,
+  market,
+  onClose,
+}: Omit<RecordLayButtonProps, 'primary' | 'market'> & { market: BetMarket; onClose: () => void }) {
+  // Place lays take the place market's price, probability and Kelly sizing
+  const placeLd = runner.layDecision?.placeMarket ?? null;
+  const decision = market === 'place'
+    ? {
+        kelly: placeLd?.kelly,
+        layPrice: placeLd?.layPrice ?? runner.placeOdds,
+        pModel: placeLd?.pModel ?? null,
+        edge: placeLd?.edge ?? null,
+      }
+    : {
+        kelly: runner.layDecision?.kelly,
+        layPrice: runner.layDecision?.layPrice ?? runner.betfairOdds,
+        pModel: runner.layDecision?.pModel ?? null,
+        edge: runner.layDecision?.edge ?? null,
+      };
+  const kelly = decision.kelly;
+  const createBet = useCreateBet();
+
+  const [odds, setOdds] = useState(decision.layPrice ?? 0);
+  const [stake, setStake] = useState(kelly && kelly.layStake > 0 ? kelly.layStake : settings.minStake);
+  const [status, setStatus] = useState<BetStatus>('matched');
+  const [matchedStake, setMatchedStake] = useState(stake);
+  const [notes, setNotes] = useState('');
+
+  const effectiveMatched = status === 'partially_matched' ? Math.min(matchedStake, stake) : stake;
+  const liability = odds > 1 ? layLiability(effectiveMatched, odds) : 0;
+  const bankrollPct = settings.bankroll > 0 ? (liability / settings.bankroll) * 100 : 0;
+
+  const submit = () => {
+    createBet.mutate(
+      {
+        event_id: race.eventId,
+        event_name: race.eventName,
+        commence_time: race.commenceTime,
+        runner_name: runner.runnerName,
+        market,
+        places: market === 'place' ? placeLd?.places ?? null : null,
+        odds,
+        stake,
+        matched_stake: effectiveMatched,
+        commission: settings.commission,
+        status,
+        value_signal: market === 'place' ? null : runner.valueSignal,
+        model_probability: decision.pModel,
+        edge: decision.edge,
+        notes: notes.trim() || null,
+        strategies: market === 'place' ? [] : firedProfiles(runner.profileDecisions),
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white rounded-lg shadow-xl text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900">
+              Record {market === 'place' ? 'place ' : ''}lay — {runner.runnerName}
+            </h2>
+            <p className="text-[10px] text-gray-400">
+              {race.eventName}
+              {market === 'place' && placeLd && ` · place market, ${placeLd.places} places`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-lg leading-none">
+            &times;
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                Lay Odds
+              </label>
+              <input
+                type="number"
+                value={odds}
+                onChange={(e) => setOdds(parseFloat(e.target.value) || 0)}
+                className={inputClass}
+                min={1.01}
+                step={0.01}
+              />
+              {odds > 1 && !isValidTick(odds) && (
+                <button
+                  onClick={() => setOdds(snapToTick(odds))}
+                  className="text-[9px] text-amber-600 hover:underline"
+                  title="The exchange only accepts prices on its tick ladder"
+                >
+                  Not an exchange price — use {snapToTick(odds).toFixed(2)}
+                </button>
+              )}
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                Stake (£)
+              </label>
+              <input
+                type="number"
+                value={stake}
+                onChange={(e) => setStake(parseFloat(e.target.value) || 0)}
+                className={inputClass}
+                min={0}
+                step={0.5}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            {(['matched', 'partially_matched'] as const).map((s) => (
+              <button
+                key={s}
+                onClick={() => setStatus(s)}
+                className={`flex-1 px-3 py-1.5 text-xs rounded border transition-colors ${
+                  status === s
+                    ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                    : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                {BET_STATUS_LABELS[s]}
+              </button>
+            ))}
+          </div>
+
+          {status === 'partially_matched' && (
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                Matched Stake (£)
+              </label>
+              <input
+                type="number"
+                value={matchedStake}
+                onChange={(e) => setMatchedStake(parseFloat(e.target.value) || 0)}
+                className={inputClass}
+                min={0}
+                max={stake}
+                step={0.5}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+              Notes
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className={inputClass}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="bg-gray-50 rounded p-3 text-sm grid grid-cols-2 gap-2">
+            <div>
+              <span className="text-gray-500">Liability:</span>
+              <span className="ml-1 font-mono font-bold text-red-600">£{liability.toFixed(2)}</span>
+            </div>
+            <div>
+              <span className="text-gray-500">Bankroll:</span>
+              <span className="ml-1 font-mono">{bankrollPct.toFixed(1)}%</span>
+            </div>
+            {kelly && kelly.layStake > 0 && (
+              <div className="col-span-2 text-[10px] text-gray-400">
+                Kelly suggested £{kelly.layStake.toFixed(2)} stake / £{kelly.liability.toFixed(2)} liability
+              </div>
+            )}
+          </div>
+
+          {createBet.isError && (
+            <p className="text-xs text-red-600">
+              {createBet.error instanceof Error ? createBet.error.message : 'Failed to record bet'}
+            </p>
+          )}
+
+          <button
+            onClick={submit}
+            disabled={createBet.isPending || !(odds > 1) || !(stake > 0)}
+            className="w-full px-3 py-2 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {createBet.isPending ? 'Saving...' : 'Save lay'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 'use client';
 
-import { RunnerOdds, UserSettings } from '@/lib/types';
+import { Race, RunnerOdds, UserSettings } from '@/lib/types';
 import { COMPRESSION_COLORS } from '@/lib/constants';
-import { formatOdds } from '@/lib/calculations';
+import { formatOddsAs } from '@/lib/odds-format';
+import { DEMARGIN_METHOD_LABELS } from '@/lib/demargin';
 import OddsCell from './OddsCell';
 import CompressionBadge from './CompressionBadge';
+import MovementBadges from './MovementBadges';
+import ProfileBadges from './ProfileBadges';
+import RecordLayButton from './RecordLayButton';
+import ExchangeLadder from './ExchangeLadder';
 
 interface RunnerRowProps {
   runner: RunnerOdds;
@@ -14,14 +19,16 @@ interface RunnerRowProps {
   position?: string | null;
   /** Whether this runner won the race */
   isWinner?: boolean;
+  /** Race the runner belongs to (enables the "Record lay" action) */
+  race?: Pick<Race, 'eventId' | 'eventName' | 'commenceTime'>;
 }
 
-// settings prop kept in interface for future use (currency formatting, etc.)
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export default function RunnerRow({ runner, settings, muted, position, isWinner }: RunnerRowProps) {
+export default function RunnerRow({ runner, settings, muted, position, isWinner, race }: RunnerRowProps) {
   const colors = COMPRESSION_COLORS[runner.valueSignal];
   const ld = runner.layDecision;
   const kelly = ld?.kelly;
+  const placeLd = ld?.placeMarket ?? null;
+  const segmentReason = ld?.reasons.find((r) => r.startsWith('Model segment:'));
 
   const rowBg = isWinner
     ? 'bg-green-50 border-l-4 border-l-green-400'
@@ -69,11 +76,21 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
         {ld?.pModel !== null && ld?.pModel !== undefined && (
           <div
             className="text-[9px] text-gray-400 cursor-help"
-            title="Model Probability: our estimated true win probability for this horse, derived from the opening bookmaker average using the formula P(win) = 1/(1 + α×(O-1)^β). With default settings (α=1, β=1) this equals the raw implied probability (1/odds)."
+            title={`Model Probability: our estimated true win probability for this horse, derived from the opening bookmaker average with the race's overround removed (${DEMARGIN_METHOD_LABELS[settings.demarginMethod]} method), using the formula P(win) = 1/(1 + α×(O-1)^β) on the fair odds. With default settings (α=1, β=1) this equals the fair probability.${
+              segmentReason ? `\n${segmentReason}` : ''
+            }`}
           >
             Model prob: {(ld.pModel * 100).toFixed(1)}%
           </div>
         )}
+        {runner.placeProbability !== null && placeLd && (
+          <div
+            className="text-[9px] text-gray-400 cursor-help"
+            title={`Place probability: chance of finishing in the first ${placeLd.places}, from the model win probabilities of the whole field (Harville model: each later position is a fresh race among the horses still to finish).`}
+          >
+            Place prob: {(runner.placeProbability * 100).toFixed(1)}% (top {placeLd.places})
+          </div>
+        )}
       </td>
 
       {/* Opening Average (all bookmakers at first DB snapshot, or current avg as proxy) */}
@@ -81,7 +98,9 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
         <OddsCell
           odds={runner.openingAverageOdds}
           impliedPct={runner.impliedProbability}
+          fairPct={runner.fairProbability}
           muted={muted}
+          format={settings.oddsFormat}
         />
         <div
           className="text-[9px] text-center cursor-help"
@@ -95,15 +114,23 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
             {runner.hasDbOpening ? 'from DB' : 'live estimate'}
           </span>
         </div>
+        {runner.unadjustedOpeningOdds !== runner.openingAverageOdds && (
+          <div
+            className="text-[8px] text-amber-600 text-center cursor-help"
+            title="Opening average reduced by the Rule 4 deduction for this race's non-runners (the opening was priced with them in the field)"
+          >
+            R4 · was {formatOddsAs(runner.unadjustedOpeningOdds, settings.oddsFormat)}
+          </div>
+        )}
         {/* Bookmaker count and spread */}
         <div className="text-[8px] text-gray-300 text-center" title={
           runner.oddsSpread
-            ? `${runner.bookmakerCount} bookmakers reporting odds. Spread: ${formatOdds(runner.oddsSpread[0])} to ${formatOdds(runner.oddsSpread[1])}`
+            ? `${runner.bookmakerCount} bookmakers reporting odds. Spread: ${formatOddsAs(runner.oddsSpread[0], settings.oddsFormat)} to ${formatOddsAs(runner.oddsSpread[1], settings.oddsFormat)}`
             : `${runner.bookmakerCount} bookmaker(s) reporting odds`
         }>
           {runner.bookmakerCount} bookie{runner.bookmakerCount !== 1 ? 's' : ''}
           {runner.oddsSpread && (
-            <span> ({formatOdds(runner.oddsSpread[0])}–{formatOdds(runner.oddsSpread[1])})</span>
+            <span> ({formatOddsAs(runner.oddsSpread[0], settings.oddsFormat)}–{formatOddsAs(runner.oddsSpread[1], settings.oddsFormat)})</span>
           )}
         </div>
       </td>
@@ -111,11 +138,21 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
       {/* Betfair Exchange price (where we place the lay bet) */}
       <td className="px-2 py-2">
         {runner.betfairOdds !== null ? (
-          <OddsCell
-            odds={runner.betfairOdds}
-            impliedPct={runner.currentImpliedProbability}
-            muted={muted}
-          />
+          <>
+            <OddsCell
+              odds={runner.betfairOdds}
+              impliedPct={runner.currentImpliedProbability}
+              fairPct={runner.fairMarketProbability}
+              muted={muted}
+              format={settings.oddsFormat}
+            />
+            {runner.exchange && <ExchangeLadder book={runner.exchange} compact />}
+          </>
+        ) : runner.exchange ? (
+          <div className="text-center">
+            <span className="text-xs text-gray-300">N/A</span>
+            <ExchangeLadder book={runner.exchange} compact />
+          </div>
         ) : (
           <div className="text-center">
             <span className="text-xs text-gray-300">N/A</span>
@@ -128,6 +165,7 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
       <td className="px-2 py-2 text-center">
         <CompressionBadge
           compressionPercent={runner.compressionPercent}
+          compressionTicks={runner.compressionTicks}
           signal={runner.valueSignal}
         />
         {moveDirection && (
@@ -141,6 +179,7 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
             {moveDirection === 'flat' && <span className="text-gray-400">&#8212; flat</span>}
           </div>
         )}
+        <MovementBadges movements={runner.movements} />
       </td>
 
       {/* Lay Decision + EV */}
@@ -163,7 +202,7 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
           <div>
             <span
               className="text-[10px] text-gray-400 cursor-help"
-              title="Edge: the difference between our model probability and the market-implied probability. Positive edge means we think the horse is less likely to win than the market suggests."
+              title="Edge: the difference between our model probability and the exchange price's fair (overround-removed) probability. Positive edge means we think the horse is less likely to win than the market suggests."
             >
               Edge: {(ld.edge * 100).toFixed(1)}%
             </span>
@@ -176,6 +215,26 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
         ) : (
           <span className="text-xs text-gray-300">-</span>
         )}
+        {placeLd && placeLd.pMarket !== null && (
+          <div
+            className="mt-1 cursor-help"
+            title={`Place market (${placeLd.places} places) at ${formatOddsAs(placeLd.layPrice, settings.oddsFormat)}: model ${(placeLd.pModel * 100).toFixed(1)}% vs market ${(placeLd.pMarket * 100).toFixed(1)}%. ${placeLd.reasons.join(', ')}`}
+          >
+            {placeLd.placeLay ? (
+              <span className="inline-block px-1.5 py-0.5 rounded text-[10px] font-bold bg-teal-100 text-teal-800">
+                PLACE LAY
+              </span>
+            ) : (
+              <span className="text-[9px] text-gray-400">
+                Place edge: {((placeLd.edge ?? 0) * 100).toFixed(1)}%
+              </span>
+            )}
+            {placeLd.placeLay && placeLd.ev !== null && (
+              <div className="text-[9px] text-teal-600">EV: £{placeLd.ev.toFixed(2)}</div>
+            )}
+          </div>
+        )}
+        <ProfileBadges decisions={runner.profileDecisions} />
       </td>
 
       {/* Kelly stake (from lay engine) */}
@@ -198,6 +257,28 @@ export default function RunnerRow({ runner, settings, muted, position, isWinner
         ) : (
           <span className="text-xs text-gray-300">-</span>
         )}
+        {placeLd?.placeLay && placeLd.kelly && placeLd.kelly.layStake > 0 && (
+          <div className="text-[10px] text-teal-700 mt-1" title="Place lay, sized by its own Kelly calculation">
+            Place: £{placeLd.kelly.layStake.toFixed(2)}
+            <span className="text-gray-400"> / £{placeLd.kelly.liability.toFixed(2)}</span>
+          </div>
+        )}
+        {race && runner.betfairOdds !== null && !position && (
+          <div className="mt-1">
+            <RecordLayButton race={race} runner={runner} settings={settings} primary={ld?.placeLay} />
+          </div>
+        )}
+        {race && placeLd && runner.placeOdds !== null && !position && (
+          <div className="mt-1">
+            <RecordLayButton
+              race={race}
+              runner={runner}
+              settings={settings}
+              primary={placeLd.placeLay}
+              market="place"
+            />
+          </div>
+        )}
       </td>
     </tr>
   );
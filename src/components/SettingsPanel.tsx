@@ -1,6 +1,16 @@
 'use client';
 
-import { UserSettings } from '@/lib/types';
+import { DemarginMethod, OddsFormat, UserSettings } from '@/lib/types';
+import { ODDS_FORMAT_LABELS, formatOddsAs } from '@/lib/odds-format';
+import { DEMARGIN_METHOD_LABELS } from '@/lib/demargin';
+import { CONSENSUS_STALE_MS, LATE_MONEY_WINDOW_MS } from '@/lib/constants';
+import { MOVEMENT_LABELS, MovementCondition, MovementKind } from '@/lib/movement';
+import CalibrationPanel from './CalibrationPanel';
+import BookmakerWeightsPanel from './BookmakerWeightsPanel';
+import StrategyEditor from './StrategyEditor';
+import StrategyProfilesEditor from './StrategyProfilesEditor';
+import ModelSegmentsEditor from './ModelSegmentsEditor';
+import BankrollPanel from './BankrollPanel';
 
 interface SettingsPanelProps {
   settings: UserSettings;
@@ -30,9 +40,9 @@ export default function SettingsPanel({
 
         <div className="p-4 space-y-5">
           {/* Bankroll */}
-          <div>
+          <div className="space-y-2">
             <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
-              Bankroll (£)
+              {settings.bankrollMode === 'dynamic' ? 'Starting Bankroll (£)' : 'Bankroll (£)'}
             </label>
             <input
               type="number"
@@ -42,6 +52,52 @@ export default function SettingsPanel({
               min={0}
               step={100}
             />
+            <div className="flex gap-2">
+              {(['static', 'dynamic'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => onUpdate({ bankrollMode: mode })}
+                  className={`flex-1 px-3 py-1.5 text-xs rounded border transition-colors ${
+                    settings.bankrollMode === mode
+                      ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                      : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  {mode === 'static' ? 'Fixed' : 'From ledger'}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400">
+              {settings.bankrollMode === 'dynamic'
+                ? 'Stakes are sized on starting bankroll + deposits − withdrawals + settled P&L − open liability.'
+                : 'Stakes are sized on the bankroll above regardless of results.'}
+            </p>
+            {settings.bankrollMode === 'dynamic' && <BankrollPanel settings={settings} />}
+          </div>
+
+          {/* Odds Format */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Odds Format
+            </label>
+            <div className="grid grid-cols-4 gap-1">
+              {(Object.keys(ODDS_FORMAT_LABELS) as OddsFormat[]).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => onUpdate({ oddsFormat: format })}
+                  className={`px-2 py-1.5 text-xs rounded border transition-colors ${
+                    settings.oddsFormat === format
+                      ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                      : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  {ODDS_FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1">
+              e.g. 2.10 shows as {formatOddsAs(2.1, settings.oddsFormat)}. Exchange ladders and recorded lays stay in decimal.
+            </p>
           </div>
 
           {/* Exchange Settings */}
@@ -176,6 +232,37 @@ export default function SettingsPanel({
             />
           </div>
 
+          {/* Risk limits */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Risk Limits
+            </label>
+            <div className="space-y-2">
+              {([
+                { key: 'maxTotalLiabilityPct', label: 'Total liability', unit: '%', step: 1 },
+                { key: 'maxMeetingLiabilityPct', label: 'Per meeting', unit: '%', step: 1 },
+                { key: 'maxLaysPerDay', label: 'Lays per day', unit: '', step: 1 },
+                { key: 'dailyStopLossPct', label: 'Daily stop-loss', unit: '%', step: 1 },
+              ] as const).map((limit) => (
+                <div key={limit.key} className="flex items-center gap-2">
+                  <span className="text-xs text-gray-500 w-28">{limit.label}</span>
+                  <input
+                    type="number"
+                    value={settings[limit.key]}
+                    onChange={(e) => onUpdate({ [limit.key]: parseFloat(e.target.value) || 0 })}
+                    className="flex-1 px-3 py-1.5 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    min={0}
+                    step={limit.step}
+                  />
+                  <span className="text-xs text-gray-400 w-3">{limit.unit}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1">
+              Percentages are of bankroll; 0 turns a limit off. Recorded lays count against the limits.
+            </p>
+          </div>
+
           {/* Field size filter */}
           <div>
             <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
@@ -207,13 +294,115 @@ export default function SettingsPanel({
             </div>
           </div>
 
+          {/* Margin removal */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Margin Removal
+            </label>
+            <div className="grid grid-cols-4 gap-1">
+              {(Object.keys(DEMARGIN_METHOD_LABELS) as DemarginMethod[]).map((method) => (
+                <button
+                  key={method}
+                  onClick={() => onUpdate({ demarginMethod: method })}
+                  className={`px-2 py-1.5 text-xs rounded border transition-colors ${
+                    settings.demarginMethod === method
+                      ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                      : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  {DEMARGIN_METHOD_LABELS[method]}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1">
+              How the overround is taken out of a race&apos;s prices before they are compared. Shin and power
+              take more off longshots; proportional scales every runner equally.
+            </p>
+          </div>
+
+          {/* Bookmaker consensus */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Bookmaker Consensus
+            </label>
+            <p className="text-[10px] text-gray-400">
+              Prices are averaged as probabilities, leaving out any more than {CONSENSUS_STALE_MS / 60_000} minutes behind the race&apos;s
+              newest price or far from the other books. Fitted weights let books that have called winners
+              better count for more; without them every book counts equally.
+            </p>
+            <BookmakerWeightsPanel
+              current={settings.bookmakerWeights}
+              demargin={settings.demarginMethod}
+              onApply={(bookmakerWeights) => onUpdate({ bookmakerWeights })}
+            />
+          </div>
+
+          {/* Lay entry rules */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Lay Entry Rules
+            </label>
+            <p className="text-[10px] text-gray-400 mb-2">
+              Conditions a runner must meet before a win lay is recommended. Kelly sizing still has to find a
+              positive stake, so a strategy without the lay value rule can&apos;t recommend negative-EV lays.
+            </p>
+            <StrategyEditor
+              strategy={settings.strategy}
+              onChange={(strategy) => onUpdate({ strategy })}
+            />
+          </div>
+
+          {/* Movement conditions */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Movement Conditions
+            </label>
+            <div className="space-y-1">
+              {(Object.keys(MOVEMENT_LABELS) as MovementKind[]).map((kind) => {
+                const mode = settings.movementConditions.find((c) => c.kind === kind)?.mode ?? null;
+                const setMode = (next: MovementCondition['mode'] | null) =>
+                  onUpdate({
+                    movementConditions: [
+                      ...settings.movementConditions.filter((c) => c.kind !== kind),
+                      ...(next ? [{ kind, mode: next }] : []),
+                    ],
+                  });
+                return (
+                  <div key={kind} className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500 w-20">{MOVEMENT_LABELS[kind]}</span>
+                    <div className="flex-1 grid grid-cols-3 gap-1">
+                      {([null, 'require', 'avoid'] as const).map((option) => (
+                        <button
+                          key={option ?? 'any'}
+                          onClick={() => setMode(option)}
+                          className={`px-2 py-1 text-xs rounded border transition-colors ${
+                            mode === option
+                              ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                              : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                          }`}
+                        >
+                          {option === null ? 'Any' : option === 'require' ? 'Require' : 'Avoid'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1">
+              Extra conditions for a win lay, from the bookmaker price history: steam is several books cutting
+              together, drift a sustained lengthening, reversal a move back the other way, late money a shortening
+              in the last {LATE_MONEY_WINDOW_MS / 60_000} minutes.
+            </p>
+          </div>
+
           {/* Probability Model */}
           <div>
             <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
               Probability Model
             </label>
             <p className="text-[10px] text-gray-400 mb-2">
-              P(win) = 1 / (1 + alpha * (O-1)^beta). Default alpha=1, beta=1 uses raw implied probability.
+              P(win) = 1 / (1 + alpha * (O-1)^beta) on fair odds O. Default alpha=1, beta=1 uses the fair probability as it is.
             </p>
             <div className="space-y-2">
               <div className="flex items-center gap-2">
@@ -245,6 +434,32 @@ export default function SettingsPanel({
                 />
               </div>
             </div>
+            <CalibrationPanel
+              current={{ alpha: settings.modelAlpha, beta: settings.modelBeta }}
+              demargin={settings.demarginMethod}
+              onApply={(params) => onUpdate({ modelAlpha: params.alpha, modelBeta: params.beta })}
+            />
+            <ModelSegmentsEditor
+              segments={settings.modelSegments}
+              onChange={(modelSegments) => onUpdate({ modelSegments })}
+            />
+          </div>
+
+          {/* Strategy profiles */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Strategy Profiles
+            </label>
+            <p className="text-[10px] text-gray-400 mb-2">
+              Named copies of the value thresholds, Kelly sizing, probability model, entry rules and movement
+              conditions above. Every runner is also evaluated under each profile and the backtest replays each one
+              on the same data; bankroll, commission and risk limits are shared.
+            </p>
+            <StrategyProfilesEditor
+              settings={settings}
+              onChange={(profiles) => onUpdate({ profiles })}
+              onLoad={(profile) => onUpdate(profile)}
+            />
           </div>
 
           {/* Reset */}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  DEFAULT_STRATEGY,
+  STRATEGY_RULE_LABELS,
+  StrategyGroup,
+  StrategyNode,
+  StrategyRule,
+  StrategyRuleType,
+  defaultRule,
+} from '@/lib/strategy';
+import { useStrategies, useSaveStrategy, useDeleteStrategy } from '@/hooks/useStrategies';
+
+interface StrategyEditorProps {
+  strategy: StrategyGroup;
+  onChange: (strategy: StrategyGroup) => void;
+}
+
+// Groups can hold groups this many levels below the top
+const MAX_DEPTH = 2;
+
+const inputClass =
+  'w-14 min-w-0 px-1.5 py-0.5 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+function NumberInput({ value, onChange, step = 1 }: { value: number; onChange: (value: number) => void; step?: number }) {
+  return (
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className={inputClass}
+      step={step}
+    />
+  );
+}
+
+function RuleFields({ rule, onChange }: { rule: StrategyRule; onChange: (rule: StrategyRule) => void }) {
+  switch (rule.type) {
+    case 'minCompression':
+    case 'minEdge':
+      return <NumberInput value={rule.percent} onChange={(percent) => onChange({ ...rule, percent })} step={0.5} />;
+    case 'oddsBand':
+    case 'fieldSize':
+      return (
+        <>
+          <NumberInput value={rule.min} onChange={(min) => onChange({ ...rule, min })} step={rule.type === 'oddsBand' ? 0.1 : 1} />
+          <span className="text-gray-400">–</span>
+          <NumberInput value={rule.max} onChange={(max) => onChange({ ...rule, max })} step={rule.type === 'oddsBand' ? 0.1 : 1} />
+        </>
+      );
+    case 'minBookmakers':
+      return <NumberInput value={rule.count} onChange={(count) => onChange({ ...rule, count })} />;
+    case 'timeToOff':
+      return (
+        <>
+          <NumberInput value={rule.minMinutes} onChange={(minMinutes) => onChange({ ...rule, minMinutes })} />
+          <span className="text-gray-400">–</span>
+          <NumberInput value={rule.maxMinutes} onChange={(maxMinutes) => onChange({ ...rule, maxMinutes })} />
+        </>
+      );
+    case 'signalLevel':
+      return (
+        <select
+          value={rule.level}
+          onChange={(e) => onChange({ ...rule, level: e.target.value as typeof rule.level })}
+          className="px-1 py-0.5 border border-gray-200 rounded text-xs outline-none"
+        >
+          <option value="conservative">Conservative</option>
+          <option value="strong">Strong</option>
+          <option value="premium">Premium</option>
+        </select>
+      );
+    default:
+      return null;
+  }
+}
+
+function NodeEditor({
+  node,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  node: StrategyNode;
+  depth: number;
+  onChange: (node: StrategyNode) => void;
+  onRemove?: () => void;
+}) {
+  const remove = onRemove && (
+    <button
+      onClick={onRemove}
+      className="ml-auto px-1 text-sm text-gray-400 hover:text-red-600"
+      title={node.type === 'group' ? 'Remove group' : 'Remove rule'}
+    >
+      &times;
+    </button>
+  );
+
+  if (node.type !== 'group') {
+    return (
+      <div className="flex items-center gap-1 text-xs">
+        <select
+          value={node.type}
+          onChange={(e) => onChange(defaultRule(e.target.value as StrategyRuleType))}
+          className="px-1 py-0.5 border border-gray-200 rounded text-xs outline-none"
+        >
+          {(Object.keys(STRATEGY_RULE_LABELS) as StrategyRuleType[]).map((type) => (
+            <option key={type} value={type}>
+              {STRATEGY_RULE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <RuleFields rule={node} onChange={onChange} />
+        {remove}
+      </div>
+    );
+  }
+
+  const updateRule = (index: number, rule: StrategyNode) =>
+    onChange({ ...node, rules: node.rules.map((r, i) => (i === index ? rule : r)) });
+
+  return (
+    <div className={`space-y-1 ${depth > 0 ? 'p-1.5 rounded border border-gray-200 bg-white' : ''}`}>
+      <div className="flex items-center gap-1">
+        {(['and', 'or'] as const).map((op) => (
+          <button
+            key={op}
+            onClick={() => onChange({ ...node, op })}
+            className={`px-2 py-0.5 text-[10px] rounded border transition-colors ${
+              node.op === op
+                ? 'bg-blue-50 border-blue-200 text-blue-700 font-semibold'
+                : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+            }`}
+            title={op === 'and' ? 'Every rule must pass' : 'At least one rule must pass'}
+          >
+            {op === 'and' ? 'ALL of' : 'ANY of'}
+          </button>
+        ))}
+        {remove}
+      </div>
+      <div className="pl-2 border-l-2 border-gray-100 space-y-1">
+        {node.rules.map((rule, index) => (
+          <NodeEditor
+            key={index}
+            node={rule}
+            depth={depth + 1}
+            onChange={(next) => updateRule(index, next)}
+            onRemove={() => onChange({ ...node, rules: node.rules.filter((_, i) => i !== index) })}
+          />
+        ))}
+        <div className="flex gap-2 text-[10px]">
+          <button
+            onClick={() => onChange({ ...node, rules: [...node.rules, defaultRule('minCompression')] })}
+            className="text-blue-600 hover:underline"
+          >
+            + Rule
+          </button>
+          {depth < MAX_DEPTH && (
+            <button
+              onClick={() =>
+                onChange({ ...node, rules: [...node.rules, { type: 'group', op: node.op === 'and' ? 'or' : 'and', rules: [] }] })
+              }
+              className="text-blue-600 hover:underline"
+            >
+              + Group
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function StrategyEditor({ strategy, onChange }: StrategyEditorProps) {
+  const { data: saved } = useStrategies();
+  const save = useSaveStrategy();
+  const remove = useDeleteStrategy();
+  const [name, setName] = useState('');
+
+  return (
+    <div>
+      <NodeEditor node={strategy} depth={0} onChange={(next) => onChange(next as StrategyGroup)} />
+      <button
+        onClick={() => onChange(DEFAULT_STRATEGY)}
+        className="mt-2 text-[10px] text-gray-400 hover:text-gray-600 hover:underline"
+      >
+        Reset to price shortened + lay value
+      </button>
+
+      <div className="mt-3 p-3 bg-gray-50 rounded border border-gray-100">
+        <div className="text-[10px] uppercase tracking-wider text-gray-400 mb-2">
+          Shared library
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Strategy name"
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+          <button
+            onClick={() => save.mutate({ name, definition: strategy })}
+            disabled={!name.trim() || save.isPending}
+            className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+          >
+            {save.isPending ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+        {save.isError && (
+          <p className="text-[10px] text-red-600 mt-1">
+            {save.error instanceof Error ? save.error.message : 'Save failed'}
+          </p>
+        )}
+        {saved && saved.length > 0 && (
+          <ul className="mt-2 space-y-1 text-xs">
+            {saved.map((s) => (
+              <li key={s.id} className="flex items-center gap-2">
+                <span className="flex-1 truncate text-gray-600">{s.name}</span>
+                <button
+                  onClick={() => {
+                    onChange(s.definition);
+                    setName(s.name);
+                  }}
+                  className="text-[10px] text-blue-600 hover:underline"
+                >
+                  Load
+                </button>
+                <button
+                  onClick={() => remove.mutate(s.id)}
+                  className="px-1 text-sm text-gray-400 hover:text-red-600"
+                  title="Delete from library"
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { UserSettings } from '@/lib/types';
+import { ProfileSettings, StrategyProfile, createProfile, profileSettings } from '@/lib/profiles';
+
+interface StrategyProfilesEditorProps {
+  settings: UserSettings;
+  onChange: (profiles: StrategyProfile[]) => void;
+  /** Copy a profile's fields into the current settings */
+  onLoad: (settings: ProfileSettings) => void;
+}
+
+const inputClass =
+  'flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+function describe(profile: StrategyProfile): string {
+  const s = profile.settings;
+  return [
+    `Thresholds ${s.thresholds.conservative}/${s.thresholds.strong}/${s.thresholds.premium}%`,
+    `Kelly ×${s.kellyMultiplier}, max liability ${s.maxLiabilityPct}%`,
+    `α=${s.modelAlpha}, β=${s.modelBeta}${s.modelSegments.length > 0 ? ` + ${s.modelSegments.length} segments` : ''}`,
+    `${s.strategy.rules.length} entry rule${s.strategy.rules.length !== 1 ? 's' : ''}` +
+      (s.movementConditions.length > 0 ? `, ${s.movementConditions.length} movement conditions` : ''),
+  ].join('\n');
+}
+
+export default function StrategyProfilesEditor({ settings, onChange, onLoad }: StrategyProfilesEditorProps) {
+  const [name, setName] = useState('');
+  const profiles = settings.profiles;
+  const existing = profiles.find((p) => p.name === name.trim());
+
+  const update = (id: string, changes: Partial<StrategyProfile>) =>
+    onChange(profiles.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+
+  const saveCurrent = () => {
+    if (existing) {
+      update(existing.id, { settings: profileSettings(settings) });
+    } else {
+      onChange([...profiles, createProfile(name, settings)]);
+    }
+    setName('');
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Conservative NH"
+          className={inputClass}
+        />
+        <button
+          onClick={saveCurrent}
+          disabled={!name.trim()}
+          className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+          title="Save the current thresholds, Kelly sizing, model and entry rules under this name"
+        >
+          {existing ? 'Overwrite' : 'Save current'}
+        </button>
+      </div>
+      {profiles.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs">
+          {profiles.map((profile) => (
+            <li key={profile.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => update(profile.id, { name: e.target.value })}
+                className={`${inputClass} py-0.5 text-gray-600`}
+                title={describe(profile)}
+              />
+              <button
+                onClick={() => onLoad(profile.settings)}
+                className="text-[10px] text-blue-600 hover:underline"
+                title="Replace the current settings with this profile's"
+              >
+                Load
+              </button>
+              <button
+                onClick={() => onChange(profiles.filter((p) => p.id !== profile.id))}
+                className="px-1 text-sm text-gray-400 hover:text-red-600"
+                title="Delete profile"
+              >
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
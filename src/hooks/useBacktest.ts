@@ -0,0 +1,54 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { UserSettings } from '@/lib/types';
+import { BacktestReport } from '@/lib/backtest';
+
+interface BacktestRequest {
+  startDate: string;
+  endDate: string;
+  settings: UserSettings;
+}
+
+/**
+ * Hook to run a historical backtest on demand.
+ * Backtests are expensive, so this is a mutation rather than a polled query.
+ */
+export function useBacktest() {
+  return useMutation({
+    mutationFn: async (request: BacktestRequest): Promise<BacktestReport> => {
+      const res = await fetch('/api/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+      if (json.error || !json.data) {
+        throw new Error(json.error || `Backtest failed: HTTP ${res.status}`);
+      }
+      return json.data;
+    },
+  });
+}
+
+/**
+ * Hook to load Racing API results for a past date range into race_results,
+ * so the backtest has outcomes for days nobody had the dashboard open.
+ * Recorded lays on those races are settled server-side as part of the run.
+ */
+export function useResultsBackfill() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (range: { startDate: string; endDate: string }): Promise<{ races: number; saved: number }> => {
+      const res = await fetch('/api/results/backfill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(range),
+      });
+      const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+      if (json.error) throw new Error(json.error);
+      return { races: json.races ?? 0, saved: json.saved ?? 0 };
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bets'] }),
+  });
+}
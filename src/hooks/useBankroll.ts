@@ -0,0 +1,70 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { BankrollTransaction, UserSettings } from '@/lib/types';
+import { computeBankroll, stakingBankroll } from '@/lib/bankroll';
+import { useBets } from './useBets';
+
+/**
+ * Hook to fetch the deposit/withdrawal audit trail.
+ */
+export function useBankrollTransactions() {
+  return useQuery({
+    queryKey: ['bankroll'],
+    queryFn: async (): Promise<BankrollTransaction[]> => {
+      const res = await fetch('/api/bankroll');
+      if (!res.ok) return [];
+
+      const json = await res.json();
+      return json.data || [];
+    },
+    staleTime: 60_000,
+  });
+}
+
+/**
+ * Record a deposit or withdrawal.
+ */
+export function useAddBankrollTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (tx: Pick<BankrollTransaction, 'kind' | 'amount' | 'note'>): Promise<BankrollTransaction> => {
+      const res = await fetch('/api/bankroll', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(tx),
+      });
+      const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+      if (json.error) throw new Error(json.error);
+      return json.data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bankroll'] }),
+  });
+}
+
+/**
+ * Bankroll derived from the ledger, plus the figure the lay engine should
+ * stake from under the current bankroll mode.
+ *
+ * `ready` is false until bets and transactions have loaded, so dynamic mode
+ * never sizes stakes off the bare starting bankroll.
+ */
+export function useEffectiveBankroll(settings: UserSettings) {
+  const bets = useBets();
+  const transactions = useBankrollTransactions();
+
+  const state = useMemo(
+    () =>
+      bets.data && transactions.data
+        ? computeBankroll(settings.bankroll, bets.data, transactions.data)
+        : null,
+    [settings.bankroll, bets.data, transactions.data]
+  );
+
+  return {
+    state,
+    bankroll: stakingBankroll(settings, state),
+    ready: settings.bankrollMode !== 'dynamic' || state !== null,
+  };
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bet, BetStatus, NewBet } from '@/lib/types';
+
+/**
+ * Hook to fetch recorded lays (all, or for a single event).
+ */
+export function useBets(eventId?: string) {
+  return useQuery({
+    queryKey: ['bets', eventId ?? 'all'],
+    queryFn: async (): Promise<Bet[]> => {
+      const params = new URLSearchParams();
+      if (eventId) params.set('eventId', eventId);
+
+      const res = await fetch(`/api/bets?${params}`);
+      if (!res.ok) return [];
+
+      const json = await res.json();
+      return json.data || [];
+    },
+    staleTime: 30_000,
+  });
+}
+
+async function sendBetRequest(url: string, method: string, body?: unknown): Promise<Bet | null> {
+  const res = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+  if (json.error) throw new Error(json.error);
+  return json.data ?? null;
+}
+
+/**
+ * Record a new lay. Invalidates every bets query on success.
+ */
+export function useCreateBet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bet: NewBet) => sendBetRequest('/api/bets', 'POST', bet),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bets'] }),
+  });
+}
+
+/**
+ * Update a recorded lay's status, matched stake, odds or notes.
+ */
+export function useUpdateBet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...updates }: { id: string; status?: BetStatus; matched_stake?: number; odds?: number; stake?: number; notes?: string | null }) =>
+      sendBetRequest(`/api/bets/${id}`, 'PATCH', updates),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bets'] }),
+  });
+}
+
+/**
+ * Delete a mistakenly recorded lay.
+ */
+export function useDeleteBet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => sendBetRequest(`/api/bets/${id}`, 'DELETE'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bets'] }),
+  });
+}
+
+/**
+ * Settle open lays against stored race results.
+ */
+export function useSettleBets() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (): Promise<{ settled: number; pending: number }> => {
+      const res = await fetch('/api/bets/settle', { method: 'POST' });
+      const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+      if (json.error) throw new Error(json.error);
+      return { settled: json.settled ?? 0, pending: json.pending ?? 0 };
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['bets'] }),
+  });
+}
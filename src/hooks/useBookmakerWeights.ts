@@ -0,0 +1,29 @@
+'use client';
+
+import { useMutation } from '@tanstack/react-query';
+import { BookmakerWeightReport } from '@/lib/consensus';
+import { DemarginMethod } from '@/lib/types';
+
+interface BookmakerWeightsRequest {
+  startDate: string;
+  endDate: string;
+  /** Score each book on de-margined prices, as the lay engine uses them */
+  demargin: DemarginMethod;
+}
+
+/**
+ * Hook to fit bookmaker consensus weights from stored history on demand.
+ */
+export function useBookmakerWeights() {
+  return useMutation({
+    mutationFn: async (request: BookmakerWeightsRequest): Promise<BookmakerWeightReport> => {
+      const params = new URLSearchParams({ ...request });
+      const res = await fetch(`/api/consensus/weights?${params}`);
+      const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+      if (json.error || !json.data) {
+        throw new Error(json.error || `Weight fit failed: HTTP ${res.status}`);
+      }
+      return json.data;
+    },
+  });
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useMutation } from '@tanstack/react-query';
+import { CalibrationPriceSource, CalibrationReport } from '@/lib/calibration';
+import { DemarginMethod } from '@/lib/types';
+
+interface CalibrationRequest {
+  startDate: string;
+  endDate: string;
+  priceSource: CalibrationPriceSource;
+  /** Fit on de-margined (fair) odds, as the lay engine uses them */
+  demargin: DemarginMethod;
+}
+
+/**
+ * Hook to fit model alpha/beta from stored history on demand.
+ */
+export function useCalibration() {
+  return useMutation({
+    mutationFn: async (request: CalibrationRequest): Promise<CalibrationReport> => {
+      const params = new URLSearchParams({ ...request });
+      const res = await fetch(`/api/calibration?${params}`);
+      const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+      if (json.error || !json.data) {
+        throw new Error(json.error || `Calibration failed: HTTP ${res.status}`);
+      }
+      return json.data;
+    },
+  });
+}
@@ -1,7 +1,8 @@
 'use client';
 
+import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { OddsApiEvent, Race, RunnerOdds, BookmakerPrice, OddsSnapshot, DashboardStats, RaceResult } from '@/lib/types';
+import { OddsApiEvent, Race, RunnerOdds, BookmakerPrice, DashboardStats, RaceResult, NonRunner } from '@/lib/types';
 import { UserSettings } from '@/lib/types';
 import {
   impliedProbability,
@@ -9,20 +10,129 @@ import {
   valueSignal,
   bookPercentage,
 } from '@/lib/calculations';
-import { evaluateRunner } from '@/lib/lay-engine';
-import { REFRESH_INTERVAL_MS } from '@/lib/constants';
+import { evaluateRunner, modelProbability, resolveModelParams } from '@/lib/lay-engine';
+import { placeProbabilities } from '@/lib/place-market';
+import { fairProbabilityMap } from '@/lib/demargin';
+import { weightedConsensus, newestPriceUpdate } from '@/lib/consensus';
+import { MovementEvent } from '@/lib/movement';
+import { sizeRaceLays } from '@/lib/portfolio';
+import { applyProfile } from '@/lib/profiles';
+import { applyRiskLimits, buildRiskState } from '@/lib/risk';
+import { applyRule4, combineRule4 } from '@/lib/rule4';
+import { REFRESH_INTERVAL_MS, BETFAIR_EXCHANGE_KEYS } from '@/lib/constants';
+import { useEffectiveBankroll } from './useBankroll';
+import { useBets } from './useBets';
+
+/** Race-level inputs to the lay engine, shared by every strategy profile */
+interface RaceEvaluation {
+  event: OddsApiEvent;
+  places: number | null;
+  fairConsensus: Map<string, number>;
+  fairMarket: Map<string, number>;
+  fieldSize: number;
+  minutesToOff: number;
+}
+
+/**
+ * Run the lay engine over a race's runners under one set of settings,
+ * then size the simultaneous lays jointly. Value signals and place
+ * probabilities follow the settings' thresholds and model parameters.
+ */
+function evaluateRace(pricedRunners: RunnerOdds[], settings: UserSettings, race: RaceEvaluation): RunnerOdds[] {
+  const { event, places, fairConsensus, fairMarket } = race;
+
+  // ---- PLACE MODEL: Harville place probabilities from model win probabilities ----
+  const modelParams = { alpha: settings.modelAlpha, beta: settings.modelBeta };
+  const resolved = resolveModelParams(event.race_meta ?? null, settings.modelSegments, modelParams);
+  const winProbs = new Map(
+    Array.from(fairConsensus.entries())
+      .filter(([, p]) => p > 0)
+      .map(([name, p]) => [name, modelProbability(1 / p, resolved.params)])
+  );
+  const placeProbs = places !== null ? placeProbabilities(winProbs, places) : new Map<string, number>();
+
+  // ---- LAY ENGINE: Betfair price vs Opening Average for model ----
+  // currentOdds = Betfair Exchange (what we bet at)
+  // initialOdds = Opening average (for price shortened check)
+  // averageOdds = Opening average (model fallback without a fair consensus)
+  const evaluatedRunners = pricedRunners.map((runner): RunnerOdds => {
+    const placeProbability = placeProbs.get(runner.runnerName) ?? null;
+    const fairProbability = fairConsensus.get(runner.runnerName) ?? null;
+    const fairMarketProbability = fairMarket.get(runner.runnerName) ?? null;
+    const signal =
+      runner.compressionPercent !== null
+        ? valueSignal(runner.compressionPercent, settings.thresholds)
+        : 'none';
+    const layDecision = evaluateRunner({
+      eventId: event.id,
+      runnerName: runner.runnerName,
+      initialOdds: runner.openingAverageOdds,
+      currentOdds: runner.betfairOdds,
+      averageOdds: runner.openingAverageOdds,
+      fairConsensusProb: fairProbability,
+      fairMarketProb: fairMarketProbability,
+      bankroll: settings.bankroll,
+      commission: settings.commission,
+      kellyMultiplier: settings.kellyMultiplier,
+      maxLiabilityPct: settings.maxLiabilityPct,
+      minStake: settings.minStake,
+      modelParams,
+      raceMeta: event.race_meta ?? null,
+      modelSegments: settings.modelSegments,
+      place:
+        places !== null && placeProbability !== null
+          ? { places, pPlace: placeProbability, placeOdds: runner.placeOdds }
+          : null,
+      movements: runner.movements,
+      movementConditions: settings.movementConditions,
+      strategy: settings.strategy,
+      fieldSize: race.fieldSize,
+      bookmakerCount: runner.bookmakerCount,
+      minutesToOff: race.minutesToOff,
+      valueSignal: signal,
+    });
+    return {
+      ...runner,
+      fairProbability: fairProbability !== null ? fairProbability * 100 : null,
+      fairMarketProbability: fairMarketProbability !== null ? fairMarketProbability * 100 : null,
+      valueSignal: signal,
+      placeProbability,
+      layDecision,
+    };
+  });
+
+  // Size simultaneous lays jointly — only one of the laid horses can win
+  return sizeRaceLays(evaluatedRunners, {
+    bankroll: settings.bankroll,
+    commission: settings.commission,
+    kellyMultiplier: settings.kellyMultiplier,
+    maxLiabilityPct: settings.maxLiabilityPct,
+    minStake: settings.minStake,
+  });
+}
 
 /**
  * Transform raw events into our Race domain model,
- * incorporating opening odds from snapshots.
+ * incorporating opening odds from snapshots, any non-runners and the
+ * price movements detected from the snapshot series.
  */
 function transformEvents(
   events: OddsApiEvent[],
   openingOdds: Map<string, number>,
   settings: UserSettings,
-  resultsMap: Map<string, { winner: string | null; positions: Map<string, string> }>
+  resultsMap: Map<string, { winner: string | null; positions: Map<string, string> }>,
+  nonRunnersMap: Map<string, NonRunner[]>,
+  movementsMap: Map<string, MovementEvent[]>,
+  now: Date
 ): Race[] {
   return events.map((event) => {
+    // Opening prices were set with the withdrawn horses in the field, so
+    // they are scaled by the race's combined Rule 4 deduction
+    const nonRunners = nonRunnersMap.get(event.id) ?? [];
+    const withdrawn = new Set(nonRunners.map((nr) => nr.runnerName));
+    const rule4 = combineRule4(nonRunners.map((nr) => nr.deduction));
+    const raceMovements = movementsMap.get(event.id) ?? [];
+
     // Collect all unique runner names across all bookmakers
     const runnerMap = new Map<string, BookmakerPrice[]>();
 
@@ -30,19 +140,24 @@ function transformEvents(
       for (const market of bookmaker.markets) {
         if (market.key !== 'h2h') continue;
         for (const outcome of market.outcomes) {
+          if (withdrawn.has(outcome.name)) continue;
           const existing = runnerMap.get(outcome.name) || [];
           existing.push({
             bookmaker: bookmaker.key,
             bookmakerTitle: bookmaker.title,
             price: outcome.price,
-            lastUpdate: bookmaker.last_update,
+            fractional: outcome.fractional,
+            lastUpdate: outcome.last_update ?? bookmaker.last_update,
           });
           runnerMap.set(outcome.name, existing);
         }
       }
     }
 
-    const runners: RunnerOdds[] = Array.from(runnerMap.entries()).map(
+    // Staleness is measured against the race's most recently updated price
+    const newestUpdate = newestPriceUpdate(Array.from(runnerMap.values()).flat());
+
+    const pricedRunners: RunnerOdds[] = Array.from(runnerMap.entries()).map(
       ([name, prices]) => {
         // Filter out placeholder entries (price <= 0) before finding best odds
         const realPrices = prices.filter((p) => p.price > 0);
@@ -53,28 +168,36 @@ function transformEvents(
         const worstPrice = sortedPrices[sortedPrices.length - 1] ?? null;
 
         // ---- BETFAIR EXCHANGE PRICE (where we actually place the lay bet) ----
-        // Match bookmaker key: "betfair_exchange" (from "Betfair Exchange".toLowerCase().replace(/\s+/g, '_'))
-        const betfairEntry = realPrices.find(
-          (p) => p.bookmaker === 'betfair_exchange' || p.bookmaker === 'betfair_ex'
-        );
-        const betfairOdds = betfairEntry?.price ?? null;
+        // With the exchange feed this is the best lay on offer (null when the
+        // runner is removed or nothing is offered); otherwise fall back to the
+        // Racing API's "Betfair Exchange" price
+        const exchangeRunner = event.exchange?.runners.find((r) => r.runnerName === name) ?? null;
+        const placeRunner = event.exchange_place?.runners.find((r) => r.runnerName === name) ?? null;
+        const betfairEntry = realPrices.find((p) => BETFAIR_EXCHANGE_KEYS.includes(p.bookmaker));
+        const betfairOdds = exchangeRunner
+          ? exchangeRunner.status === 'ACTIVE' ? exchangeRunner.bestLay : null
+          : betfairEntry?.price ?? null;
 
         // Best across all bookmakers (kept for reference)
         const bestCurrentOdds = bestPrice?.price ?? null;
 
-        // Current average (consensus) odds across ALL bookmakers
-        const currentAvgOdds =
-          realPrices.length > 0
-            ? realPrices.reduce((sum, p) => sum + p.price, 0) / realPrices.length
-            : null;
+        // Current consensus across ALL bookmakers: accuracy-weighted, in
+        // probability space, without stale or outlying prices
+        const consensus = weightedConsensus(realPrices, settings.bookmakerWeights, newestUpdate);
+        const currentAvgOdds = consensus.odds;
 
         // ---- OPENING AVERAGE (true market consensus for probability model) ----
         // Prefer Supabase historical average (all bookmakers at first snapshot),
         // then fall back to current average across all bookmakers as proxy
         const openingKey = `${event.id}::${name}`;
         const supabaseOpeningAvg = openingOdds.get(openingKey);
-        const openingAverageOdds = supabaseOpeningAvg ?? currentAvgOdds;
+        const unadjustedOpeningOdds = supabaseOpeningAvg ?? currentAvgOdds;
         const hasDbOpening = supabaseOpeningAvg !== undefined;
+        // Current prices already reflect the withdrawals; stored openings don't
+        const openingAverageOdds =
+          hasDbOpening && unadjustedOpeningOdds !== null
+            ? applyRule4(unadjustedOpeningOdds, rule4)
+            : unadjustedOpeningOdds;
 
         // ---- COMPRESSION: Betfair Exchange vs Opening Average ----
         const compression =
@@ -84,33 +207,12 @@ function transformEvents(
 
         const signal =
           compression !== null
-            ? valueSignal(compression, settings.thresholds)
+            ? valueSignal(compression.percent, settings.thresholds)
             : 'none';
 
-        // ---- LAY ENGINE: Betfair price vs Opening Average for model ----
-        // currentOdds = Betfair Exchange (what we bet at)
-        // initialOdds = Opening average (for price shortened check)
-        // averageOdds = Opening average (for model probability)
-        const layDecision = evaluateRunner({
-          eventId: event.id,
-          runnerName: name,
-          initialOdds: openingAverageOdds,
-          currentOdds: betfairOdds,
-          averageOdds: openingAverageOdds,
-          bankroll: settings.bankroll,
-          commission: settings.commission,
-          kellyMultiplier: settings.kellyMultiplier,
-          maxLiabilityPct: settings.maxLiabilityPct,
-          minStake: settings.minStake,
-          modelParams: {
-            alpha: settings.modelAlpha,
-            beta: settings.modelBeta,
-          },
-        });
-
         // Bookmaker count and spread (excluding Betfair Exchange and placeholders)
         const nonExchangePrices = realPrices.filter(
-          (p) => p.bookmaker !== 'betfair_exchange' && p.bookmaker !== 'betfair_ex'
+          (p) => !BETFAIR_EXCHANGE_KEYS.includes(p.bookmaker)
         );
         const bookmakerCount = nonExchangePrices.length;
         const oddsSpread: [number, number] | null =
@@ -125,26 +227,80 @@ function transformEvents(
           runnerName: name,
           bookmakerOdds: prices,
           betfairOdds,
+          exchange: exchangeRunner,
           bestCurrentOdds,
           bestBookmaker: bestPrice?.bookmakerTitle ?? null,
           worstBookmaker: worstPrice?.bookmakerTitle ?? null,
           openingAverageOdds,
+          unadjustedOpeningOdds,
           initialOdds: openingAverageOdds, // legacy compat
           hasDbOpening,
           averageOdds: currentAvgOdds,
+          consensus: consensus.contributors,
           bookmakerCount,
           oddsSpread,
           impliedProbability:
             openingAverageOdds !== null ? impliedProbability(openingAverageOdds) * 100 : null,
           currentImpliedProbability:
             betfairOdds !== null ? impliedProbability(betfairOdds) * 100 : null,
-          compressionPercent: compression,
+          fairProbability: null,
+          fairMarketProbability: null,
+          compressionPercent: compression?.percent ?? null,
+          compressionTicks: compression?.ticks ?? null,
           valueSignal: signal,
-          layDecision,
+          placeOdds: placeRunner?.status === 'ACTIVE' ? placeRunner.bestLay : null,
+          placeProbability: null,
+          movements: raceMovements.filter((m) => m.runnerName === name),
+          layDecision: null,
+          profileDecisions: [],
         };
       }
     );
 
+    // ---- FAIR PROBABILITIES: overround removed across the field ----
+    // Consensus from the opening averages, market from the exchange prices
+    const fairConsensus = fairProbabilityMap(
+      new Map(
+        pricedRunners
+          .filter((r) => r.openingAverageOdds !== null)
+          .map((r) => [r.runnerName, r.openingAverageOdds!])
+      ),
+      settings.demarginMethod
+    );
+    const fairMarket = fairProbabilityMap(
+      new Map(
+        pricedRunners
+          .filter((r) => r.betfairOdds !== null)
+          .map((r) => [r.runnerName, r.betfairOdds!])
+      ),
+      settings.demarginMethod
+    );
+
+    // ---- LAY ENGINE: under the settings, then under each strategy profile ----
+    // Profile lays are sized within the race only; the cross-race risk
+    // limits apply to the settings' own recommendations
+    const places = event.exchange_place?.numberOfWinners ?? event.each_way?.places ?? null;
+    const race: RaceEvaluation = {
+      event,
+      places,
+      fairConsensus,
+      fairMarket,
+      fieldSize: event.race_meta?.fieldSize ?? pricedRunners.length,
+      minutesToOff: (new Date(event.commence_time).getTime() - now.getTime()) / 60_000,
+    };
+    const profileRuns = settings.profiles.map((profile) => ({
+      profile,
+      runners: evaluateRace(pricedRunners, applyProfile(settings, profile), race),
+    }));
+    const runners = evaluateRace(pricedRunners, settings, race).map((runner, i): RunnerOdds => ({
+      ...runner,
+      profileDecisions: profileRuns.map(({ profile, runners: profiled }) => ({
+        profileId: profile.id,
+        profileName: profile.name,
+        decision: profiled[i].layDecision,
+      })),
+    }));
+
     // Use Betfair Exchange odds for book percentage when available, fall back to best odds
     const allBetfairOdds = runners
       .map((r) => r.betfairOdds ?? r.bestCurrentOdds)
@@ -176,63 +332,39 @@ function transformEvents(
         allBetfairOdds.length > 0 ? bookPercentage(allBetfairOdds) : null,
       withinFieldSizeFilter: withinFilter,
       result,
+      meta: event.race_meta ?? null,
+      nonRunners,
+      rule4Deduction: rule4,
+      places,
+      eachWay: event.each_way ?? null,
     };
   });
 }
 
 /**
- * Save current odds as snapshots to Supabase via our API route.
- * Returns the snapshot result for status reporting.
+ * When the server-side collector last stored a snapshot.
  */
-async function saveSnapshots(events: OddsApiEvent[]): Promise<{ saved: number; error: string | null }> {
-  const snapshots: OddsSnapshot[] = [];
-
-  for (const event of events) {
-    for (const bookmaker of event.bookmakers) {
-      for (const market of bookmaker.markets) {
-        if (market.key !== 'h2h') continue;
-        for (const outcome of market.outcomes) {
-          // Skip placeholder entries with no real odds
-          if (outcome.price <= 0) continue;
-          snapshots.push({
-            event_id: event.id,
-            event_name: event.home_team || event.sport_title || 'Unknown',
-            sport_key: event.sport_key,
-            commence_time: event.commence_time,
-            bookmaker: bookmaker.key,
-            runner_name: outcome.name,
-            back_price: outcome.price,
-            lay_price: null,
-            is_opening: false, // The API route will determine this
-          });
-        }
-      }
-    }
-  }
-
-  if (snapshots.length === 0) return { saved: 0, error: null };
-
+async function fetchLastSnapshotTime(): Promise<string | null> {
   try {
-    const res = await fetch('/api/snapshot', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ snapshots }),
-    });
+    const res = await fetch('/api/collect/status');
+    if (!res.ok) return null;
     const json = await res.json();
-    return { saved: json.saved || 0, error: json.error || null };
-  } catch (err) {
-    console.error('Failed to save snapshots:', err);
-    return { saved: 0, error: String(err) };
+    return json.lastSnapshotAt ?? null;
+  } catch {
+    return null;
   }
 }
 
 /**
  * Fetch opening odds from Supabase for all event+runner combos.
- * Returns the AVERAGE price across all bookmakers at the first snapshot,
- * which represents the true market consensus for our probability model.
- * Also returns whether Supabase responded successfully (connectivity check).
+ * Returns the weighted consensus across all bookmakers at the first snapshot
+ * (see consensus.ts), which represents the true market consensus for our
+ * probability model. Also returns whether Supabase responded successfully
+ * (connectivity check).
  */
-async function fetchOpeningOdds(): Promise<{ data: Map<string, number>; connected: boolean }> {
+async function fetchOpeningOdds(
+  weights: Record<string, number>
+): Promise<{ data: Map<string, number>; connected: boolean }> {
   const map = new Map<string, number>();
 
   try {
@@ -243,22 +375,24 @@ async function fetchOpeningOdds(): Promise<{ data: Map<string, number>; connecte
 
     if (json.data) {
       // Accumulate all opening prices per event+runner for averaging
-      const pricesMap = new Map<string, number[]>();
+      const pricesMap = new Map<string, BookmakerPrice[]>();
       for (const row of json.data) {
         if (row.is_opening && row.back_price) {
           const key = `${row.event_id}::${row.runner_name}`;
           const price = parseFloat(row.back_price);
           if (isNaN(price) || price <= 0) continue;
+          const bookmaker = String(row.bookmaker ?? 'unknown');
           const existing = pricesMap.get(key) || [];
-          existing.push(price);
+          existing.push({ bookmaker, bookmakerTitle: bookmaker, price, lastUpdate: '' });
           pricesMap.set(key, existing);
         }
       }
 
-      // Compute average opening price per event+runner
+      // Consensus opening price per event+runner (openings are all from the
+      // first snapshot, so only outliers are dropped)
       for (const [key, prices] of pricesMap) {
-        const avg = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-        map.set(key, avg);
+        const { odds } = weightedConsensus(prices, weights);
+        if (odds !== null) map.set(key, odds);
       }
     }
 
@@ -270,16 +404,62 @@ async function fetchOpeningOdds(): Promise<{ data: Map<string, number>; connecte
 }
 
 /**
- * Fetch racing events from The Racing API.
+ * Fetch withdrawn runners (with Rule 4 deductions), grouped by event.
+ */
+async function fetchNonRunners(): Promise<Map<string, NonRunner[]>> {
+  const map = new Map<string, NonRunner[]>();
+
+  try {
+    const res = await fetch('/api/non-runners');
+    if (!res.ok) return map;
+    const json = await res.json();
+    if (!json.data || !Array.isArray(json.data)) return map;
+
+    for (const nonRunner of json.data as NonRunner[]) {
+      map.set(nonRunner.eventId, [...(map.get(nonRunner.eventId) ?? []), nonRunner]);
+    }
+  } catch {
+    // Non-runners not available — openings stay unadjusted
+  }
+
+  return map;
+}
+
+/**
+ * Fetch price movement events (steam, drift, reversal, late money), grouped by event.
+ */
+async function fetchMovements(): Promise<Map<string, MovementEvent[]>> {
+  const map = new Map<string, MovementEvent[]>();
+
+  try {
+    const res = await fetch('/api/movements');
+    if (!res.ok) return map;
+    const json = await res.json();
+    if (!json.data || !Array.isArray(json.data)) return map;
+
+    for (const movement of json.data as MovementEvent[]) {
+      map.set(movement.eventId, [...(map.get(movement.eventId) ?? []), movement]);
+    }
+  } catch {
+    // Movements not available — runners show no movement badges
+  }
+
+  return map;
+}
+
+/**
+ * Fetch racing events from the odds provider (via /api/racing).
  * Fetches both today and tomorrow to capture early opening odds.
+ * Also returns the replay time when the server is replaying fixtures.
  */
-async function fetchEvents(): Promise<OddsApiEvent[]> {
+async function fetchEvents(): Promise<{ events: OddsApiEvent[]; replayTime: string | null }> {
   const [todayRes, tomorrowRes] = await Promise.allSettled([
     fetch('/api/racing?day=today'),
     fetch('/api/racing?day=tomorrow'),
   ]);
 
   const allEvents: OddsApiEvent[] = [];
+  let replayTime: string | null = null;
 
   // Today's races
   if (todayRes.status === 'fulfilled' && todayRes.value.ok) {
@@ -287,6 +467,7 @@ async function fetchEvents(): Promise<OddsApiEvent[]> {
     if (!json.error && json.data) {
       allEvents.push(...json.data);
     }
+    replayTime = json.replayTime ?? null;
   } else if (todayRes.status === 'fulfilled') {
     // If today fetch failed with a response, throw to show error
     const json = await todayRes.value.json().catch(() => ({ error: `HTTP ${todayRes.value.status}` }));
@@ -307,7 +488,7 @@ async function fetchEvents(): Promise<OddsApiEvent[]> {
     }
   }
 
-  return allEvents;
+  return { events: allEvents, replayTime };
 }
 
 /**
@@ -352,29 +533,60 @@ async function fetchRaceResults(): Promise<Map<string, { winner: string | null;
 }
 
 /**
- * Main hook: fetches odds from Racing API, saves snapshots, and transforms data.
+ * Main hook: fetches odds from Racing API and transforms data.
+ * Kelly stakes are sized off the effective bankroll for the current bankroll mode,
+ * then checked against the cross-race risk limits using the bet ledger
+ * (re-applied whenever the ledger changes).
  */
-export function useOdds(settings: UserSettings) {
-  return useQuery({
-    queryKey: ['odds', 'horse_racing', settings.thresholds, settings.fieldSizeMin, settings.fieldSizeMax],
+export function useOdds(userSettings: UserSettings) {
+  const { bankroll, state: bankrollState, ready } = useEffectiveBankroll(userSettings);
+  const { data: bets } = useBets();
+  const settings = { ...userSettings, bankroll };
+  // Percentage risk limits are measured before open liability is deducted
+  const riskBankroll =
+    userSettings.bankrollMode === 'dynamic' && bankrollState ? bankrollState.balance : userSettings.bankroll;
+
+  const query = useQuery({
+    queryKey: [
+      'odds',
+      'horse_racing',
+      // Stakes are sized inside the query, so anything that changes them refetches
+      userSettings.bankrollMode,
+      settings.bankroll,
+      settings.kellyMultiplier,
+      settings.maxLiabilityPct,
+      settings.commission,
+      settings.minStake,
+      settings.thresholds,
+      settings.fieldSizeMin,
+      settings.fieldSizeMax,
+      settings.bookmakerWeights,
+      settings.demarginMethod,
+      settings.modelAlpha,
+      settings.modelBeta,
+      settings.modelSegments,
+      settings.movementConditions,
+      settings.strategy,
+      settings.profiles,
+    ],
     queryFn: async () => {
-      const events = await fetchEvents();
-
-      // Save snapshots to Supabase (non-blocking, but capture result)
-      let snapshotStatus = { saved: 0, error: null as string | null };
-      if (events.length > 0) {
-        snapshotStatus = await saveSnapshots(events);
-      }
-
-      // Fetch opening odds and race results in parallel
-      const [openingResult, resultsMap] = await Promise.all([
-        fetchOpeningOdds(),
+      const { events, replayTime } = await fetchEvents();
+      // Days and time to off follow the replay clock when the server is replaying fixtures
+      const now = replayTime ? new Date(replayTime) : new Date();
+
+      // Snapshots are written by the server-side collector (/api/collect);
+      // the dashboard only reads them
+      const [openingResult, resultsMap, lastSnapshotAt, nonRunners, movements] = await Promise.all([
+        fetchOpeningOdds(settings.bookmakerWeights),
         fetchRaceResults(),
+        fetchLastSnapshotTime(),
+        fetchNonRunners(),
+        fetchMovements(),
       ]);
       const openingOdds = openingResult.data;
 
-      // Transform into our domain model
-      const races = transformEvents(events, openingOdds, settings, resultsMap);
+      // Transform into our domain model (risk limits are applied below)
+      const races = transformEvents(events, openingOdds, settings, resultsMap, nonRunners, movements, now);
 
       // Sort: races within field-size filter first, then by commence time
       races.sort((a, b) => {
@@ -384,38 +596,66 @@ export function useOdds(settings: UserSettings) {
         return new Date(a.commenceTime).getTime() - new Date(b.commenceTime).getTime();
       });
 
-      // Calculate dashboard stats
-      const layAlerts = races
-        .flatMap((r) => r.runners)
-        .filter((r) => r.layDecision?.placeLay).length;
-      const valueAlerts = layAlerts || races
-        .flatMap((r) => r.runners)
-        .filter((r) => r.valueSignal !== 'none').length;
-
-      const todayRaces = races.filter((r) => {
-        const raceDate = new Date(r.commenceTime).toDateString();
-        return raceDate === new Date().toDateString();
-      });
-      const tomorrowRaces = races.filter((r) => {
-        const raceDate = new Date(r.commenceTime).toDateString();
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        return raceDate === tomorrow.toDateString();
-      });
+      // Calculate dashboard stats (value alerts follow the risk limits below)
+      const tomorrow = new Date(now);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      const todayRaces = races.filter(
+        (r) => new Date(r.commenceTime).toDateString() === now.toDateString()
+      );
+      const tomorrowRaces = races.filter(
+        (r) => new Date(r.commenceTime).toDateString() === tomorrow.toDateString()
+      );
 
       const stats: DashboardStats = {
         racesToday: todayRaces.length,
         racesTomorrow: tomorrowRaces.length,
-        valueAlerts,
-        snapshotsSaved: snapshotStatus.saved,
+        valueAlerts: 0,
+        lastSnapshotAt,
         supabaseConnected: openingResult.connected,
         openingOddsCount: openingOdds.size,
         lastRefreshed: new Date().toISOString(),
+        replayTime,
       };
 
       return { races, stats };
     },
+    enabled: ready && bets !== undefined,
     refetchInterval: REFRESH_INTERVAL_MS,
     staleTime: 30_000,
   });
+
+  // The cross-race risk limits depend on the bet ledger, so they are applied
+  // outside the query: a recorded lay updates the recommendations straight
+  // away rather than at the next refetch
+  const { maxTotalLiabilityPct, maxMeetingLiabilityPct, maxLaysPerDay, dailyStopLossPct, minStake } = userSettings;
+  const data = useMemo(() => {
+    if (!query.data || !bets) return undefined;
+
+    const races = applyRiskLimits(
+      query.data.races,
+      buildRiskState(bets),
+      { maxTotalLiabilityPct, maxMeetingLiabilityPct, maxLaysPerDay, dailyStopLossPct, minStake },
+      riskBankroll
+    );
+
+    const layAlerts = races
+      .flatMap((r) => r.runners)
+      .filter((r) => r.layDecision?.placeLay).length;
+    const valueAlerts = layAlerts || races
+      .flatMap((r) => r.runners)
+      .filter((r) => r.valueSignal !== 'none').length;
+
+    return { races, stats: { ...query.data.stats, valueAlerts } };
+  }, [
+    query.data,
+    bets,
+    riskBankroll,
+    maxTotalLiabilityPct,
+    maxMeetingLiabilityPct,
+    maxLaysPerDay,
+    dailyStopLossPct,
+    minStake,
+  ]);
+
+  return { ...query, data };
 }
@@ -0,0 +1,29 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { RaceRecord, RunnerRecord } from '@/lib/types';
+
+export interface StoredRacecard {
+  race: RaceRecord;
+  runners: RunnerRecord[];
+}
+
+/**
+ * Hook to fetch the stored racecard (race metadata + runner details) for an event.
+ */
+export function useRacecard(eventId: string | null) {
+  return useQuery({
+    queryKey: ['racecard', eventId],
+    queryFn: async (): Promise<StoredRacecard | null> => {
+      if (!eventId) return null;
+
+      const res = await fetch(`/api/racecard?${new URLSearchParams({ eventId })}`);
+      if (!res.ok) return null;
+
+      const json = await res.json();
+      return json.data || null;
+    },
+    enabled: Boolean(eventId),
+    staleTime: 60_000,
+  });
+}
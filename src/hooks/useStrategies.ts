@@ -0,0 +1,55 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { SavedStrategy, StrategyGroup } from '@/lib/strategy';
+
+/**
+ * Hook to fetch the shared library of saved lay strategies.
+ */
+export function useStrategies() {
+  return useQuery({
+    queryKey: ['strategies'],
+    queryFn: async (): Promise<SavedStrategy[]> => {
+      const res = await fetch('/api/strategies');
+      if (!res.ok) return [];
+
+      const json = await res.json();
+      return json.data || [];
+    },
+    staleTime: 60_000,
+  });
+}
+
+async function sendStrategyRequest(url: string, method: string, body?: unknown): Promise<SavedStrategy | null> {
+  const res = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const json = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+  if (json.error) throw new Error(json.error);
+  return json.data ?? null;
+}
+
+/**
+ * Save a strategy to the library (replaces one with the same name).
+ */
+export function useSaveStrategy() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (strategy: { name: string; definition: StrategyGroup }) =>
+      sendStrategyRequest('/api/strategies', 'POST', strategy),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['strategies'] }),
+  });
+}
+
+/**
+ * Remove a strategy from the library.
+ */
+export function useDeleteStrategy() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => sendStrategyRequest(`/api/strategies/${id}`, 'DELETE'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['strategies'] }),
+  });
+}
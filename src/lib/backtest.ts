@@ -0,0 +1,484 @@
+/**
+ * Historical Backtester
+ *
+ * Replays stored odds snapshots through the live lay engine and settles
+ * every simulated lay against the official result.
+ *
+ * For each race (in commence-time order):
+ * - Snapshots are grouped into collection ticks by snapshot_time
+ * - At each tick before the off, every runner is evaluated with the same
+ *   inputs the dashboard uses (opening average vs current Betfair price)
+ * - The first tick where evaluateRunner says PLACE LAY records the bet,
+ *   sized by kellyLay against the bankroll at the start of the race
+ * - After the race the bets are settled and the bankroll is updated
+ *
+ * Races are treated as sequential: a lay in a later race never sees the
+ * outcome of an earlier race it overlaps with in real time.
+ *
+ * Each strategy profile in the settings is replayed over the same
+ * snapshots and results, each with its own bankroll starting from the
+ * same amount, so the summaries can be compared directly.
+ */
+
+import { BookmakerPrice, OddsSnapshot, RaceMeta, UserSettings, ValueSignalLevel } from './types';
+import { evaluateRunner, profitIfLose, lossIfWin } from './lay-engine';
+import { priceCompression, valueSignal } from './calculations';
+import { BETFAIR_EXCHANGE_KEYS } from './constants';
+import { fairProbabilityMap } from './demargin';
+import { weightedConsensus } from './consensus';
+import { detectMovements, MovementEvent } from './movement';
+import { applyProfile } from './profiles';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Result lookup for a race: winner + all finishing positions by horse */
+export interface BacktestRaceResult {
+  winner: string | null;
+  positions: Map<string, string>;
+}
+
+export type BacktestOutcome = 'won' | 'lost' | 'void' | 'unsettled';
+
+export interface BacktestBet {
+  eventId: string;
+  eventName: string;
+  commenceTime: string;
+  runnerName: string;
+  /** Snapshot time at which the lay was triggered */
+  placedAt: string;
+  layOdds: number;
+  openingAverageOdds: number;
+  compressionPercent: number;
+  valueSignal: ValueSignalLevel;
+  pModel: number;
+  edge: number;
+  stake: number;
+  liability: number;
+  /** From the layer's side: 'won' = horse lost, 'lost' = horse won */
+  outcome: BacktestOutcome;
+  pnl: number;
+}
+
+export interface BacktestRaceLedger {
+  eventId: string;
+  eventName: string;
+  commenceTime: string;
+  /** Race day (YYYY-MM-DD, UTC) */
+  date: string;
+  winner: string | null;
+  hasResult: boolean;
+  bets: BacktestBet[];
+  liability: number;
+  pnl: number;
+  /** P&L as % of liability risked */
+  roi: number | null;
+  bankrollAfter: number;
+}
+
+export interface BacktestDayLedger {
+  date: string;
+  races: number;
+  bets: number;
+  liability: number;
+  pnl: number;
+  roi: number | null;
+  bankrollEnd: number;
+}
+
+export interface BankrollPoint {
+  time: string;
+  label: string;
+  bankroll: number;
+}
+
+export interface BacktestSummary {
+  startingBankroll: number;
+  endingBankroll: number;
+  racesReplayed: number;
+  racesWithResults: number;
+  bets: number;
+  /** Settled lays where the horse lost (we won) */
+  betsWon: number;
+  /** Settled lays where the horse won (we lost) */
+  betsLost: number;
+  betsVoid: number;
+  strikeRate: number | null;
+  totalLiability: number;
+  totalPnl: number;
+  roi: number | null;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+}
+
+/** A strategy profile's result over the same snapshots */
+export interface ProfileBacktest {
+  profileId: string;
+  profileName: string;
+  summary: BacktestSummary;
+}
+
+export interface BacktestReport {
+  summary: BacktestSummary;
+  races: BacktestRaceLedger[];
+  days: BacktestDayLedger[];
+  curve: BankrollPoint[];
+  /** One entry per strategy profile in the settings */
+  profiles: ProfileBacktest[];
+}
+
+// ============================================================
+// Replay
+// ============================================================
+
+/**
+ * Run a backtest over stored snapshots.
+ *
+ * @param snapshots - All snapshots for the period (any order)
+ * @param results - race_id → result, as built by buildResultsMap
+ * @param settings - Staking and model settings to replay with (and the
+ *   strategy profiles to compare against them)
+ * @param raceMeta - Optional event ID → racecard attributes for model segments
+ */
+export function runBacktest(
+  snapshots: OddsSnapshot[],
+  results: Map<string, BacktestRaceResult>,
+  settings: UserSettings,
+  raceMeta: Map<string, RaceMeta> = new Map()
+): BacktestReport {
+  const byEvent = new Map<string, OddsSnapshot[]>();
+  for (const snap of snapshots) {
+    const existing = byEvent.get(snap.event_id) || [];
+    existing.push(snap);
+    byEvent.set(snap.event_id, existing);
+  }
+
+  const eventIds = Array.from(byEvent.keys()).sort(
+    (a, b) =>
+      new Date(byEvent.get(a)![0].commence_time).getTime() -
+      new Date(byEvent.get(b)![0].commence_time).getTime()
+  );
+
+  let bankroll = settings.bankroll;
+  const races: BacktestRaceLedger[] = [];
+  const curve: BankrollPoint[] = [
+    { time: '', label: 'Start', bankroll: round2(bankroll) },
+  ];
+
+  for (const eventId of eventIds) {
+    const eventSnaps = byEvent.get(eventId)!;
+    const first = eventSnaps[0];
+    const result = results.get(eventId) ?? null;
+    const hasResult = result !== null && result.positions.size > 0;
+
+    const bets = replayRace(eventSnaps, bankroll, settings, raceMeta.get(eventId) ?? null).map((bet) =>
+      settleBet(bet, hasResult ? result : null, settings.commission)
+    );
+
+    const settled = bets.filter((b) => b.outcome !== 'unsettled');
+    const liability = sum(settled.filter((b) => b.outcome !== 'void').map((b) => b.liability));
+    const pnl = sum(settled.map((b) => b.pnl));
+    bankroll += pnl;
+
+    races.push({
+      eventId,
+      eventName: first.event_name,
+      commenceTime: first.commence_time,
+      date: first.commence_time.slice(0, 10),
+      winner: result?.winner ?? null,
+      hasResult,
+      bets,
+      liability: round2(liability),
+      pnl: round2(pnl),
+      roi: liability > 0 ? (pnl / liability) * 100 : null,
+      bankrollAfter: round2(bankroll),
+    });
+
+    if (settled.length > 0) {
+      curve.push({
+        time: first.commence_time,
+        label: first.event_name,
+        bankroll: round2(bankroll),
+      });
+    }
+  }
+
+  const profiles = settings.profiles.map((profile) => ({
+    profileId: profile.id,
+    profileName: profile.name,
+    summary: runBacktest(snapshots, results, { ...applyProfile(settings, profile), profiles: [] }, raceMeta).summary,
+  }));
+
+  return {
+    summary: summarise(races, curve, settings.bankroll, bankroll),
+    races,
+    days: buildDayLedger(races),
+    curve,
+    profiles,
+  };
+}
+
+/**
+ * Replay a single race's snapshots tick by tick and return the lays
+ * the engine would have placed (unsettled).
+ */
+function replayRace(
+  snaps: OddsSnapshot[],
+  bankroll: number,
+  settings: UserSettings,
+  meta: RaceMeta | null
+): BacktestBet[] {
+  const sorted = [...snaps].sort((a, b) => snapTime(a) - snapTime(b));
+  const commence = new Date(sorted[0].commence_time).getTime();
+  const openingAverages = buildOpeningAverages(sorted, settings.bookmakerWeights);
+  const fairConsensus = fairProbabilityMap(openingAverages, settings.demarginMethod);
+
+  const fieldSize = meta?.fieldSize ?? openingAverages.size;
+
+  // Latest Betfair price per runner as the replay advances, and the
+  // bookmakers that have priced each runner so far
+  const betfairPrices = new Map<string, number>();
+  const bookmakers = new Map<string, Set<string>>();
+  const laid = new Map<string, BacktestBet>();
+
+  let i = 0;
+  while (i < sorted.length) {
+    const tickTime = snapTime(sorted[i]);
+    if (tickTime >= commence) break;
+
+    // Apply every snapshot from this collection tick
+    while (i < sorted.length && snapTime(sorted[i]) === tickTime) {
+      const snap = sorted[i];
+      // Lay at the stored best lay; older rows only have the back price
+      const layPrice = snap.lay_price ?? snap.back_price;
+      if (BETFAIR_EXCHANGE_KEYS.includes(snap.bookmaker) && layPrice !== null) {
+        betfairPrices.set(snap.runner_name, layPrice);
+      } else if (!BETFAIR_EXCHANGE_KEYS.includes(snap.bookmaker) && snap.back_price !== null) {
+        const books = bookmakers.get(snap.runner_name) ?? new Set<string>();
+        books.add(snap.bookmaker);
+        bookmakers.set(snap.runner_name, books);
+      }
+      i++;
+    }
+
+    const fairMarket = fairProbabilityMap(betfairPrices, settings.demarginMethod);
+    // Movements as they stood at this tick (only needed for movement conditions)
+    const movements: MovementEvent[] =
+      settings.movementConditions.length > 0 ? detectMovements(sorted.slice(0, i)) : [];
+
+    for (const [runnerName, currentOdds] of betfairPrices) {
+      if (laid.has(runnerName)) continue;
+      const openingAvg = openingAverages.get(runnerName) ?? null;
+      if (openingAvg === null) continue;
+
+      const compression = priceCompression(openingAvg, currentOdds);
+      const signal = valueSignal(compression.percent, settings.thresholds);
+
+      const decision = evaluateRunner({
+        eventId: sorted[0].event_id,
+        runnerName,
+        initialOdds: openingAvg,
+        currentOdds,
+        averageOdds: openingAvg,
+        fairConsensusProb: fairConsensus.get(runnerName) ?? null,
+        fairMarketProb: fairMarket.get(runnerName) ?? null,
+        bankroll,
+        commission: settings.commission,
+        kellyMultiplier: settings.kellyMultiplier,
+        maxLiabilityPct: settings.maxLiabilityPct,
+        minStake: settings.minStake,
+        modelParams: { alpha: settings.modelAlpha, beta: settings.modelBeta },
+        raceMeta: meta,
+        modelSegments: settings.modelSegments,
+        movements: movements.filter((m) => m.runnerName === runnerName),
+        movementConditions: settings.movementConditions,
+        strategy: settings.strategy,
+        fieldSize,
+        bookmakerCount: bookmakers.get(runnerName)?.size ?? 0,
+        minutesToOff: (commence - tickTime) / 60_000,
+        valueSignal: signal,
+      });
+
+      const kelly = decision.kelly;
+      // A stake below the exchange minimum could not have been placed
+      if (!decision.placeLay || !kelly || kelly.belowMinStake) continue;
+
+      laid.set(runnerName, {
+        eventId: sorted[0].event_id,
+        eventName: sorted[0].event_name,
+        commenceTime: sorted[0].commence_time,
+        runnerName,
+        placedAt: new Date(tickTime).toISOString(),
+        layOdds: decision.layPrice ?? currentOdds,
+        openingAverageOdds: round2(openingAvg),
+        compressionPercent: round2(compression.percent),
+        valueSignal: signal,
+        pModel: decision.pModel ?? 0,
+        edge: decision.edge ?? 0,
+        stake: kelly.layStake,
+        liability: kelly.liability,
+        outcome: 'unsettled',
+        pnl: 0,
+      });
+    }
+  }
+
+  return Array.from(laid.values());
+}
+
+/**
+ * Opening consensus per runner: the weighted consensus (see consensus.ts)
+ * of the prices flagged is_opening, falling back to each bookmaker's first
+ * captured price when a runner has no opening flag (e.g. rows written
+ * before the flag existed).
+ */
+export function buildOpeningAverages(
+  sorted: OddsSnapshot[],
+  weights: Record<string, number> = {}
+): Map<string, number> {
+  const flagged = new Map<string, BookmakerPrice[]>();
+  const firstSeen = new Map<string, Map<string, number>>();
+
+  for (const snap of sorted) {
+    if (snap.back_price === null) continue;
+    if (snap.is_opening) {
+      const existing = flagged.get(snap.runner_name) || [];
+      existing.push(toBookmakerPrice(snap.bookmaker, snap.back_price));
+      flagged.set(snap.runner_name, existing);
+    }
+    const books = firstSeen.get(snap.runner_name) || new Map<string, number>();
+    if (!books.has(snap.bookmaker)) books.set(snap.bookmaker, snap.back_price);
+    firstSeen.set(snap.runner_name, books);
+  }
+
+  const averages = new Map<string, number>();
+  for (const [runner, books] of firstSeen) {
+    const prices =
+      flagged.get(runner) ??
+      Array.from(books.entries()).map(([bookmaker, price]) => toBookmakerPrice(bookmaker, price));
+    const { odds } = weightedConsensus(prices, weights);
+    if (odds !== null) averages.set(runner, odds);
+  }
+  return averages;
+}
+
+function toBookmakerPrice(bookmaker: string, price: number): BookmakerPrice {
+  return { bookmaker, bookmakerTitle: bookmaker, price, lastUpdate: '' };
+}
+
+/**
+ * Settle a simulated lay against the race result.
+ * A runner missing from the result (or marked NR) is treated as a non-runner
+ * and voided; races with no result stay unsettled.
+ */
+function settleBet(
+  bet: BacktestBet,
+  result: BacktestRaceResult | null,
+  commission: number
+): BacktestBet {
+  if (!result) return bet;
+
+  const position = result.positions.get(bet.runnerName);
+  if (!position || position.toUpperCase() === 'NR') {
+    return { ...bet, outcome: 'void', pnl: 0 };
+  }
+
+  if (position === '1') {
+    return { ...bet, outcome: 'lost', pnl: -round2(lossIfWin(bet.stake, bet.layOdds)) };
+  }
+
+  return { ...bet, outcome: 'won', pnl: round2(profitIfLose(bet.stake, commission)) };
+}
+
+// ============================================================
+// Aggregation
+// ============================================================
+
+function buildDayLedger(races: BacktestRaceLedger[]): BacktestDayLedger[] {
+  const days = new Map<string, BacktestDayLedger>();
+
+  for (const race of races) {
+    const day = days.get(race.date) ?? {
+      date: race.date,
+      races: 0,
+      bets: 0,
+      liability: 0,
+      pnl: 0,
+      roi: null,
+      bankrollEnd: race.bankrollAfter,
+    };
+    day.races += 1;
+    day.bets += race.bets.length;
+    day.liability += race.liability;
+    day.pnl += race.pnl;
+    day.bankrollEnd = race.bankrollAfter;
+    days.set(race.date, day);
+  }
+
+  return Array.from(days.values()).map((day) => ({
+    ...day,
+    liability: round2(day.liability),
+    pnl: round2(day.pnl),
+    roi: day.liability > 0 ? (day.pnl / day.liability) * 100 : null,
+  }));
+}
+
+function summarise(
+  races: BacktestRaceLedger[],
+  curve: BankrollPoint[],
+  startingBankroll: number,
+  endingBankroll: number
+): BacktestSummary {
+  const bets = races.flatMap((r) => r.bets);
+  const betsWon = bets.filter((b) => b.outcome === 'won').length;
+  const betsLost = bets.filter((b) => b.outcome === 'lost').length;
+  const totalLiability = sum(races.map((r) => r.liability));
+  const totalPnl = sum(races.map((r) => r.pnl));
+
+  // Max drawdown: largest peak-to-trough fall along the bankroll curve
+  let peak = curve[0]?.bankroll ?? startingBankroll;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const point of curve) {
+    if (point.bankroll > peak) peak = point.bankroll;
+    const drawdown = peak - point.bankroll;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPct = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+  }
+
+  return {
+    startingBankroll: round2(startingBankroll),
+    endingBankroll: round2(endingBankroll),
+    racesReplayed: races.length,
+    racesWithResults: races.filter((r) => r.hasResult).length,
+    bets: bets.length,
+    betsWon,
+    betsLost,
+    betsVoid: bets.filter((b) => b.outcome === 'void').length,
+    strikeRate: betsWon + betsLost > 0 ? (betsWon / (betsWon + betsLost)) * 100 : null,
+    totalLiability: round2(totalLiability),
+    totalPnl: round2(totalPnl),
+    roi: totalLiability > 0 ? (totalPnl / totalLiability) * 100 : null,
+    maxDrawdown: round2(maxDrawdown),
+    maxDrawdownPct: round2(maxDrawdownPct),
+  };
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function snapTime(snap: OddsSnapshot): number {
+  return new Date(snap.snapshot_time || snap.created_at || snap.commence_time).getTime();
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,68 @@
+import { BankrollTransaction, Bet, UserSettings } from './types';
+import { isOpenBet } from './bets';
+
+export interface BankrollState {
+  /** Starting bankroll from settings */
+  starting: number;
+  deposits: number;
+  withdrawals: number;
+  /** Net P&L of settled lays */
+  settledPnl: number;
+  /** starting + deposits − withdrawals + settledPnl */
+  balance: number;
+  /** Liability on matched, unsettled lays */
+  openLiability: number;
+  /** balance − openLiability (never below zero) */
+  effective: number;
+}
+
+/**
+ * Work out the bankroll from the ledger.
+ *
+ * Open liability is taken off the balance so Kelly stakes are sized on money
+ * that is not already at risk; it comes back when the bets settle.
+ */
+export function computeBankroll(
+  starting: number,
+  bets: Bet[],
+  transactions: BankrollTransaction[]
+): BankrollState {
+  const deposits = sum(transactions.filter((t) => t.kind === 'deposit').map((t) => t.amount));
+  const withdrawals = sum(transactions.filter((t) => t.kind === 'withdrawal').map((t) => t.amount));
+  const settledPnl = sum(bets.filter((b) => b.settled_at).map((b) => b.pnl ?? 0));
+  const openLiability = sum(bets.filter(isOpenBet).map((b) => b.liability));
+  const balance = round2(starting + deposits - withdrawals + settledPnl);
+
+  return {
+    starting,
+    deposits,
+    withdrawals,
+    settledPnl,
+    balance,
+    openLiability,
+    effective: Math.max(0, round2(balance - openLiability)),
+  };
+}
+
+/**
+ * Bankroll the lay engine should stake from under the current mode.
+ */
+export function stakingBankroll(settings: UserSettings, state: BankrollState | null): number {
+  if (settings.bankrollMode !== 'dynamic' || !state) return settings.bankroll;
+  return state.effective;
+}
+
+/**
+ * Normalise a bankroll_transactions row (DECIMAL arrives as a string).
+ */
+export function normalizeTransaction(row: Record<string, unknown>): BankrollTransaction {
+  return { ...(row as unknown as BankrollTransaction), amount: Number(row.amount) };
+}
+
+function sum(values: number[]): number {
+  return round2(values.reduce((total, v) => total + v, 0));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
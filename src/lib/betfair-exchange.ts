@@ -0,0 +1,257 @@
+/**
+ * Betfair Exchange adapter (API-NG betting operations).
+ *
+ * Finds the WIN and PLACE markets for each racecard (listMarketCatalogue)
+ * and reads their market books (listMarketBook): best back, best lay, the
+ * top three levels on each side and total matched per runner. Exchange runner names
+ * are mapped back to racecard horse names so the rest of the app can key
+ * everything by runner name.
+ *
+ * The base URL is configurable (BETFAIR_API_URL) so the adapter can be
+ * pointed at scripts/betfair-stub.mjs during development.
+ */
+
+import {
+  RacingApiRacecard,
+  BetfairMarketCatalogue,
+  BetfairMarketBook,
+  ExchangeMarket,
+  ExchangeRunnerBook,
+  ExchangePriceSize,
+} from './types';
+import { toEventId, toCommenceTime } from './racing-api';
+
+const BETFAIR_API_DEFAULT_URL = 'https://api.betfair.com/exchange/betting/rest/v1.0';
+
+// Horse racing event type; WIN and PLACE markets in GB & IE only (matches the racecard filter)
+const HORSE_RACING_EVENT_TYPE = '7';
+const MARKET_COUNTRIES = ['GB', 'IE'];
+const MARKET_TYPES = ['WIN', 'PLACE'] as const;
+
+// listMarketBook request weight: EX_BEST_OFFERS costs 5 per market, limit 200
+const MARKET_BOOK_CHUNK = 40;
+
+// Racecard off time and market start time must agree within this window
+const START_TIME_TOLERANCE_MS = 2 * 60_000;
+
+const LADDER_DEPTH = 3;
+
+export interface ExchangeConfig {
+  baseUrl: string;
+  appKey: string;
+  sessionToken: string;
+}
+
+/**
+ * Read the exchange settings from the environment, or null when the
+ * adapter is not configured (the app then falls back to the Racing API's
+ * Betfair price).
+ */
+export function getExchangeConfig(): ExchangeConfig | null {
+  const appKey = process.env.BETFAIR_APP_KEY;
+  if (!appKey) return null;
+
+  return {
+    baseUrl: (process.env.BETFAIR_API_URL || BETFAIR_API_DEFAULT_URL).replace(/\/$/, ''),
+    appKey,
+    sessionToken: process.env.BETFAIR_SESSION_TOKEN || '',
+  };
+}
+
+/**
+ * Normalise a horse or course name for matching across providers:
+ * drops country suffixes ("(IRE)"), course qualifiers ("(AW)"), saddle-cloth
+ * prefixes ("3. ") and punctuation.
+ */
+export function normaliseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, '')
+    .replace(/^\s*\d+\.\s*/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+async function callBetting<T>(config: ExchangeConfig, operation: string, params: object): Promise<T> {
+  const response = await fetch(`${config.baseUrl}/${operation}/`, {
+    method: 'POST',
+    headers: {
+      'X-Application': config.appKey,
+      'X-Authentication': config.sessionToken,
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    },
+    body: JSON.stringify(params),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`Betfair ${operation} error: ${response.status} - ${errorText}`);
+    throw new Error(`Betfair ${operation} error: ${response.status} — ${errorText.slice(0, 200)}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Pair each racecard with its exchange market by course and off time.
+ * The catalogue should hold one market type only (see fetchExchangeMarkets).
+ * Returns event ID → catalogue entry; races without a market are left out.
+ */
+export function matchMarkets(
+  racecards: RacingApiRacecard[],
+  catalogue: BetfairMarketCatalogue[]
+): Map<string, BetfairMarketCatalogue> {
+  const matched = new Map<string, BetfairMarketCatalogue>();
+
+  for (const race of racecards) {
+    const course = normaliseName(race.course || '');
+    const start = Date.parse(toCommenceTime(race));
+    if (!course || isNaN(start)) continue;
+
+    const market = catalogue.find(
+      (m) =>
+        normaliseName(m.event?.venue || '') === course &&
+        Math.abs(Date.parse(m.marketStartTime) - start) <= START_TIME_TOLERANCE_MS
+    );
+    if (market) matched.set(toEventId(race), market);
+  }
+
+  return matched;
+}
+
+function topLevels(levels: ExchangePriceSize[] | undefined): ExchangePriceSize[] {
+  return (levels || [])
+    .filter((level) => level.price > 0)
+    .slice(0, LADDER_DEPTH)
+    .map((level) => ({ price: level.price, size: level.size }));
+}
+
+/**
+ * Build the app's exchange market from a catalogue entry and its book,
+ * naming runners after the racecard where the names match.
+ */
+export function toExchangeMarket(
+  race: RacingApiRacecard,
+  catalogue: BetfairMarketCatalogue,
+  book: BetfairMarketBook,
+  fetchedAt: string
+): ExchangeMarket {
+  const racecardNames = new Map<string, string>();
+  for (const runner of race.runners || []) {
+    if (runner.horse) racecardNames.set(normaliseName(runner.horse), runner.horse);
+  }
+
+  const exchangeNames = new Map<number, string>();
+  for (const runner of catalogue.runners || []) {
+    exchangeNames.set(runner.selectionId, runner.runnerName);
+  }
+
+  const runners: ExchangeRunnerBook[] = book.runners.map((runner) => {
+    const exchangeName = exchangeNames.get(runner.selectionId) ?? String(runner.selectionId);
+    const availableToBack = topLevels(runner.ex?.availableToBack);
+    const availableToLay = topLevels(runner.ex?.availableToLay);
+
+    return {
+      runnerName: racecardNames.get(normaliseName(exchangeName)) ?? exchangeName,
+      selectionId: runner.selectionId,
+      status: runner.status,
+      bestBack: availableToBack[0]?.price ?? null,
+      bestLay: availableToLay[0]?.price ?? null,
+      availableToBack,
+      availableToLay,
+      totalMatched: runner.totalMatched ?? 0,
+      lastPriceTraded: runner.lastPriceTraded ?? null,
+    };
+  });
+
+  return {
+    marketId: book.marketId,
+    status: book.status,
+    inPlay: book.inplay,
+    totalMatched: book.totalMatched ?? 0,
+    runners,
+    ...(book.numberOfWinners !== undefined ? { numberOfWinners: book.numberOfWinners } : {}),
+    fetchedAt,
+  };
+}
+
+/**
+ * Fetch exchange WIN and PLACE market books for a set of racecards.
+ * Returns event ID → market for every race found on the exchange; races
+ * without a PLACE market (small fields) are missing from `place`.
+ */
+export async function fetchExchangeMarkets(
+  config: ExchangeConfig,
+  racecards: RacingApiRacecard[]
+): Promise<{ data: Map<string, ExchangeMarket>; place: Map<string, ExchangeMarket>; error: string | null }> {
+  const markets = { WIN: new Map<string, ExchangeMarket>(), PLACE: new Map<string, ExchangeMarket>() };
+
+  const starts = racecards
+    .map((race) => Date.parse(toCommenceTime(race)))
+    .filter((time) => !isNaN(time));
+  if (starts.length === 0) return { data: markets.WIN, place: markets.PLACE, error: null };
+
+  try {
+    const catalogue = await callBetting<BetfairMarketCatalogue[]>(config, 'listMarketCatalogue', {
+      filter: {
+        eventTypeIds: [HORSE_RACING_EVENT_TYPE],
+        marketCountries: MARKET_COUNTRIES,
+        marketTypeCodes: MARKET_TYPES,
+        marketStartTime: {
+          from: new Date(Math.min(...starts) - START_TIME_TOLERANCE_MS).toISOString(),
+          to: new Date(Math.max(...starts) + START_TIME_TOLERANCE_MS).toISOString(),
+        },
+      },
+      marketProjection: ['EVENT', 'MARKET_START_TIME', 'MARKET_DESCRIPTION', 'RUNNER_DESCRIPTION'],
+      maxResults: 1000,
+    });
+
+    const racesByMarket = new Map<
+      string,
+      { eventId: string; race: RacingApiRacecard; type: (typeof MARKET_TYPES)[number]; catalogue: BetfairMarketCatalogue }
+    >();
+    for (const type of MARKET_TYPES) {
+      const matched = matchMarkets(
+        racecards,
+        catalogue.filter((m) => (m.description?.marketType ?? 'WIN') === type)
+      );
+      for (const race of racecards) {
+        const eventId = toEventId(race);
+        const market = matched.get(eventId);
+        if (market) racesByMarket.set(market.marketId, { eventId, race, type, catalogue: market });
+      }
+    }
+
+    const marketIds = Array.from(racesByMarket.keys());
+    const fetchedAt = new Date().toISOString();
+
+    for (let i = 0; i < marketIds.length; i += MARKET_BOOK_CHUNK) {
+      const books = await callBetting<BetfairMarketBook[]>(config, 'listMarketBook', {
+        marketIds: marketIds.slice(i, i + MARKET_BOOK_CHUNK),
+        priceProjection: {
+          priceData: ['EX_BEST_OFFERS'],
+          exBestOffersOverrides: { bestPricesDepth: LADDER_DEPTH },
+        },
+      });
+
+      for (const book of books) {
+        const entry = racesByMarket.get(book.marketId);
+        if (!entry) continue;
+        markets[entry.type].set(entry.eventId, toExchangeMarket(entry.race, entry.catalogue, book, fetchedAt));
+      }
+    }
+
+    console.log(
+      `Betfair: ${markets.WIN.size} of ${racecards.length} races matched to exchange markets (${markets.PLACE.size} with place markets)`
+    );
+    return { data: markets.WIN, place: markets.PLACE, error: null };
+  } catch (err) {
+    console.error('Failed to fetch exchange markets:', err);
+    return {
+      data: markets.WIN,
+      place: markets.PLACE,
+      error: `Exchange error: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
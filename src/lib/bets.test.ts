@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { prepareNewBet } from './bets';
+import { NewBet } from './types';
+
+const BET: NewBet = {
+  event_id: 'rac_1',
+  event_name: 'Sandown 14:00',
+  commence_time: '2026-03-10T14:00:00Z',
+  runner_name: 'Copper Kettle',
+  odds: 5,
+  stake: 10,
+  commission: 0.02,
+};
+
+describe('prepareNewBet', () => {
+  it('defaults the matched stake to the full stake', () => {
+    const { row, error } = prepareNewBet(BET);
+    expect(error).toBeNull();
+    expect(row?.matched_stake).toBe(10);
+    expect(row?.liability).toBe(40);
+  });
+
+  it('takes a partial match within the stake', () => {
+    const { row } = prepareNewBet({ ...BET, status: 'partially_matched', matched_stake: 4 });
+    expect(row?.matched_stake).toBe(4);
+    expect(row?.liability).toBe(16);
+  });
+
+  it.each([-1, 10.5, Number.NaN, Number.POSITIVE_INFINITY, 'abc' as unknown as number])(
+    'rejects matched_stake %s',
+    (matched_stake) => {
+      const { row, error } = prepareNewBet({ ...BET, matched_stake });
+      expect(row).toBeNull();
+      expect(error).toMatch(/matched_stake/);
+    }
+  );
+});
@@ -0,0 +1,141 @@
+import { Bet, BetMarket, BetStatus, NewBet } from './types';
+import { layLiability } from './lay-engine';
+
+export const BET_STATUSES: BetStatus[] = ['matched', 'partially_matched', 'cancelled'];
+
+export const BET_MARKETS: BetMarket[] = ['win', 'place'];
+
+export const BET_STATUS_LABELS: Record<BetStatus, string> = {
+  matched: 'Matched',
+  partially_matched: 'Part matched',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * A bet carries open liability while any of it is matched and it is unsettled.
+ */
+export function isOpenBet(bet: Bet): boolean {
+  return bet.status !== 'cancelled' && bet.matched_stake > 0 && !bet.settled_at;
+}
+
+/**
+ * Open liability per event: sum of matched liability on open bets.
+ */
+export function openLiabilityByEvent(bets: Bet[]): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const bet of bets) {
+    if (!isOpenBet(bet)) continue;
+    map.set(bet.event_id, round2((map.get(bet.event_id) ?? 0) + bet.liability));
+  }
+  return map;
+}
+
+/**
+ * Total open liability across all races.
+ */
+export function totalOpenLiability(bets: Bet[]): number {
+  return round2(bets.filter(isOpenBet).reduce((sum, bet) => sum + bet.liability, 0));
+}
+
+/**
+ * Error for a matched stake outside [0, stake], or null when it is valid.
+ */
+export function matchedStakeError(matchedStake: number, stake: number): string | null {
+  return Number.isFinite(matchedStake) && matchedStake >= 0 && matchedStake <= stake
+    ? null
+    : `matched_stake must be a number between 0 and the stake (${stake})`;
+}
+
+/**
+ * Validate and complete a new bet for insertion.
+ * Matched stake defaults to the full stake (or zero when cancelled), and
+ * liability is always derived from the matched stake so it can't drift.
+ */
+export function prepareNewBet(input: NewBet): { row: Omit<Bet, 'id'> | null; error: string | null } {
+  if (!input.event_id || !input.runner_name || !input.event_name || !input.commence_time) {
+    return { row: null, error: 'event_id, event_name, commence_time and runner_name are required' };
+  }
+
+  const odds = Number(input.odds);
+  const stake = Number(input.stake);
+  if (!(odds > 1) || !(stake > 0)) {
+    return { row: null, error: 'odds must be > 1 and stake must be > 0' };
+  }
+
+  const status: BetStatus = input.status ?? 'matched';
+  if (!BET_STATUSES.includes(status)) {
+    return { row: null, error: `status must be one of ${BET_STATUSES.join(', ')}` };
+  }
+
+  const market: BetMarket = input.market ?? 'win';
+  if (!BET_MARKETS.includes(market)) {
+    return { row: null, error: `market must be one of ${BET_MARKETS.join(', ')}` };
+  }
+  const places = market === 'place' ? Number(input.places) : null;
+  if (places !== null && !(Number.isInteger(places) && places >= 2)) {
+    return { row: null, error: 'place lays need the number of places paid (2 or more)' };
+  }
+
+  const requestedMatched = input.matched_stake ?? null;
+  if (requestedMatched !== null) {
+    const error = matchedStakeError(Number(requestedMatched), stake);
+    if (error) return { row: null, error };
+  }
+  const matchedStake = status === 'cancelled' ? 0 : Number(requestedMatched ?? stake);
+
+  return {
+    row: {
+      event_id: input.event_id,
+      event_name: input.event_name,
+      commence_time: input.commence_time,
+      runner_name: input.runner_name,
+      odds,
+      stake: round2(stake),
+      matched_stake: round2(matchedStake),
+      liability: round2(layLiability(matchedStake, odds)),
+      commission: Number(input.commission ?? 0),
+      rule4_deduction: 0,
+      market,
+      places,
+      status,
+      value_signal: input.value_signal ?? null,
+      model_probability: input.model_probability ?? null,
+      edge: input.edge ?? null,
+      notes: input.notes ?? null,
+      strategies: Array.isArray(input.strategies)
+        ? input.strategies.filter((s): s is string => typeof s === 'string')
+        : [],
+      placed_at: input.placed_at ?? new Date().toISOString(),
+      outcome: null,
+      pnl: null,
+      settled_at: null,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Normalise a bets row from Supabase (DECIMAL columns arrive as strings).
+ */
+export function normalizeBet(row: Record<string, unknown>): Bet {
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return {
+    ...(row as unknown as Bet),
+    odds: Number(row.odds),
+    stake: Number(row.stake),
+    matched_stake: Number(row.matched_stake),
+    liability: Number(row.liability),
+    commission: Number(row.commission),
+    rule4_deduction: Number(row.rule4_deduction ?? 0),
+    market: row.market === 'place' ? 'place' : 'win',
+    places: num(row.places),
+    model_probability: num(row.model_probability),
+    edge: num(row.edge),
+    pnl: num(row.pnl),
+    strategies: Array.isArray(row.strategies) ? (row.strategies as string[]) : [],
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
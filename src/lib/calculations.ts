@@ -1,4 +1,5 @@
 import { Thresholds, ValueSignalLevel, KellyParams, KellyResult } from './types';
+import { ticksBetween } from './tick-ladder';
 
 /**
  * Convert decimal odds to implied probability.
@@ -10,8 +11,15 @@ export function impliedProbability(decimalOdds: number): number {
   return 1 / decimalOdds;
 }
 
+export interface PriceCompression {
+  /** ((initialOdds - currentOdds) / initialOdds) × 100 */
+  percent: number;
+  /** Exchange ladder ticks from current up to initial */
+  ticks: number;
+}
+
 /**
- * Calculate price compression percentage.
+ * Calculate price compression, as a percentage and in exchange ticks.
  *
  * Measures how much the odds have shortened from the initial price.
  * Positive = odds shortened (horse is being backed / our signal).
@@ -19,11 +27,15 @@ export function impliedProbability(decimalOdds: number): number {
  *
  * Formula: ((initialOdds - currentOdds) / initialOdds) × 100
  *
- * Example: initial 5.0, current 3.5 → ((5.0 - 3.5) / 5.0) × 100 = 30%
+ * Example: initial 5.0, current 3.5 → ((5.0 - 3.5) / 5.0) × 100 = 30%,
+ * and 3.5 → 5.0 is 20 ticks (3.5–4 in 0.05, 4–5 in 0.1)
  */
-export function priceCompression(initialOdds: number, currentOdds: number): number {
-  if (initialOdds <= 0) return 0;
-  return ((initialOdds - currentOdds) / initialOdds) * 100;
+export function priceCompression(initialOdds: number, currentOdds: number): PriceCompression {
+  if (initialOdds <= 0) return { percent: 0, ticks: 0 };
+  return {
+    percent: ((initialOdds - currentOdds) / initialOdds) * 100,
+    ticks: ticksBetween(currentOdds, initialOdds),
+  };
 }
 
 /**
@@ -0,0 +1,247 @@
+/**
+ * Probability Model Calibration
+ *
+ * Fits the betting-equation parameters used by modelProbability:
+ *
+ *   P(win) = 1 / (1 + alpha * (O - 1)^beta)
+ *
+ * by maximum likelihood against stored prices and race results.
+ *
+ * Writing u = ln(O - 1), the model is exactly a logistic regression:
+ *
+ *   P(win) = sigmoid(c0 + c1 * u)   with   alpha = e^(-c0), beta = -c1
+ *
+ * so the MLE is found with a few Newton-Raphson steps on (c0, c1).
+ */
+
+import { DemarginMethod, OddsSnapshot } from './types';
+import { ModelParams, modelProbability } from './lay-engine';
+import { buildOpeningAverages, BacktestRaceResult } from './backtest';
+import { fairProbabilityMap } from './demargin';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Which stored price to calibrate against */
+export type CalibrationPriceSource = 'opening' | 'final';
+
+export interface CalibrationSample {
+  eventId: string;
+  runnerName: string;
+  odds: number;
+  won: boolean;
+}
+
+export interface CalibrationScore {
+  /** Mean negative log-likelihood (lower is better) */
+  logLoss: number;
+  /** Mean squared error of P(win) vs outcome (lower is better) */
+  brier: number;
+}
+
+export interface CalibrationReport {
+  priceSource: CalibrationPriceSource;
+  params: ModelParams;
+  races: number;
+  samples: number;
+  winners: number;
+  /** Fitted model scores */
+  fitted: CalibrationScore;
+  /** Uncalibrated 1/O model scores (alpha = beta = 1) */
+  baseline: CalibrationScore;
+  converged: boolean;
+  iterations: number;
+}
+
+// ============================================================
+// Sample extraction
+// ============================================================
+
+/**
+ * Join stored prices with results into one (odds, won) sample per runner.
+ *
+ * - 'opening' uses the opening average across bookmakers
+ * - 'final' uses the average of each bookmaker's last price before the off
+ *
+ * With a de-margining method the averages are converted to fair odds
+ * (1 / fair probability) first, matching what the lay engine feeds the
+ * model. Races without a result and non-runners are skipped.
+ */
+export function buildCalibrationSamples(
+  snapshots: OddsSnapshot[],
+  results: Map<string, BacktestRaceResult>,
+  priceSource: CalibrationPriceSource,
+  demargin?: DemarginMethod
+): CalibrationSample[] {
+  const byEvent = new Map<string, OddsSnapshot[]>();
+  for (const snap of snapshots) {
+    const existing = byEvent.get(snap.event_id) || [];
+    existing.push(snap);
+    byEvent.set(snap.event_id, existing);
+  }
+
+  const samples: CalibrationSample[] = [];
+
+  for (const [eventId, snaps] of byEvent) {
+    const result = results.get(eventId);
+    if (!result || !result.winner) continue;
+
+    const sorted = [...snaps].sort((a, b) => snapTime(a) - snapTime(b));
+    const averages =
+      priceSource === 'opening' ? buildOpeningAverages(sorted) : buildFinalAverages(sorted);
+    const prices = demargin ? toFairOdds(averages, demargin) : averages;
+
+    for (const [runnerName, odds] of prices) {
+      const position = result.positions.get(runnerName);
+      if (!position || position.toUpperCase() === 'NR') continue;
+      if (odds <= 1) continue;
+      samples.push({ eventId, runnerName, odds, won: position === '1' });
+    }
+  }
+
+  return samples;
+}
+
+/** Fair odds (1 / de-margined probability) per runner */
+function toFairOdds(averages: Map<string, number>, method: DemarginMethod): Map<string, number> {
+  const fairOdds = new Map<string, number>();
+  for (const [runner, p] of fairProbabilityMap(averages, method)) {
+    if (p > 0) fairOdds.set(runner, 1 / p);
+  }
+  return fairOdds;
+}
+
+/** Average of each bookmaker's last pre-off price per runner */
+function buildFinalAverages(sorted: OddsSnapshot[]): Map<string, number> {
+  const commence = new Date(sorted[0].commence_time).getTime();
+  const lastSeen = new Map<string, Map<string, number>>();
+
+  for (const snap of sorted) {
+    if (snap.back_price === null || snapTime(snap) >= commence) continue;
+    const books = lastSeen.get(snap.runner_name) || new Map<string, number>();
+    books.set(snap.bookmaker, snap.back_price);
+    lastSeen.set(snap.runner_name, books);
+  }
+
+  const averages = new Map<string, number>();
+  for (const [runner, books] of lastSeen) {
+    const prices = Array.from(books.values());
+    averages.set(runner, prices.reduce((s, p) => s + p, 0) / prices.length);
+  }
+  return averages;
+}
+
+// ============================================================
+// Fitting
+// ============================================================
+
+const MAX_ITERATIONS = 50;
+const TOLERANCE = 1e-8;
+
+/**
+ * Fit alpha/beta by maximum likelihood and score against the 1/O baseline.
+ * Returns null when there is not enough data to fit (no winners or no losers).
+ */
+export function calibrateModel(
+  samples: CalibrationSample[],
+  priceSource: CalibrationPriceSource
+): CalibrationReport | null {
+  const winners = samples.filter((s) => s.won).length;
+  if (winners === 0 || winners === samples.length) return null;
+
+  // Start from the uncalibrated model: alpha = 1 (c0 = 0), beta = 1 (c1 = -1)
+  let c0 = 0;
+  let c1 = -1;
+  let converged = false;
+  let iterations = 0;
+
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    // Gradient g and Hessian H of the log-likelihood
+    let g0 = 0;
+    let g1 = 0;
+    let h00 = 0;
+    let h01 = 0;
+    let h11 = 0;
+
+    for (const s of samples) {
+      const u = Math.log(s.odds - 1);
+      const p = sigmoid(c0 + c1 * u);
+      const y = s.won ? 1 : 0;
+      const w = p * (1 - p);
+      g0 += y - p;
+      g1 += (y - p) * u;
+      h00 += w;
+      h01 += w * u;
+      h11 += w * u * u;
+    }
+
+    const det = h00 * h11 - h01 * h01;
+    if (!isFinite(det) || Math.abs(det) < 1e-12) break;
+
+    // Newton step: c += H^-1 g (H here is the negated Hessian, positive definite)
+    const d0 = (h11 * g0 - h01 * g1) / det;
+    const d1 = (h00 * g1 - h01 * g0) / det;
+    c0 += d0;
+    c1 += d1;
+
+    if (Math.abs(d0) < TOLERANCE && Math.abs(d1) < TOLERANCE) {
+      converged = true;
+      iterations++;
+      break;
+    }
+  }
+
+  const params: ModelParams = { alpha: Math.exp(-c0), beta: -c1 };
+
+  return {
+    priceSource,
+    params: { alpha: round4(params.alpha), beta: round4(params.beta) },
+    races: new Set(samples.map((s) => s.eventId)).size,
+    samples: samples.length,
+    winners,
+    fitted: scoreModel(samples, params),
+    baseline: scoreModel(samples, { alpha: 1, beta: 1 }),
+    converged,
+    iterations,
+  };
+}
+
+/**
+ * Log-loss and Brier score of a parameter set over the samples.
+ */
+export function scoreModel(samples: CalibrationSample[], params: ModelParams): CalibrationScore {
+  if (samples.length === 0) return { logLoss: 0, brier: 0 };
+
+  const EPS = 1e-12;
+  let logLoss = 0;
+  let brier = 0;
+
+  for (const s of samples) {
+    const p = Math.min(Math.max(modelProbability(s.odds, params), EPS), 1 - EPS);
+    const y = s.won ? 1 : 0;
+    logLoss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+    brier += (p - y) * (p - y);
+  }
+
+  return {
+    logLoss: round4(logLoss / samples.length),
+    brier: round4(brier / samples.length),
+  };
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function snapTime(snap: OddsSnapshot): number {
+  return new Date(snap.snapshot_time || snap.created_at || snap.commence_time).getTime();
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
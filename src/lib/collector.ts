@@ -0,0 +1,157 @@
+/**
+ * Server-side snapshot collector.
+ *
+ * Fetches today's and tomorrow's racecards from the odds provider and
+ * writes odds snapshots for every race that is due, independent of any
+ * open browser. Each race is captured more often as its off time approaches (COLLECTOR_SCHEDULE), and
+ * the run reports how long the caller should wait before the next one.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RacingApiRacecard } from './types';
+import { OddsProvider } from './odds-provider';
+import { saveRacecards } from './race-store';
+import { buildSnapshots, saveSnapshots, snapshotCycleId } from './snapshot-store';
+import { COLLECTOR_SCHEDULE, COLLECTOR_MIN_POLL_MS, COLLECTOR_MAX_POLL_MS } from './constants';
+
+export interface CollectionResult {
+  /** Races that have not started yet */
+  racesTracked: number;
+  /** Races captured on this run */
+  racesDue: number;
+  /** Rows written (openings and price changes only) */
+  saved: number;
+  newOpenings: number;
+  racecardsSaved: number | null;
+  /** Suggested wait before the next run */
+  nextPollMs: number;
+  error: string | null;
+}
+
+/**
+ * Capture interval for a race, or null once it has started.
+ */
+export function collectionInterval(commenceTime: string, now: Date): number | null {
+  const minutesToOff = (Date.parse(commenceTime) - now.getTime()) / 60_000;
+  if (!(minutesToOff > 0)) return null;
+  return COLLECTOR_SCHEDULE.find((row) => minutesToOff <= row.minutesToOff)!.intervalMs;
+}
+
+/**
+ * Run one collection pass.
+ */
+export async function runCollection(
+  supabase: SupabaseClient,
+  provider: OddsProvider,
+  now: Date = new Date()
+): Promise<CollectionResult> {
+  const empty = {
+    racesTracked: 0,
+    racesDue: 0,
+    saved: 0,
+    newOpenings: 0,
+    racecardsSaved: null,
+    nextPollMs: COLLECTOR_MAX_POLL_MS,
+  };
+
+  const [today, tomorrow] = await Promise.all([
+    provider.listEvents('today'),
+    provider.listEvents('tomorrow'),
+  ]);
+
+  // Today's racecards are required; tomorrow's are a bonus (early prices)
+  if (!today.data) {
+    return { ...empty, nextPollMs: COLLECTOR_MIN_POLL_MS, error: today.error };
+  }
+  const racecards: RacingApiRacecard[] = [...today.data, ...(tomorrow.data ?? [])];
+
+  const racecardResult = await saveRacecards(supabase, racecards);
+  const racecardsSaved = racecardResult.error ? null : racecardResult.races;
+
+  const prices = await provider.fetchPrices(racecards);
+  if (prices.error) {
+    return { ...empty, racecardsSaved, error: prices.error };
+  }
+
+  const upcoming = prices.data.filter(
+    (event) => collectionInterval(event.commence_time, now) !== null
+  );
+  if (upcoming.length === 0) {
+    return { ...empty, racecardsSaved, error: null };
+  }
+
+  // When each race was last captured
+  const { data: lastRows, error: lastError } = await supabase
+    .from('races')
+    .select('id, last_snapshot_at')
+    .in('id', upcoming.map((event) => event.id));
+
+  if (lastError) {
+    console.error('Supabase races query error:', lastError);
+    return { ...empty, racecardsSaved, racesTracked: upcoming.length, error: lastError.message };
+  }
+
+  const lastCaptured = new Map<string, number>();
+  for (const row of lastRows || []) {
+    if (row.last_snapshot_at) lastCaptured.set(row.id, Date.parse(row.last_snapshot_at));
+  }
+
+  // A race is due once its interval has elapsed since the last capture
+  const nowMs = now.getTime();
+  let nextPollMs = COLLECTOR_MAX_POLL_MS;
+  const due = upcoming.filter((event) => {
+    const interval = collectionInterval(event.commence_time, now)!;
+    const last = lastCaptured.get(event.id);
+    const isDue = last === undefined || nowMs - last >= interval;
+    nextPollMs = Math.min(nextPollMs, isDue ? interval : last + interval - nowMs);
+    return isDue;
+  });
+  nextPollMs = Math.max(COLLECTOR_MIN_POLL_MS, nextPollMs);
+
+  const result = await saveSnapshots(supabase, buildSnapshots(due), snapshotCycleId(now));
+  if (result.error) {
+    return { ...empty, racecardsSaved, racesTracked: upcoming.length, nextPollMs, error: result.error };
+  }
+
+  if (due.length > 0) {
+    const { error: markError } = await supabase
+      .from('races')
+      .update({ last_snapshot_at: now.toISOString() })
+      .in('id', due.map((event) => event.id));
+
+    if (markError) {
+      console.error('Supabase races update error:', markError);
+    }
+  }
+
+  return {
+    racesTracked: upcoming.length,
+    racesDue: due.length,
+    saved: result.saved,
+    newOpenings: result.newOpenings,
+    racecardsSaved,
+    nextPollMs,
+    error: null,
+  };
+}
+
+/**
+ * Time of the most recent stored snapshot (for the dashboard status card).
+ */
+export async function fetchLastSnapshotTime(
+  supabase: SupabaseClient
+): Promise<{ data: string | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('odds_snapshots')
+    .select('snapshot_time')
+    .order('snapshot_time', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase query error:', error);
+    return { data: null, error: error.message };
+  }
+
+  return { data: data?.snapshot_time ?? null, error: null };
+}
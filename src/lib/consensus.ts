@@ -0,0 +1,295 @@
+/**
+ * Bookmaker consensus: one price per runner from many bookmakers.
+ *
+ * Prices are averaged in probability space (mean of 1/O, then inverted)
+ * rather than as decimal odds, so a single long price can't drag the
+ * consensus out. Each bookmaker carries a weight fitted from history —
+ * books whose prices have predicted winners better count for more — and
+ * two kinds of price are left out entirely:
+ *   stale   — last updated CONSENSUS_STALE_MS before the race's newest price
+ *   outlier — implied probability more than CONSENSUS_OUTLIER_RATIO times
+ *             away from the median of the runner's fresh prices
+ */
+
+import { BookmakerPrice, DemarginMethod, OddsSnapshot } from './types';
+import { BacktestRaceResult } from './backtest';
+import { fairProbabilityMap } from './demargin';
+import {
+  CONSENSUS_STALE_MS,
+  CONSENSUS_OUTLIER_RATIO,
+  CONSENSUS_OUTLIER_MIN_PRICES,
+  BOOKMAKER_WEIGHT_PRIOR_RACES,
+  BOOKMAKER_WEIGHT_SCALE,
+  BOOKMAKER_WEIGHT_MIN,
+  BOOKMAKER_WEIGHT_MAX,
+} from './constants';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Why a price was left out of the consensus */
+export type ConsensusExclusion = 'stale' | 'outlier';
+
+export interface ConsensusContributor {
+  bookmaker: string;
+  bookmakerTitle: string;
+  price: number;
+  /** Accuracy weight applied (1 for books without a fitted weight) */
+  weight: number;
+  /** Share of the consensus probability (0 when excluded) */
+  share: number;
+  excluded: ConsensusExclusion | null;
+}
+
+export interface Consensus {
+  /** Consensus decimal odds, null without any real price */
+  odds: number | null;
+  contributors: ConsensusContributor[];
+}
+
+export interface BookmakerAccuracy {
+  bookmaker: string;
+  /** Settled races the bookmaker priced */
+  races: number;
+  /** Mean negative log-likelihood of the winner under the book's fair prices */
+  logLoss: number;
+  /** Mean log-loss improvement over the equal-weight consensus (positive = sharper) */
+  edge: number;
+  weight: number;
+}
+
+export interface BookmakerWeightReport {
+  races: number;
+  /** Equal-weight consensus log-loss over the same races */
+  consensusLogLoss: number;
+  bookmakers: BookmakerAccuracy[];
+  /** Fitted weights keyed by bookmaker key, ready for settings */
+  weights: Record<string, number>;
+}
+
+// ============================================================
+// Consensus
+// ============================================================
+
+/**
+ * Weighted consensus for one runner.
+ *
+ * @param prices - The runner's bookmaker prices (placeholders <= 0 are ignored)
+ * @param weights - Accuracy weights by bookmaker key; missing books weigh 1
+ * @param newestUpdate - Newest price time in the race (ms); staleness is
+ *   measured from here rather than the clock, so replayed races behave the
+ *   same as live ones. Omit to skip the staleness check.
+ */
+export function weightedConsensus(
+  prices: BookmakerPrice[],
+  weights: Record<string, number>,
+  newestUpdate?: number
+): Consensus {
+  const real = prices.filter((p) => p.price > 1);
+
+  const contributors: ConsensusContributor[] = real.map((p) => {
+    const updated = Date.parse(p.lastUpdate);
+    const stale =
+      newestUpdate !== undefined && !isNaN(updated) && newestUpdate - updated > CONSENSUS_STALE_MS;
+    return {
+      bookmaker: p.bookmaker,
+      bookmakerTitle: p.bookmakerTitle,
+      price: p.price,
+      weight: Math.max(weights[p.bookmaker] ?? 1, 0),
+      share: 0,
+      excluded: stale ? 'stale' : null,
+    };
+  });
+
+  const fresh = contributors.filter((c) => c.excluded === null);
+  if (fresh.length >= CONSENSUS_OUTLIER_MIN_PRICES) {
+    const mid = median(fresh.map((c) => 1 / c.price));
+    for (const c of fresh) {
+      const ratio = 1 / c.price / mid;
+      if (ratio > CONSENSUS_OUTLIER_RATIO || ratio < 1 / CONSENSUS_OUTLIER_RATIO) {
+        c.excluded = 'outlier';
+      }
+    }
+  }
+
+  // Every price excluded (e.g. one book far ahead of the rest) — better a
+  // plain average than no consensus at all
+  let included = contributors.filter((c) => c.excluded === null && c.weight > 0);
+  const fallback = included.length === 0;
+  if (fallback) {
+    for (const c of contributors) c.excluded = null;
+    included = contributors;
+  }
+  if (included.length === 0) return { odds: null, contributors };
+
+  const weightOf = (c: ConsensusContributor) => (fallback ? 1 : c.weight);
+
+  const totalWeight = included.reduce((sum, c) => sum + weightOf(c), 0);
+  let probability = 0;
+  for (const c of included) {
+    c.share = weightOf(c) / totalWeight;
+    probability += c.share / c.price;
+  }
+
+  return { odds: probability > 0 ? 1 / probability : null, contributors };
+}
+
+/** Newest parseable lastUpdate across a race's prices (ms), if any */
+export function newestPriceUpdate(prices: BookmakerPrice[]): number | undefined {
+  const times = prices.map((p) => Date.parse(p.lastUpdate)).filter((t) => !isNaN(t));
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+// ============================================================
+// Accuracy weights
+// ============================================================
+
+/**
+ * Fit bookmaker weights from stored opening prices and race winners.
+ *
+ * For every settled race, each bookmaker's opening book is de-margined on
+ * its own and scored by the log-likelihood it gave the winner; the same is
+ * done for the equal-weight consensus. A book's weight is
+ *
+ *   exp(SCALE * meanEdge * n / (n + PRIOR))
+ *
+ * where meanEdge is its average log-loss improvement over the consensus in
+ * the n races it priced. The n / (n + PRIOR) factor shrinks books with
+ * little history towards 1, and weights are clamped to [MIN, MAX].
+ *
+ * Returns null when no settled race has prices from two or more books.
+ */
+export function fitBookmakerWeights(
+  snapshots: OddsSnapshot[],
+  results: Map<string, BacktestRaceResult>,
+  demargin: DemarginMethod
+): BookmakerWeightReport | null {
+  const byEvent = new Map<string, OddsSnapshot[]>();
+  for (const snap of snapshots) {
+    const existing = byEvent.get(snap.event_id) || [];
+    existing.push(snap);
+    byEvent.set(snap.event_id, existing);
+  }
+
+  const scores = new Map<string, { logLoss: number; edge: number; races: number }>();
+  let races = 0;
+  let consensusLogLoss = 0;
+
+  for (const [eventId, snaps] of byEvent) {
+    const result = results.get(eventId);
+    if (!result || !result.winner) continue;
+
+    const books = openingBooks(snaps, result);
+    if (books.size < 2) continue;
+
+    const consensus = fairProbabilityMap(equalWeightConsensus(books), demargin);
+    const pConsensus = consensus.get(result.winner);
+    if (!pConsensus) continue;
+
+    const baseline = -Math.log(pConsensus);
+    races++;
+    consensusLogLoss += baseline;
+
+    for (const [bookmaker, prices] of books) {
+      if (!prices.has(result.winner)) continue;
+      const pWinner = fairProbabilityMap(prices, demargin).get(result.winner);
+      if (!pWinner) continue;
+
+      const loss = -Math.log(pWinner);
+      const score = scores.get(bookmaker) ?? { logLoss: 0, edge: 0, races: 0 };
+      score.logLoss += loss;
+      score.edge += baseline - loss;
+      score.races++;
+      scores.set(bookmaker, score);
+    }
+  }
+
+  if (races === 0) return null;
+
+  const bookmakers: BookmakerAccuracy[] = Array.from(scores.entries())
+    .map(([bookmaker, score]) => {
+      const edge = score.edge / score.races;
+      const shrink = score.races / (score.races + BOOKMAKER_WEIGHT_PRIOR_RACES);
+      const weight = Math.min(
+        Math.max(Math.exp(BOOKMAKER_WEIGHT_SCALE * edge * shrink), BOOKMAKER_WEIGHT_MIN),
+        BOOKMAKER_WEIGHT_MAX
+      );
+      return {
+        bookmaker,
+        races: score.races,
+        logLoss: round4(score.logLoss / score.races),
+        edge: round4(edge),
+        weight: round2(weight),
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+
+  return {
+    races,
+    consensusLogLoss: round4(consensusLogLoss / races),
+    bookmakers,
+    weights: Object.fromEntries(bookmakers.map((b) => [b.bookmaker, b.weight])),
+  };
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Each bookmaker's opening price per finisher: the rows flagged as opening,
+ * else the book's first price for the runner. Non-runners are left out so
+ * every book is de-margined over the same field.
+ */
+function openingBooks(snaps: OddsSnapshot[], result: BacktestRaceResult): Map<string, Map<string, number>> {
+  const sorted = [...snaps].sort((a, b) => snapTime(a) - snapTime(b));
+  const books = new Map<string, Map<string, number>>();
+
+  for (const snap of sorted) {
+    if (snap.back_price === null || snap.back_price <= 1) continue;
+    const position = result.positions.get(snap.runner_name);
+    if (!position || position.toUpperCase() === 'NR') continue;
+
+    const prices = books.get(snap.bookmaker) || new Map<string, number>();
+    if (!prices.has(snap.runner_name) || snap.is_opening) {
+      prices.set(snap.runner_name, snap.back_price);
+    }
+    books.set(snap.bookmaker, prices);
+  }
+  return books;
+}
+
+/** Unweighted probability-space average across books, as decimal odds */
+function equalWeightConsensus(books: Map<string, Map<string, number>>): Map<string, number> {
+  const totals = new Map<string, { probability: number; count: number }>();
+  for (const prices of books.values()) {
+    for (const [runner, price] of prices) {
+      const total = totals.get(runner) ?? { probability: 0, count: 0 };
+      total.probability += 1 / price;
+      total.count++;
+      totals.set(runner, total);
+    }
+  }
+  return new Map(
+    Array.from(totals.entries()).map(([runner, t]) => [runner, t.count / t.probability])
+  );
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function snapTime(snap: OddsSnapshot): number {
+  return new Date(snap.snapshot_time ?? snap.created_at ?? 0).getTime();
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
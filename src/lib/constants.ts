@@ -1,11 +1,118 @@
 import { UserSettings } from './types';
+import { DEFAULT_STRATEGY } from './strategy';
 
 // Refresh interval: 60 seconds
 export const REFRESH_INTERVAL_MS = 60_000;
 
+// Snapshot collector: how often each race is captured, by minutes to the off.
+// First row whose minutesToOff is >= the time remaining wins.
+export const COLLECTOR_SCHEDULE: { minutesToOff: number; intervalMs: number }[] = [
+  { minutesToOff: 10, intervalMs: 60_000 },
+  { minutesToOff: 30, intervalMs: 2 * 60_000 },
+  { minutesToOff: 120, intervalMs: 5 * 60_000 },
+  { minutesToOff: 360, intervalMs: 15 * 60_000 },
+  { minutesToOff: Infinity, intervalMs: 60 * 60_000 },
+];
+
+// Bounds on how long the collector script waits between runs
+export const COLLECTOR_MIN_POLL_MS = 30_000;
+export const COLLECTOR_MAX_POLL_MS = 15 * 60_000;
+
+// Fixture replay: a recorded result is revealed this long after the off
+export const FIXTURE_RESULT_DELAY_MS = 10 * 60_000;
+
+// Snapshot retention: races older than this many days are downsampled to
+// first/last/min/max plus one price per bar; the rest is archived
+export const SNAPSHOT_RETENTION_DAYS = 7;
+export const SNAPSHOT_BAR_MINUTES = 5;
+// Races per downsample_odds_snapshots call, and calls per maintenance run
+export const SNAPSHOT_DOWNSAMPLE_BATCH = 100;
+export const SNAPSHOT_DOWNSAMPLE_MAX_BATCHES = 20;
+
+// Tattersalls Rule 4(c): deduction (pence in the £) from winning bets on the
+// remaining runners, by the withdrawn horse's price at withdrawal. Each band
+// ends at the longest fractional price it covers; a price between two bands
+// falls in the longer one. Longer than 20/1 deducts nothing.
+export const RULE4_DEDUCTIONS: { maxOdds: number; deduction: number }[] = [
+  { maxOdds: 1 + 1 / 9, deduction: 90 },   // 1/9 or shorter
+  { maxOdds: 1 + 2 / 11, deduction: 85 },  // 2/17 to 2/11
+  { maxOdds: 1 + 1 / 4, deduction: 80 },   // 1/5 to 1/4
+  { maxOdds: 1 + 2 / 5, deduction: 75 },   // 3/10 to 2/5
+  { maxOdds: 1 + 8 / 15, deduction: 70 },  // 4/9 to 8/15
+  { maxOdds: 1 + 4 / 6, deduction: 65 },   // 4/7 to 4/6
+  { maxOdds: 1 + 5 / 6, deduction: 60 },   // 8/11 to 5/6
+  { maxOdds: 1 + 20 / 21, deduction: 55 }, // 10/11 to 20/21
+  { maxOdds: 1 + 6 / 5, deduction: 50 },   // Evens to 6/5
+  { maxOdds: 1 + 6 / 4, deduction: 45 },   // 5/4 to 6/4
+  { maxOdds: 1 + 7 / 4, deduction: 40 },   // 8/5 to 7/4
+  { maxOdds: 1 + 9 / 4, deduction: 35 },   // 9/5 to 9/4
+  { maxOdds: 1 + 3, deduction: 30 },       // 12/5 to 3/1
+  { maxOdds: 1 + 4, deduction: 25 },       // 16/5 to 4/1
+  { maxOdds: 1 + 11 / 2, deduction: 20 },  // 9/2 to 11/2
+  { maxOdds: 1 + 9, deduction: 15 },       // 6/1 to 9/1
+  { maxOdds: 1 + 14, deduction: 10 },      // 10/1 to 14/1
+  { maxOdds: 1 + 20, deduction: 5 },       // 15/1 to 20/1
+];
+// Decimal prices are usually quoted to two places (4/6 as 1.67), so a price
+// up to this much over a band's end still counts as that band's price
+export const RULE4_ODDS_TOLERANCE = 0.005;
+// Combined deduction when several horses are withdrawn from one race
+export const RULE4_MAX_DEDUCTION = 90;
+
+// Standard UK fractional prices [numerator, denominator], shortest first.
+// Decimal prices are shown as the nearest of these in fractional mode.
+export const FRACTIONAL_ODDS_LADDER: [number, number][] = [
+  [1, 10], [1, 9], [1, 8], [2, 15], [1, 7], [2, 13], [1, 6], [2, 11], [1, 5], [2, 9],
+  [1, 4], [2, 7], [3, 10], [1, 3], [4, 11], [2, 5], [4, 9], [1, 2], [8, 15], [4, 7],
+  [8, 13], [4, 6], [8, 11], [4, 5], [5, 6], [10, 11], [1, 1], [11, 10], [6, 5], [5, 4],
+  [11, 8], [6, 4], [13, 8], [7, 4], [15, 8], [2, 1], [85, 40], [9, 4], [5, 2], [11, 4],
+  [3, 1], [10, 3], [7, 2], [4, 1], [9, 2], [5, 1], [11, 2], [6, 1], [13, 2], [7, 1],
+  [15, 2], [8, 1], [17, 2], [9, 1], [10, 1], [11, 1], [12, 1], [14, 1], [16, 1], [18, 1],
+  [20, 1], [22, 1], [25, 1], [28, 1], [33, 1], [40, 1], [50, 1], [66, 1], [80, 1], [100, 1],
+  [125, 1], [150, 1], [200, 1], [250, 1], [500, 1], [1000, 1],
+];
+
+// Standard each-way terms by declared field size, used when no bookmaker
+// quotes terms. First row whose minRunners the field reaches wins; rows with
+// handicap: true only apply to handicaps. Fields under 5 are win only.
+export const STANDARD_EACH_WAY_TERMS: { minRunners: number; handicap?: boolean; places: number; fraction: number }[] = [
+  { minRunners: 16, handicap: true, places: 4, fraction: 1 / 4 },
+  { minRunners: 12, handicap: true, places: 3, fraction: 1 / 4 },
+  { minRunners: 8, places: 3, fraction: 1 / 5 },
+  { minRunners: 5, places: 2, fraction: 1 / 4 },
+];
+
+// Bookmaker consensus (see consensus.ts): prices this much older than the
+// race's newest price are stale; with at least MIN_PRICES fresh prices, one
+// whose implied probability is RATIO times off the median is an outlier
+export const CONSENSUS_STALE_MS = 30 * 60_000;
+export const CONSENSUS_OUTLIER_RATIO = 1.5;
+export const CONSENSUS_OUTLIER_MIN_PRICES = 3;
+
+// Bookmaker accuracy weights: exp(SCALE * mean log-loss edge), shrunk
+// towards 1 over the first PRIOR_RACES races and clamped to [MIN, MAX]
+export const BOOKMAKER_WEIGHT_PRIOR_RACES = 20;
+export const BOOKMAKER_WEIGHT_SCALE = 10;
+export const BOOKMAKER_WEIGHT_MIN = 0.25;
+export const BOOKMAKER_WEIGHT_MAX = 4;
+
+// Movement analytics (see movement.ts). Steam: this many books each cutting
+// by CUT_PCT within the window; drift: unbroken lengthening for MIN_MS and
+// MIN_PCT; reversal: a MIN_PCT move back from a MIN_PCT move; late money:
+// the consensus shortening MIN_PCT in the window before the off
+export const STEAM_WINDOW_MS = 5 * 60_000;
+export const STEAM_MIN_BOOKS = 3;
+export const STEAM_MIN_CUT_PCT = 3;
+export const DRIFT_MIN_MS = 15 * 60_000;
+export const DRIFT_MIN_PCT = 10;
+export const REVERSAL_MIN_PCT = 8;
+export const LATE_MONEY_WINDOW_MS = 10 * 60_000;
+export const LATE_MONEY_MIN_PCT = 5;
+
 // Default user settings
 export const DEFAULT_SETTINGS: UserSettings = {
   bankroll: 1000,
+  bankrollMode: 'static',
   currency: 'GBP',
   thresholds: {
     conservative: 15,
@@ -21,6 +128,17 @@ export const DEFAULT_SETTINGS: UserSettings = {
   minStake: 2,            // Betfair minimum £2 stake
   modelAlpha: 1.0,        // Calibration alpha (1.0 = raw implied prob)
   modelBeta: 1.0,         // Calibration beta (1.0 = no adjustment)
+  modelSegments: [],      // No segment overrides — global alpha/beta everywhere
+  maxTotalLiabilityPct: 25,   // Open liability across all races, % of bankroll
+  maxMeetingLiabilityPct: 10, // Open liability per meeting, % of bankroll
+  maxLaysPerDay: 20,
+  dailyStopLossPct: 10,       // Stop recommending lays after losing this much today
+  oddsFormat: 'decimal',
+  demarginMethod: 'shin',     // Overround removal for fair probabilities
+  bookmakerWeights: {},       // No fitted weights — every bookmaker counts equally
+  movementConditions: [],     // Lay regardless of steam/drift/reversal/late money
+  strategy: DEFAULT_STRATEGY, // Price shortened AND lay value
+  profiles: [],               // No extra strategies evaluated side by side
 };
 
 // Compression colour thresholds (maps to tailwind classes)
@@ -57,3 +175,23 @@ export const CURRENCY_SYMBOLS: Record<string, string> = {
   EUR: '€',
   USD: '$',
 };
+
+// Betfair Exchange price increments: tick size up to each upper bound.
+// Valid prices run from EXCHANGE_MIN_PRICE to EXCHANGE_MAX_PRICE.
+export const EXCHANGE_PRICE_INCREMENTS: { upTo: number; tick: number }[] = [
+  { upTo: 2, tick: 0.01 },
+  { upTo: 3, tick: 0.02 },
+  { upTo: 4, tick: 0.05 },
+  { upTo: 6, tick: 0.1 },
+  { upTo: 10, tick: 0.2 },
+  { upTo: 20, tick: 0.5 },
+  { upTo: 30, tick: 1 },
+  { upTo: 50, tick: 2 },
+  { upTo: 100, tick: 5 },
+  { upTo: 1000, tick: 10 },
+];
+export const EXCHANGE_MIN_PRICE = 1.01;
+export const EXCHANGE_MAX_PRICE = 1000;
+
+// Bookmaker keys that identify the Betfair Exchange price (after key normalisation)
+export const BETFAIR_EXCHANGE_KEYS = ['betfair_exchange', 'betfair_ex'];
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Check the bearer token on a scheduled-job route (/api/collect,
+ * /api/maintenance/*). Without CRON_SECRET only `next dev` accepts calls;
+ * a deployment refuses every caller until the secret is set.
+ */
+export function isCronAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'development') return true;
+    console.error('Scheduled job refused: CRON_SECRET is not set');
+    return false;
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
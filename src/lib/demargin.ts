@@ -0,0 +1,106 @@
+/**
+ * De-margining: fair win probabilities from a race's prices.
+ *
+ * Raw implied probabilities (1/O) over a whole field sum to the book
+ * percentage — often 115–130% on bookmaker prices — so each one overstates
+ * the runner's chance. These methods remove the overround so the field
+ * sums to 1:
+ *   proportional — p = (1/O) / book
+ *   shin         — Shin's insider-trading model; takes more margin off longshots
+ *   power        — p = (1/O)^k, k chosen so the field sums to 1
+ *   odds-ratio   — p = (1/O) / (c + (1/O)(1 - c)), c chosen likewise
+ */
+
+import { DemarginMethod } from './types';
+
+export const DEMARGIN_METHOD_LABELS: Record<DemarginMethod, string> = {
+  proportional: 'Proportional',
+  shin: 'Shin',
+  power: 'Power',
+  'odds-ratio': 'Odds ratio',
+};
+
+/** Whether a query or body value names a de-margining method */
+export function isDemarginMethod(value: unknown): value is DemarginMethod {
+  return typeof value === 'string' && Object.hasOwn(DEMARGIN_METHOD_LABELS, value);
+}
+
+const SOLVER_ITERATIONS = 60;
+
+/**
+ * Fair win probabilities for a field, in the same order as `odds`.
+ *
+ * Prices <= 1 (missing or placeholder) get probability 0 and take no part
+ * in the normalisation. A book at or under 100% — usually a partial field —
+ * has no margin to remove and is returned as raw 1/O.
+ */
+export function fairProbabilities(odds: number[], method: DemarginMethod): number[] {
+  const implied = odds.map((o) => (o > 1 ? 1 / o : 0));
+  const book = implied.reduce((sum, p) => sum + p, 0);
+  if (book <= 1 || implied.filter((p) => p > 0).length < 2) return implied;
+
+  let fair: number[];
+  switch (method) {
+    case 'shin': {
+      const shin = (z: number) =>
+        implied.map((p) =>
+          p > 0 ? (Math.sqrt(z * z + (4 * (1 - z) * p * p) / book) - z) / (2 * (1 - z)) : 0
+        );
+      fair = shin(solveForUnitSum(shin, 0, 0.999));
+      break;
+    }
+    case 'power': {
+      const power = (k: number) => implied.map((p) => (p > 0 ? Math.pow(p, k) : 0));
+      fair = power(solveForUnitSum(power, 1, bracket(power, 1)));
+      break;
+    }
+    case 'odds-ratio': {
+      const oddsRatio = (c: number) => implied.map((p) => (p > 0 ? p / (c + p - c * p) : 0));
+      fair = oddsRatio(solveForUnitSum(oddsRatio, 1, bracket(oddsRatio, 1)));
+      break;
+    }
+    default:
+      fair = implied.map((p) => p / book);
+  }
+
+  // Clear the solver's residual so the field sums to exactly 1
+  const total = fair.reduce((sum, p) => sum + p, 0);
+  return total > 0 ? fair.map((p) => p / total) : implied;
+}
+
+/**
+ * Fair win probabilities keyed by runner name.
+ */
+export function fairProbabilityMap(odds: Map<string, number>, method: DemarginMethod): Map<string, number> {
+  const names = Array.from(odds.keys());
+  const fair = fairProbabilities(names.map((name) => odds.get(name)!), method);
+  return new Map(names.map((name, i) => [name, fair[i]]));
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function sum(probs: number[]): number {
+  return probs.reduce((total, p) => total + p, 0);
+}
+
+/**
+ * Bisection for the parameter at which the field sums to 1. `probs` must
+ * sum to more than 1 at `lo` and decrease as the parameter grows.
+ */
+function solveForUnitSum(probs: (x: number) => number[], lo: number, hi: number): number {
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (sum(probs(mid)) > 1) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** Double the parameter from `start` until the field sums to at most 1 */
+function bracket(probs: (x: number) => number[], start: number): number {
+  let hi = start * 2;
+  while (sum(probs(hi)) > 1 && hi < 1e6) hi *= 2;
+  return hi;
+}
@@ -0,0 +1,79 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createFixtureProvider } from './fixture-provider';
+import { createReplayClock, replayNonRunners, replaySnapshots } from './fixture-store';
+import { detectMovements } from './movement';
+
+// Small recording committed with the repo: two Sandown races on 10 March
+// 2026, four bookmakers, a withdrawal at noon and both results
+const SAMPLE = path.resolve(__dirname, '../../fixtures/sample');
+
+/** Provider on a frozen clock at the given UTC time of the race day */
+function providerAt(time: string) {
+  const clock = createReplayClock(SAMPLE, { start: new Date(`2026-03-10T${time}:00Z`), speed: 0 });
+  return { provider: createFixtureProvider(SAMPLE, clock), now: new Date(`2026-03-10T${time}:00Z`) };
+}
+
+describe('fixture replay', () => {
+  it('starts the default clock at the first recorded frame', async () => {
+    const clock = createReplayClock(SAMPLE, { speed: 0 });
+    expect((await clock.now()).toISOString()).toBe('2026-03-10T10:00:00.000Z');
+  });
+
+  it("lists the simulated day's races", async () => {
+    const { provider } = providerAt('10:30');
+    const today = await provider.listEvents('today');
+    expect(today.data?.map((race) => race.off_time)).toEqual(['14:00', '14:35']);
+    expect((await provider.listEvents('tomorrow')).data).toEqual([]);
+  });
+
+  it('serves the latest prices at the simulated time', async () => {
+    const price = async (time: string) => {
+      const { provider } = providerAt(time);
+      const racecards = (await provider.listEvents('today')).data ?? [];
+      const events = (await provider.fetchPrices(racecards)).data;
+      const bet365 = events[0].bookmakers.find((b) => b.key === 'bet365');
+      return bet365?.markets[0].outcomes.find((o) => o.name === 'Northern Flame')?.price;
+    };
+
+    expect(await price('10:30')).toBe(4);
+    expect(await price('13:45')).toBe(3);
+  });
+
+  it('reveals results only after the off', async () => {
+    const dates = async (time: string) => {
+      const { provider } = providerAt(time);
+      return ((await provider.fetchResults('today')).data ?? []).map((race) => race.off_time);
+    };
+
+    expect(await dates('13:55')).toEqual([]);
+    expect(await dates('14:15')).toEqual(['14:00']);
+    expect(await dates('16:00')).toEqual(['14:00', '14:35']);
+  });
+
+  it('detects the withdrawal with its Rule 4 deduction', async () => {
+    expect(await replayNonRunners(SAMPLE, new Date('2026-03-10T11:00:00Z'))).toEqual([]);
+
+    const [nonRunner] = await replayNonRunners(SAMPLE, new Date('2026-03-10T12:30:00Z'));
+    expect(nonRunner.runnerName).toBe('Quiet Harbour');
+    expect(nonRunner.withdrawnAt).toBe('2026-03-10T12:00:00.000Z');
+    // Last bookmaker average just over 4/1: the 9/2 to 11/2 band
+    expect(nonRunner.deduction).toBe(20);
+  });
+
+  it('rebuilds snapshots as the collector would have stored them', async () => {
+    const snaps = await replaySnapshots(SAMPLE, new Date('2026-03-10T16:00:00Z'), (id) => id === 'rac_sample_1');
+    const flame = snaps.filter((s) => s.runner_name === 'Northern Flame' && s.bookmaker === 'bet365');
+
+    expect(flame.map((s) => [s.snapshot_time, s.back_price, s.is_opening])).toEqual([
+      ['2026-03-10T10:00:00.000Z', 4, true],
+      ['2026-03-10T13:30:00.000Z', 3, false],
+    ]);
+    // Nothing after the off
+    expect(snaps.every((s) => s.snapshot_time! < '2026-03-10T14:00:00.000Z')).toBe(true);
+
+    // Every book cut Northern Flame at 13:30
+    const steam = detectMovements(snaps).filter((m) => m.kind === 'steam' && m.runnerName === 'Northern Flame');
+    expect(steam.map((m) => [m.at, m.books])).toEqual([['2026-03-10T13:30:00.000Z', 4]]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Fixture mode: an odds provider that replays recorded provider responses,
+ * and the recording wrapper that captures them from a live provider.
+ *
+ * See fixture-store.ts for the file layout and the simulated clock.
+ */
+
+import { OddsProvider } from './odds-provider';
+import { ApiResponse, OddsApiEvent, RacingApiRacecard, RacingApiRunner } from './types';
+import { toEventId, transformRacecardsToEvents } from './racing-api';
+import {
+  ReplayClock,
+  appendFrame,
+  fixtureClock,
+  replayEvents,
+  replayRacecards,
+  replayResults,
+} from './fixture-store';
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function failure<T>(dir: string, err: unknown): ApiResponse<T> {
+  console.error('Fixture provider error:', err);
+  return {
+    data: null,
+    error: `Fixture error (${dir}): ${err instanceof Error ? err.message : String(err)}`,
+  };
+}
+
+/**
+ * Replay a fixture directory on the simulated clock. "today" is the
+ * simulated date, prices are the latest recorded at the simulated time,
+ * and results appear once each race is past the off.
+ *
+ * @param clock - Defaults to the directory's shared clock (the one
+ *   /api/fixture/clock controls)
+ */
+export function createFixtureProvider(dir: string, clock: ReplayClock = fixtureClock(dir)): OddsProvider {
+  return {
+    id: 'fixture',
+    capabilities: {
+      bookmakerOdds: true,
+      exchangeOdds: false,
+      results: true,
+      resultsRange: true,
+      live: false,
+    },
+
+    async listEvents(day) {
+      try {
+        const now = await clock.now();
+        const today = now.toISOString().slice(0, 10);
+        const date = day === 'tomorrow' ? addDays(today, 1) : today;
+        return { data: (await replayRacecards(dir, now)).filter((race) => race.date === date), error: null };
+      } catch (err) {
+        return failure(dir, err);
+      }
+    },
+
+    async fetchPrices(racecards) {
+      try {
+        const events = await replayEvents(dir, await clock.now());
+        // Races with no recorded prices yet fall back to the racecard itself
+        const data = racecards.map(
+          (race) => events?.get(toEventId(race)) ?? transformRacecardsToEvents([race])[0]
+        );
+        return { data, error: null, warning: null };
+      } catch (err) {
+        return { data: [], error: failure(dir, err).error, warning: null };
+      }
+    },
+
+    async fetchResults(day) {
+      try {
+        const now = await clock.now();
+        const today = now.toISOString().slice(0, 10);
+        const date = day === 'tomorrow' ? addDays(today, 1) : today;
+        return { data: (await replayResults(dir, now)).filter((race) => race.date === date), error: null };
+      } catch (err) {
+        return failure(dir, err);
+      }
+    },
+
+    async fetchResultsRange(startDate, endDate) {
+      try {
+        const results = await replayResults(dir, await clock.now());
+        return { data: results.filter((race) => race.date >= startDate && race.date <= endDate), error: null };
+      } catch (err) {
+        return failure(dir, err);
+      }
+    },
+
+    clock: () => clock.now(),
+  };
+}
+
+/** A racecard runner without its bookmaker odds */
+function withoutOdds(runner: RacingApiRunner): RacingApiRunner {
+  const copy = { ...runner };
+  delete copy.odds;
+  return copy;
+}
+
+// Price signature per event (ignores fetch timestamps), last one recorded
+const recordedPrices = new Map<string, string>();
+
+function priceSignature(event: OddsApiEvent): string {
+  return JSON.stringify([
+    event.bookmakers.map((b) => [b.key, b.markets.map((m) => m.outcomes)]),
+    event.exchange?.runners ?? null,
+    event.exchange_place?.runners ?? null,
+  ]);
+}
+
+/**
+ * Wrap a live provider so every successful response is also appended to
+ * the fixture directory (ODDS_RECORD=true). Racecards are stored without
+ * their bookmaker odds — prices are recorded separately as events, and
+ * only for events whose prices changed since the last frame.
+ */
+export function withRecording(provider: OddsProvider, dir: string): OddsProvider {
+  const record = (promise: Promise<void>) =>
+    promise.catch((err) => console.error('Fixture recording error:', err));
+
+  return {
+    ...provider,
+
+    async listEvents(day) {
+      const result = await provider.listEvents(day);
+      if (result.data) {
+        const data: RacingApiRacecard[] = result.data.map((race) => ({
+          ...race,
+          runners: (race.runners || []).map(withoutOdds),
+        }));
+        await record(
+          appendFrame(dir, 'racecards', { recordedAt: new Date().toISOString(), day, data }, JSON.stringify(data))
+        );
+      }
+      return result;
+    },
+
+    async fetchPrices(racecards) {
+      const result = await provider.fetchPrices(racecards);
+      // Only events whose prices moved; replay keeps the latest per event
+      const changed = result.error
+        ? []
+        : result.data.filter((event) => recordedPrices.get(event.id) !== priceSignature(event));
+      if (changed.length > 0) {
+        await record(appendFrame(dir, 'events', { recordedAt: new Date().toISOString(), data: changed }));
+        for (const event of changed) recordedPrices.set(event.id, priceSignature(event));
+      }
+      return result;
+    },
+
+    async fetchResults(day) {
+      const result = await provider.fetchResults(day);
+      if (result.data) {
+        await record(
+          appendFrame(dir, 'results', { recordedAt: new Date().toISOString(), day, data: result.data }, JSON.stringify(result.data))
+        );
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,376 @@
+/**
+ * Recorded fixtures and the replay clock behind fixture mode.
+ *
+ * A fixture directory holds frames — what a provider call returned and when:
+ *   racecards.jsonl — { recordedAt, day, data: RacingApiRacecard[] } (odds stripped)
+ *   events.jsonl    — { recordedAt, data: OddsApiEvent[] } (events whose prices changed)
+ *   results.jsonl   — { recordedAt, day, data: RacingApiResult[] }
+ * Hand-written racecards.json / events.json / results.json files are read
+ * as a single frame recorded before everything else.
+ *
+ * Replay runs on a simulated clock: it starts at FIXTURE_START (default: the
+ * first recorded frame) and advances at FIXTURE_SPEED × real time (0 freezes
+ * it). Each read sees the latest frame per race at the simulated time, and
+ * results only once the race is FIXTURE_RESULT_DELAY_MS past the off.
+ */
+
+import { readFile, appendFile, mkdir, stat } from 'fs/promises';
+import path from 'path';
+import {
+  NonRunner,
+  OddsApiEvent,
+  OddsSnapshot,
+  RacingApiRacecard,
+  RacingApiResult,
+  RaceRecord,
+  RaceResultRecord,
+  RunnerRecord,
+} from './types';
+import { RaceDay } from './odds-provider';
+import { toEventId, toCommenceTime } from './racing-api';
+import { buildSnapshots } from './snapshot-store';
+import { buildRaceRecord, buildRunnerRecord } from './race-store';
+import { buildResultRecords } from './results-store';
+import { toNonRunner, withdrawalPrice } from './non-runners';
+import { FIXTURE_RESULT_DELAY_MS } from './constants';
+
+export interface FixtureFrame<T> {
+  recordedAt: string;
+  day?: RaceDay;
+  data: T[];
+}
+
+export type FixtureKind = 'racecards' | 'events' | 'results';
+
+// Hand-written single-file fixtures sort before any recording
+const STATIC_FRAME_TIME = new Date(0).toISOString();
+
+/** Fixture directory used by fixture mode and recording */
+export function fixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.ODDS_FIXTURE_DIR || 'fixtures');
+}
+
+// ============================================================
+// Frames
+// ============================================================
+
+const frameCache = new Map<string, { version: string; frames: FixtureFrame<unknown>[] }>();
+
+async function fileVersion(file: string): Promise<string | null> {
+  try {
+    const info = await stat(file);
+    return `${info.mtimeMs}:${info.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load every frame of one kind, oldest first. Parsed files are cached until
+ * they change on disk.
+ */
+export async function loadFrames<T>(dir: string, kind: FixtureKind): Promise<FixtureFrame<T>[]> {
+  const staticFile = path.join(dir, `${kind}.json`);
+  const recordedFile = path.join(dir, `${kind}.jsonl`);
+  const staticVersion = await fileVersion(staticFile);
+  const recordedVersion = await fileVersion(recordedFile);
+  const version = `${staticVersion}|${recordedVersion}`;
+  const cacheKey = `${dir}/${kind}`;
+
+  const cached = frameCache.get(cacheKey);
+  if (cached && cached.version === version) return cached.frames as FixtureFrame<T>[];
+
+  const frames: FixtureFrame<T>[] = [];
+
+  if (staticVersion) {
+    const json = JSON.parse(await readFile(staticFile, 'utf8'));
+    const data = Array.isArray(json) ? json : Array.isArray(json?.[kind]) ? json[kind] : [];
+    frames.push({ recordedAt: STATIC_FRAME_TIME, data });
+  }
+
+  if (recordedVersion) {
+    for (const line of (await readFile(recordedFile, 'utf8')).split('\n')) {
+      if (line.trim()) frames.push(JSON.parse(line));
+    }
+  }
+
+  frames.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  frameCache.set(cacheKey, { version, frames });
+  return frames;
+}
+
+// Last signature written per file/day, so unchanged responses aren't re-recorded
+const lastRecorded = new Map<string, string>();
+
+/**
+ * Append a frame to a recording. When a `signature` is given, a response
+ * identical to the previous one for the same kind and day is skipped to
+ * keep recordings small.
+ */
+export async function appendFrame<T>(
+  dir: string,
+  kind: FixtureKind,
+  frame: FixtureFrame<T>,
+  signature?: string
+): Promise<void> {
+  const key = `${dir}/${kind}/${frame.day ?? ''}`;
+  if (signature !== undefined && lastRecorded.get(key) === signature) return;
+
+  await mkdir(dir, { recursive: true });
+  await appendFile(path.join(dir, `${kind}.jsonl`), JSON.stringify(frame) + '\n');
+  if (signature !== undefined) lastRecorded.set(key, signature);
+}
+
+/**
+ * Latest version of each item across the frames recorded up to `now`
+ * (every frame when `now` is null), keyed by `keyOf`. Falls back to the
+ * first frame when the clock is earlier than the whole recording.
+ */
+function latestById<T>(frames: FixtureFrame<T>[], now: Date | null, keyOf: (item: T) => string): Map<string, T> {
+  const nowIso = now?.toISOString();
+  const visible = nowIso ? frames.filter((f) => f.recordedAt <= nowIso) : frames;
+  const items = new Map<string, T>();
+
+  for (const frame of visible.length > 0 ? visible : frames.slice(0, 1)) {
+    for (const item of frame.data) items.set(keyOf(item), item);
+  }
+
+  return items;
+}
+
+// ============================================================
+// Replay clock
+// ============================================================
+
+interface ClockState {
+  /** Simulated time at the anchor */
+  simMs: number;
+  /** Real time at the anchor */
+  realMs: number;
+  speed: number;
+}
+
+/** Simulated time for one fixture directory */
+export interface ReplayClock {
+  now(): Promise<Date>;
+  /** Jump the simulated time and/or change the speed */
+  set(time?: Date, speed?: number): Promise<{ now: Date; speed: number }>;
+  /** Restart from the configured start */
+  reset(): void;
+  speed(): number;
+}
+
+/** First and last recorded frame times (static fixtures excluded) */
+export async function recordingRange(dir: string): Promise<{ start: string | null; end: string | null }> {
+  const times = (
+    await Promise.all((['racecards', 'events', 'results'] as FixtureKind[]).map((kind) => loadFrames(dir, kind)))
+  )
+    .flat()
+    .map((f) => f.recordedAt)
+    .filter((t) => t !== STATIC_FRAME_TIME)
+    .sort();
+
+  return { start: times[0] ?? null, end: times[times.length - 1] ?? null };
+}
+
+async function defaultStart(dir: string): Promise<number> {
+  const configured = Date.parse(process.env.FIXTURE_START || '');
+  if (!isNaN(configured)) return configured;
+
+  const { start } = await recordingRange(dir);
+  if (start) return Date.parse(start);
+
+  // Hand-written racecards only: start an hour before the first race
+  const offs = (await loadFrames<RacingApiRacecard>(dir, 'racecards'))
+    .flatMap((f) => f.data)
+    .map((race) => Date.parse(toCommenceTime(race)))
+    .filter((t) => !isNaN(t));
+  return offs.length > 0 ? Math.min(...offs) - 60 * 60_000 : Date.now();
+}
+
+/**
+ * A replay clock over a fixture directory. It starts at `start` (default:
+ * FIXTURE_START, else the start of the recording) and runs at `speed`
+ * (default: FIXTURE_SPEED, else 1) × real time; speed 0 freezes it.
+ */
+export function createReplayClock(dir: string, options: { start?: Date; speed?: number } = {}): ReplayClock {
+  let state: ClockState | null = null;
+
+  const initialSpeed = () => {
+    const speed = options.speed ?? Number(process.env.FIXTURE_SPEED ?? 1);
+    return isNaN(speed) ? 1 : speed;
+  };
+
+  const clock: ReplayClock = {
+    async now() {
+      if (!state) {
+        const simMs = options.start?.getTime() ?? (await defaultStart(dir));
+        state = { simMs, realMs: Date.now(), speed: initialSpeed() };
+      }
+      return new Date(state.simMs + (Date.now() - state.realMs) * state.speed);
+    },
+
+    async set(time, speed) {
+      const now = time ?? (await clock.now());
+      state = { simMs: now.getTime(), realMs: Date.now(), speed: speed ?? state?.speed ?? initialSpeed() };
+      return { now, speed: state.speed };
+    },
+
+    reset() {
+      state = null;
+    },
+
+    speed() {
+      return state?.speed ?? initialSpeed();
+    },
+  };
+
+  return clock;
+}
+
+// The server's routes share one clock per fixture directory
+const sharedClocks = new Map<string, ReplayClock>();
+
+/** The shared replay clock for a fixture directory */
+export function fixtureClock(dir: string): ReplayClock {
+  let clock = sharedClocks.get(dir);
+  if (!clock) {
+    clock = createReplayClock(dir);
+    sharedClocks.set(dir, clock);
+  }
+  return clock;
+}
+
+/** Current simulated time on the shared clock */
+export function fixtureNow(dir: string): Promise<Date> {
+  return fixtureClock(dir).now();
+}
+
+// ============================================================
+// Replayed reads
+// ============================================================
+
+/** Latest racecard per race as known at `now` */
+export async function replayRacecards(dir: string, now: Date): Promise<RacingApiRacecard[]> {
+  const frames = await loadFrames<RacingApiRacecard>(dir, 'racecards');
+  return Array.from(latestById(frames, now, (race) => toEventId(race)).values());
+}
+
+/** Latest priced event per event ID at `now` */
+export async function replayEvents(dir: string, now: Date): Promise<Map<string, OddsApiEvent> | null> {
+  const frames = await loadFrames<OddsApiEvent>(dir, 'events');
+  if (frames.length === 0) return null;
+  return latestById(frames, now, (event) => event.id);
+}
+
+/** Results for races that are past the off (plus the reveal delay) at `now` */
+export async function replayResults(dir: string, now: Date): Promise<RacingApiResult[]> {
+  const frames = await loadFrames<RacingApiResult>(dir, 'results');
+  // Results can be recorded long after the race; reveal by off time instead
+  const all = latestById(frames, null, (race) => toEventId(race));
+
+  return Array.from(all.values()).filter((race) => {
+    const off = Date.parse(toCommenceTime(race));
+    return !isNaN(off) && off + FIXTURE_RESULT_DELAY_MS <= now.getTime();
+  });
+}
+
+/**
+ * Odds snapshots as the collector would have stored them up to `now`:
+ * one row per price change, the first per (event, runner, bookmaker)
+ * flagged as the opening, nothing after the off.
+ */
+export async function replaySnapshots(
+  dir: string,
+  now: Date,
+  includeEvent: (eventId: string) => boolean
+): Promise<OddsSnapshot[]> {
+  const frames = await loadFrames<OddsApiEvent>(dir, 'events');
+  const nowIso = now.toISOString();
+  const last = new Map<string, string>();
+  const rows: OddsSnapshot[] = [];
+
+  for (const frame of frames) {
+    if (frame.recordedAt > nowIso) break;
+    const events = frame.data.filter(
+      (event) => includeEvent(event.id) && frame.recordedAt < new Date(event.commence_time).toISOString()
+    );
+
+    for (const snap of buildSnapshots(events)) {
+      const key = `${snap.event_id}::${snap.runner_name}::${snap.bookmaker}`;
+      const price = `${snap.back_price}/${snap.lay_price}`;
+      if (last.get(key) === price) continue;
+
+      rows.push({ ...snap, snapshot_time: frame.recordedAt, is_opening: !last.has(key) });
+      last.set(key, price);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Non-runners as detection would have found them up to `now`: a runner on
+ * an earlier racecard frame that is missing from a later one before the off,
+ * priced from the last recorded event before it went.
+ */
+export async function replayNonRunners(dir: string, now: Date): Promise<NonRunner[]> {
+  const nowIso = now.toISOString();
+  const racecardFrames = (await loadFrames<RacingApiRacecard>(dir, 'racecards')).filter((f) => f.recordedAt <= nowIso);
+  const eventFrames = await loadFrames<OddsApiEvent>(dir, 'events');
+  const declared = new Map<string, Set<string>>();
+  const nonRunners: NonRunner[] = [];
+
+  for (const frame of racecardFrames) {
+    for (const race of frame.data) {
+      if (!race.runners?.length || frame.recordedAt >= new Date(toCommenceTime(race)).toISOString()) continue;
+      const eventId = toEventId(race);
+      const names = new Set(race.runners.map((runner) => runner.horse).filter(Boolean));
+      const known = declared.get(eventId);
+
+      for (const name of known ?? []) {
+        if (names.has(name) || nonRunners.some((nr) => nr.eventId === eventId && nr.runnerName === name)) continue;
+        const before = new Date(Date.parse(frame.recordedAt) - 1);
+        const event = latestById(eventFrames, before, (e) => e.id).get(eventId);
+        const latest = event ? buildSnapshots([event]).filter((snap) => snap.runner_name === name) : [];
+        nonRunners.push(toNonRunner(eventId, name, frame.recordedAt, withdrawalPrice(latest)));
+      }
+
+      declared.set(eventId, new Set([...(known ?? []), ...names]));
+    }
+  }
+
+  return nonRunners;
+}
+
+/** Time of the latest price frame at `now` (the replayed "last snapshot") */
+export async function lastEventFrameTime(dir: string, now: Date): Promise<string | null> {
+  const nowIso = now.toISOString();
+  const frames = (await loadFrames<OddsApiEvent>(dir, 'events')).filter(
+    (f) => f.recordedAt !== STATIC_FRAME_TIME && f.recordedAt <= nowIso
+  );
+  return frames[frames.length - 1]?.recordedAt ?? null;
+}
+
+/** Replayed race_results rows for one race (empty until revealed) */
+export async function replayResultRecords(dir: string, now: Date, eventId: string): Promise<RaceResultRecord[]> {
+  const race = (await replayResults(dir, now)).find((r) => toEventId(r) === eventId);
+  return race ? buildResultRecords(race) : [];
+}
+
+/** Replayed racecard (races + runners rows) for one race */
+export async function replayRacecard(
+  dir: string,
+  now: Date,
+  eventId: string
+): Promise<{ race: RaceRecord; runners: RunnerRecord[] } | null> {
+  const race = (await replayRacecards(dir, now)).find((r) => toEventId(r) === eventId);
+  if (!race) return null;
+
+  const runners = (race.runners || [])
+    .filter((runner) => runner.horse)
+    .map((runner) => buildRunnerRecord(eventId, runner))
+    .sort((a, b) => (a.number ?? 999) - (b.number ?? 999));
+
+  return { race: buildRaceRecord(race), runners };
+}
@@ -0,0 +1,179 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OddsSnapshot, RaceRecord, RaceResultRecord } from './types';
+
+// Supabase caps a single select at 1000 rows by default
+const PAGE_SIZE = 1000;
+
+/**
+ * Load every stored snapshot for races that started within a date range,
+ * ordered by race then snapshot time.
+ *
+ * Prices come back from Postgres DECIMAL columns as strings, so they are
+ * normalised to numbers here to keep the replay code free of parsing.
+ *
+ * @param startDate - First race day to include (YYYY-MM-DD)
+ * @param endDate - Last race day to include (YYYY-MM-DD)
+ */
+export async function fetchSnapshotsInRange(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<{ data: OddsSnapshot[]; error: string | null }> {
+  const from = `${startDate}T00:00:00Z`;
+  const to = new Date(`${endDate}T00:00:00Z`);
+  to.setUTCDate(to.getUTCDate() + 1);
+
+  const rows: OddsSnapshot[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('odds_snapshots')
+      .select('*')
+      .gte('commence_time', from)
+      .lt('commence_time', to.toISOString())
+      .order('event_id', { ascending: true })
+      .order('snapshot_time', { ascending: true })
+      // Rows from one collection cycle share a snapshot_time: id keeps pages stable
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Supabase query error:', error);
+      return { data: rows, error: error.message };
+    }
+
+    for (const row of data || []) {
+      rows.push({
+        ...row,
+        back_price: toPrice(row.back_price),
+        lay_price: toPrice(row.lay_price),
+        total_matched: row.total_matched === null || row.total_matched === undefined ? null : Number(row.total_matched),
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { data: rows, error: null };
+}
+
+/** Opening price row as served to the dashboard */
+export type OpeningSnapshot = Pick<OddsSnapshot, 'event_id' | 'runner_name' | 'bookmaker' | 'back_price' | 'is_opening'>;
+
+/**
+ * Load opening snapshots for races that have not started yet (the
+ * dashboard only lays before the off), with prices normalised. Comparing
+ * the off time itself avoids keeping a whole UTC day of finished races.
+ *
+ * @param now - Races off at or before this time are left out
+ */
+export async function fetchOpeningSnapshots(
+  supabase: SupabaseClient,
+  now: Date
+): Promise<{ data: OpeningSnapshot[]; error: string | null }> {
+  const rows: OpeningSnapshot[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('odds_snapshots')
+      .select('id, event_id, runner_name, bookmaker, back_price, is_opening')
+      .eq('is_opening', true)
+      .gt('commence_time', now.toISOString())
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Supabase query error:', error);
+      return { data: rows, error: error.message };
+    }
+
+    for (const row of data || []) {
+      rows.push({
+        event_id: row.event_id,
+        runner_name: row.runner_name,
+        bookmaker: row.bookmaker,
+        back_price: toPrice(row.back_price),
+        is_opening: row.is_opening,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { data: rows, error: null };
+}
+
+/**
+ * Load stored racecard metadata for races within a date range,
+ * keyed by event ID.
+ */
+export async function fetchRacesInRange(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<{ data: Map<string, RaceRecord>; error: string | null }> {
+  const races = new Map<string, RaceRecord>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('races')
+      .select('*')
+      .gte('race_date', startDate)
+      .lte('race_date', endDate)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Supabase query error:', error);
+      return { data: races, error: error.message };
+    }
+
+    for (const row of data || []) {
+      races.set(row.id, row);
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { data: races, error: null };
+}
+
+/**
+ * Load stored race results (one row per runner) for a date range.
+ */
+export async function fetchStoredResultsInRange(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<{ data: RaceResultRecord[]; error: string | null }> {
+  const rows: RaceResultRecord[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('race_results')
+      .select('*')
+      .gte('race_date', startDate)
+      .lte('race_date', endDate)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Supabase query error:', error);
+      return { data: rows, error: error.message };
+    }
+
+    for (const row of data || []) {
+      rows.push({ ...row, sp_dec: toPrice(row.sp_dec) });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { data: rows, error: null };
+}
+
+function toPrice(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const price = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(price) || price <= 0 ? null : price;
+}
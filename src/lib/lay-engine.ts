@@ -13,6 +13,12 @@
  * - We LOSE liability L = S*(O-1) if the horse WINS
  */
 
+import { RaceMeta, ValueSignalLevel } from './types';
+import { snapToTick } from './tick-ladder';
+import { priceCompression } from './calculations';
+import { MovementCondition, MovementEvent, movementConditionReasons } from './movement';
+import { DEFAULT_STRATEGY, StrategyNode, evaluateStrategy } from './strategy';
+
 // ============================================================
 // Probability Model
 // ============================================================
@@ -45,6 +51,83 @@ export function modelProbability(
   return 1 / (1 + params.alpha * Math.pow(x, params.beta));
 }
 
+// ============================================================
+// Model Segments
+// ============================================================
+
+/**
+ * Racecard criteria for a segment. Omitted (or empty) criteria match any race.
+ * String criteria are compared case-insensitively against RaceMeta.
+ */
+export interface ModelSegmentMatch {
+  types?: string[];
+  raceClasses?: string[];
+  fieldSizeMin?: number;
+  fieldSizeMax?: number;
+  goings?: string[];
+  surfaces?: string[];
+  regions?: string[];
+}
+
+export interface ModelSegment {
+  id: string;
+  /** Display name, e.g. "NH Chases" */
+  label: string;
+  match: ModelSegmentMatch;
+  params: ModelParams;
+}
+
+export interface ResolvedModelParams {
+  params: ModelParams;
+  /** Label of the matching segment, or 'global' for the fallback pair */
+  segment: string;
+}
+
+/**
+ * Pick the calibration parameters for a race.
+ *
+ * Segments are checked in table order and the first one whose criteria all
+ * match wins, so more specific segments should be listed first. Races with
+ * no racecard metadata, or that match nothing, use the global pair.
+ */
+export function resolveModelParams(
+  meta: RaceMeta | null,
+  segments: ModelSegment[],
+  fallback: ModelParams
+): ResolvedModelParams {
+  if (meta) {
+    for (const segment of segments) {
+      if (segmentMatches(segment.match, meta)) {
+        return { params: segment.params, segment: segment.label };
+      }
+    }
+  }
+  return { params: fallback, segment: 'global' };
+}
+
+function segmentMatches(match: ModelSegmentMatch, meta: RaceMeta): boolean {
+  if (!matchesAny(match.types, meta.type)) return false;
+  if (!matchesAny(match.raceClasses, meta.raceClass)) return false;
+  if (!matchesAny(match.goings, meta.going)) return false;
+  if (!matchesAny(match.surfaces, meta.surface)) return false;
+  if (!matchesAny(match.regions, meta.region)) return false;
+
+  if (match.fieldSizeMin !== undefined || match.fieldSizeMax !== undefined) {
+    if (meta.fieldSize === null) return false;
+    if (match.fieldSizeMin !== undefined && meta.fieldSize < match.fieldSizeMin) return false;
+    if (match.fieldSizeMax !== undefined && meta.fieldSize > match.fieldSizeMax) return false;
+  }
+
+  return true;
+}
+
+function matchesAny(allowed: string[] | undefined, value: string | null): boolean {
+  if (!allowed || allowed.length === 0) return true;
+  if (!value) return false;
+  const v = value.trim().toLowerCase();
+  return allowed.some((a) => a.trim().toLowerCase() === v);
+}
+
 // ============================================================
 // Core Lay Betting Math
 // ============================================================
@@ -273,29 +356,62 @@ export interface LayDecisionInput {
   initialOdds: number | null;
   currentOdds: number | null;
   averageOdds: number | null;
+  /** Consensus P(win) with the overround removed; the model reads it as fair odds 1/p in place of averageOdds */
+  fairConsensusProb?: number | null;
+  /** P(win) at the exchange price with the exchange book's overround removed; replaces 1/currentOdds as pMarket */
+  fairMarketProb?: number | null;
   bankroll: number;
   commission: number;
   kellyMultiplier: number;
   maxLiabilityPct: number;
   minStake: number;
+  /** Global calibration pair (used when no segment matches) */
   modelParams: ModelParams;
+  /** Racecard attributes for segment lookup */
+  raceMeta?: RaceMeta | null;
+  /** Segment table — first match overrides modelParams */
+  modelSegments?: ModelSegment[];
+  /** Place market for this runner (omit when the race pays no places) */
+  place?: PlaceLayInput | null;
+  /** Price movements detected for this runner (see movement.ts) */
+  movements?: MovementEvent[];
+  /** Movement conditions the win lay must also meet */
+  movementConditions?: MovementCondition[];
+  /** Entry rules for the win lay (defaults to price shortened AND lay value) */
+  strategy?: StrategyNode;
+  /** Race and market facts the strategy rules can check (null = unknown) */
+  fieldSize?: number | null;
+  bookmakerCount?: number | null;
+  minutesToOff?: number | null;
+  valueSignal?: ValueSignalLevel | null;
+}
+
+export interface PlaceLayInput {
+  /** Places paid */
+  places: number;
+  /** Model P(finishes in the places), e.g. from harvillePlaceProbabilities */
+  pPlace: number;
+  /** Best lay in the exchange PLACE market */
+  placeOdds: number | null;
 }
 
 export interface LayDecision {
   // --- Model ---
   /** Our model's estimated P(win) */
   pModel: number | null;
-  /** Market-implied P(win) from current odds: 1/O */
+  /** Market P(win) at current odds: de-margined when fairMarketProb is given, else 1/O */
   pMarket: number | null;
   /** Edge: pMarket - pModel (positive = we think horse is overpriced) */
   edge: number | null;
+  /** Price to request: current odds snapped up to a valid exchange tick */
+  layPrice: number | null;
 
   // --- Filter flags ---
   /** CurrentOdds < InitialOdds (price has shortened) */
   priceShortened: boolean;
   /** pModel < pMarket (value condition for laying) */
   hasLayValue: boolean;
-  /** All conditions met to place lay */
+  /** All conditions met to place lay: the strategy's rules, movement conditions and positive Kelly */
   placeLay: boolean;
   /** Reason codes for decision */
   reasons: string[];
@@ -306,38 +422,84 @@ export interface LayDecision {
   // --- EV ---
   ev: number | null;
   evPctBankroll: number | null;
+
+  // --- Place market ---
+  /** Lay in the PLACE market, evaluated independently (null when the race pays no places) */
+  placeMarket: PlaceLayDecision | null;
+}
+
+/**
+ * Lay decision in a PLACE market. The horse "wins" for the layer's
+ * purposes if it finishes in the places, so the same Kelly and EV math
+ * applies with P(place) in place of P(win).
+ */
+export interface PlaceLayDecision {
+  places: number;
+  /** Model P(place) */
+  pModel: number;
+  /** Market-implied P(place): 1/O */
+  pMarket: number | null;
+  edge: number | null;
+  /** Place odds snapped up to a valid exchange tick */
+  layPrice: number | null;
+  /** pModel < pMarket */
+  hasLayValue: boolean;
+  placeLay: boolean;
+  reasons: string[];
+  kelly: FullKellyResult | null;
+  ev: number | null;
+  evPctBankroll: number | null;
 }
 
 /**
  * Evaluate a runner for a lay bet.
- * Full output contract per the spec.
+ * Full output contract per the spec; when `place` is given the PLACE
+ * market is evaluated too, with its own value check and Kelly sizing.
  */
 export function evaluateRunner(input: LayDecisionInput): LayDecision {
   const {
     initialOdds,
     currentOdds,
     averageOdds,
+    fairConsensusProb,
+    fairMarketProb,
     bankroll,
     commission,
     kellyMultiplier,
     maxLiabilityPct,
     minStake,
     modelParams,
+    raceMeta,
+    modelSegments,
+    place,
+    movements,
+    movementConditions,
+    strategy,
+    fieldSize,
+    bookmakerCount,
+    minutesToOff,
+    valueSignal,
   } = input;
 
   const reasons: string[] = [];
+  const placeMarket = place ? evaluatePlaceLay(place, input) : null;
 
   // Can't evaluate without current odds
   if (currentOdds === null || currentOdds <= 1) {
-    return nullDecision(['No current odds available']);
+    return nullDecision(['No current odds available'], placeMarket);
   }
 
-  // Model probability: use average odds (consensus) for best estimate,
-  // falling back to current odds
-  const oddsForModel = averageOdds ?? currentOdds;
-  const pModel = modelProbability(oddsForModel, modelParams);
-  const pMarket = marketImpliedProb(currentOdds);
+  // Calibration for this race's segment (falls back to the global pair)
+  const resolved = resolveModelParams(raceMeta ?? null, modelSegments ?? [], modelParams);
+  const segmentReason = `Model segment: ${resolved.segment}`;
+
+  // Model probability: use the fair consensus (margin removed) for best
+  // estimate, then average odds, falling back to current odds
+  const oddsForModel = fairConsensusProb ? 1 / fairConsensusProb : averageOdds ?? currentOdds;
+  const pModel = modelProbability(oddsForModel, resolved.params);
+  const pMarket = fairMarketProb ?? marketImpliedProb(currentOdds);
   const edge = pMarket - pModel;
+  const layPrice = snapToTick(currentOdds, 'up');
 
   // Filter 1: Price has shortened (currentOdds < initialOdds)
   const priceShortened =
@@ -348,35 +510,47 @@ export function evaluateRunner(input: LayDecisionInput): LayDecision {
   // has overpriced the horse → good to lay.
   const hasLayValue = pModel < pMarket;
 
-  // Decision
-  if (!priceShortened) {
-    reasons.push('Price not shortened');
-  }
-  if (!hasLayValue) {
-    reasons.push('No lay value (model p >= market p)');
-  }
+  // Decision: the strategy's entry rules (by default filters 1 and 2)
+  const ruleReasons = evaluateStrategy(strategy ?? DEFAULT_STRATEGY, {
+    priceShortened,
+    hasLayValue,
+    compressionPercent: initialOdds !== null ? priceCompression(initialOdds, currentOdds).percent : null,
+    edge,
+    currentOdds,
+    fieldSize: fieldSize ?? null,
+    bookmakerCount: bookmakerCount ?? null,
+    minutesToOff: minutesToOff ?? null,
+    valueSignal: valueSignal ?? null,
+  });
+  reasons.push(...ruleReasons);
+
+  // Filter 3: optional movement conditions (e.g. require steam, avoid late money)
+  const movementReasons = movementConditionReasons(movements ?? [], movementConditions ?? []);
+  reasons.push(...movementReasons);
 
-  const placeLay = priceShortened && hasLayValue;
+  const placeLay = ruleReasons.length === 0 && movementReasons.length === 0;
 
   if (!placeLay) {
     return {
       pModel,
       pMarket,
       edge,
+      layPrice,
       priceShortened,
       hasLayValue,
       placeLay: false,
-      reasons,
+      reasons: [...reasons, segmentReason],
       kelly: null,
       ev: null,
       evPctBankroll: null,
+      placeMarket,
     };
   }
 
-  // Run Full Kelly
+  // Run Full Kelly at the price we can actually request
   const kelly = kellyLay({
     bankroll,
-    layOdds: currentOdds,
+    layOdds: layPrice,
     pWin: pModel,
     commission,
     kellyMultiplier,
@@ -390,13 +564,15 @@ export function evaluateRunner(input: LayDecisionInput): LayDecision {
       pModel,
       pMarket,
       edge,
+      layPrice,
       priceShortened,
       hasLayValue,
       placeLay: false,
-      reasons,
+      reasons: [...reasons, segmentReason],
       kelly,
       ev: kelly.ev,
       evPctBankroll: kelly.evPctBankroll,
+      placeMarket,
     };
   }
 
@@ -404,12 +580,13 @@ export function evaluateRunner(input: LayDecisionInput): LayDecision {
     reasons.push(`Stake £${kelly.layStake} below min £${minStake}`);
   }
 
-  reasons.push('PLACE LAY');
+  reasons.push('PLACE LAY', segmentReason);
 
   return {
     pModel,
     pMarket,
     edge,
+    layPrice,
     priceShortened,
     hasLayValue,
     placeLay: true,
@@ -417,6 +594,80 @@ export function evaluateRunner(input: LayDecisionInput): LayDecision {
     kelly,
     ev: kelly.ev,
     evPctBankroll: kelly.evPctBankroll,
+    placeMarket,
+  };
+}
+
+/**
+ * Evaluate a lay in the PLACE market.
+ *
+ * Only the value condition applies — the price-shortened filter is about
+ * the win market — and Kelly is sized at the place lay price with P(place).
+ */
+function evaluatePlaceLay(
+  place: PlaceLayInput,
+  sizing: Pick<LayDecisionInput, 'bankroll' | 'commission' | 'kellyMultiplier' | 'maxLiabilityPct' | 'minStake'>
+): PlaceLayDecision {
+  const { places, pPlace, placeOdds } = place;
+
+  if (placeOdds === null || placeOdds <= 1) {
+    return {
+      places,
+      pModel: pPlace,
+      pMarket: null,
+      edge: null,
+      layPrice: null,
+      hasLayValue: false,
+      placeLay: false,
+      reasons: ['No place lay price'],
+      kelly: null,
+      ev: null,
+      evPctBankroll: null,
+    };
+  }
+
+  const pMarket = marketImpliedProb(placeOdds);
+  const edge = pMarket - pPlace;
+  const layPrice = snapToTick(placeOdds, 'up');
+  const hasLayValue = pPlace < pMarket;
+  const base = { places, pModel: pPlace, pMarket, edge, layPrice, hasLayValue };
+
+  if (!hasLayValue) {
+    return {
+      ...base,
+      placeLay: false,
+      reasons: ['No place lay value (model p >= market p)'],
+      kelly: null,
+      ev: null,
+      evPctBankroll: null,
+    };
+  }
+
+  const kelly = kellyLay({
+    bankroll: sizing.bankroll,
+    layOdds: layPrice,
+    pWin: pPlace,
+    commission: sizing.commission,
+    kellyMultiplier: sizing.kellyMultiplier,
+    maxLiabilityPct: sizing.maxLiabilityPct,
+    minStake: sizing.minStake,
+  });
+
+  const reasons: string[] = [];
+  if (kelly.kellyFraction <= 0) {
+    reasons.push('Kelly fraction <= 0 (negative EV after commission)');
+  } else {
+    if (kelly.belowMinStake) reasons.push(`Stake £${kelly.layStake} below min £${sizing.minStake}`);
+    reasons.push('PLACE LAY');
+  }
+
+  return {
+    ...base,
+    placeLay: kelly.kellyFraction > 0,
+    reasons,
+    kelly,
+    ev: kelly.ev,
+    evPctBankroll: kelly.evPctBankroll,
   };
 }
 
@@ -439,11 +690,12 @@ export function breakEvenProb(layOdds: number, commission: number): number {
 // Helpers
 // ============================================================
 
-function nullDecision(reasons: string[]): LayDecision {
+function nullDecision(reasons: string[], placeMarket: PlaceLayDecision | null = null): LayDecision {
   return {
     pModel: null,
     pMarket: null,
     edge: null,
+    layPrice: null,
     priceShortened: false,
     hasLayValue: false,
     placeLay: false,
@@ -451,6 +703,7 @@ function nullDecision(reasons: string[]): LayDecision {
     kelly: null,
     ev: null,
     evPctBankroll: null,
+    placeMarket,
   };
 }
 
@@ -0,0 +1,307 @@
+/**
+ * Movement analytics: typed price-move events from the snapshot series.
+ *
+ * Compression compares two points (opening average vs current price);
+ * these events describe how the market got there. Bookmaker prices are
+ * carried forward between snapshots (only changes are stored) and the
+ * Betfair Exchange is left out, so every event reflects bookmaker money:
+ *   steam      — STEAM_MIN_BOOKS or more books cut the price within STEAM_WINDOW_MS
+ *   drift      — the consensus lengthens without a break for DRIFT_MIN_MS
+ *   reversal   — a move of REVERSAL_MIN_PCT or more is followed by one the other way
+ *   late-money — the consensus shortens in the last LATE_MONEY_WINDOW_MS before the off
+ *
+ * Magnitudes are percent changes in the consensus price, signed like
+ * compression: positive when the price shortened.
+ */
+
+import { OddsSnapshot } from './types';
+import {
+  BETFAIR_EXCHANGE_KEYS,
+  STEAM_WINDOW_MS,
+  STEAM_MIN_BOOKS,
+  STEAM_MIN_CUT_PCT,
+  DRIFT_MIN_MS,
+  DRIFT_MIN_PCT,
+  REVERSAL_MIN_PCT,
+  LATE_MONEY_WINDOW_MS,
+  LATE_MONEY_MIN_PCT,
+} from './constants';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type MovementKind = 'steam' | 'drift' | 'reversal' | 'late-money';
+
+export const MOVEMENT_LABELS: Record<MovementKind, string> = {
+  steam: 'Steam',
+  drift: 'Drift',
+  reversal: 'Reversal',
+  'late-money': 'Late money',
+};
+
+export interface MovementEvent {
+  eventId: string;
+  runnerName: string;
+  kind: MovementKind;
+  /** When the move started (ISO) */
+  from: string;
+  /** When the move was confirmed (ISO) */
+  at: string;
+  /** Consensus price at the start and at confirmation */
+  fromPrice: number;
+  toPrice: number;
+  /** Percent change in the consensus price (positive = shortened) */
+  magnitude: number;
+  /** Books that cut together (steam); books in the consensus otherwise */
+  books: number;
+}
+
+/**
+ * Extra lay condition on the runner's movements: `require` a kind of move
+ * before laying, or `avoid` laying once one has been seen.
+ */
+export interface MovementCondition {
+  kind: MovementKind;
+  mode: 'require' | 'avoid';
+}
+
+interface SeriesPoint {
+  time: number;
+  price: number;
+  books: number;
+}
+
+interface Cut {
+  time: number;
+  bookmaker: string;
+}
+
+// ============================================================
+// Detection
+// ============================================================
+
+/**
+ * Detect movement events for every runner in one race.
+ *
+ * @param snaps - The race's stored snapshots (any order)
+ * @returns Events in time order
+ */
+export function detectMovements(snaps: OddsSnapshot[]): MovementEvent[] {
+  const rows = snaps
+    .filter((s) => !BETFAIR_EXCHANGE_KEYS.includes(s.bookmaker) && s.back_price !== null && s.back_price > 1)
+    .sort((a, b) => snapTime(a) - snapTime(b));
+  if (rows.length === 0) return [];
+
+  const eventId = rows[0].event_id;
+  const commence = new Date(rows[0].commence_time).getTime();
+
+  // Per runner: each book's latest price, the consensus after every tick
+  // that changed it, and every significant cut
+  const latest = new Map<string, Map<string, number>>();
+  const series = new Map<string, SeriesPoint[]>();
+  const cuts = new Map<string, Cut[]>();
+
+  let i = 0;
+  while (i < rows.length) {
+    const tickTime = snapTime(rows[i]);
+    const changed = new Set<string>();
+
+    while (i < rows.length && snapTime(rows[i]) === tickTime) {
+      const { runner_name: runner, bookmaker } = rows[i];
+      const price = rows[i].back_price as number;
+      const books = latest.get(runner) ?? new Map<string, number>();
+      const previous = books.get(bookmaker);
+      if (previous !== undefined && price <= previous * (1 - STEAM_MIN_CUT_PCT / 100)) {
+        const runnerCuts = cuts.get(runner) || [];
+        runnerCuts.push({ time: tickTime, bookmaker });
+        cuts.set(runner, runnerCuts);
+      }
+      books.set(bookmaker, price);
+      latest.set(runner, books);
+      changed.add(runner);
+      i++;
+    }
+
+    for (const runner of changed) {
+      const prices = Array.from(latest.get(runner)!.values());
+      const probability = prices.reduce((sum, p) => sum + 1 / p, 0) / prices.length;
+      const points = series.get(runner) ?? [];
+      points.push({ time: tickTime, price: 1 / probability, books: prices.length });
+      series.set(runner, points);
+    }
+  }
+
+  const events: MovementEvent[] = [];
+  for (const [runnerName, points] of series) {
+    const event = (kind: MovementKind, start: SeriesPoint, end: SeriesPoint, books = end.books): MovementEvent => ({
+      eventId,
+      runnerName,
+      kind,
+      from: new Date(start.time).toISOString(),
+      at: new Date(end.time).toISOString(),
+      fromPrice: round2(start.price),
+      toPrice: round2(end.price),
+      magnitude: round2(percentMove(start.price, end.price)),
+      books,
+    });
+
+    events.push(
+      ...detectSteam(cuts.get(runnerName) ?? [], points, event),
+      ...detectDrifts(points, event),
+      ...detectReversals(points, event),
+      ...detectLateMoney(points, commence, event)
+    );
+  }
+
+  return events.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/**
+ * Whether a runner's movements meet the lay conditions.
+ *
+ * @returns One reason per failed condition (empty when all pass)
+ */
+export function movementConditionReasons(
+  movements: MovementEvent[],
+  conditions: MovementCondition[]
+): string[] {
+  const reasons: string[] = [];
+  for (const condition of conditions) {
+    const seen = movements.some((m) => m.kind === condition.kind);
+    const label = MOVEMENT_LABELS[condition.kind];
+    if (condition.mode === 'require' && !seen) reasons.push(`No ${label.toLowerCase()} move`);
+    if (condition.mode === 'avoid' && seen) reasons.push(`${label} move detected`);
+  }
+  return reasons;
+}
+
+// ============================================================
+// Detectors
+// ============================================================
+
+type EventFactory = (kind: MovementKind, start: SeriesPoint, end: SeriesPoint, books?: number) => MovementEvent;
+
+/**
+ * Steam: enough distinct books cutting within the window. Cuts counted
+ * towards one steam move can't start another.
+ */
+function detectSteam(cuts: Cut[], points: SeriesPoint[], event: EventFactory): MovementEvent[] {
+  const events: MovementEvent[] = [];
+  let consumedUntil = -Infinity;
+
+  for (const cut of cuts) {
+    const window = cuts.filter(
+      (c) => c.time > consumedUntil && c.time <= cut.time && c.time > cut.time - STEAM_WINDOW_MS
+    );
+    const books = new Set(window.map((c) => c.bookmaker)).size;
+    if (books < STEAM_MIN_BOOKS) continue;
+
+    const start = pointBefore(points, window[0].time) ?? points[0];
+    const end = pointAt(points, cut.time);
+    if (end) events.push(event('steam', start, end, books));
+    consumedUntil = cut.time;
+  }
+  return events;
+}
+
+/** Drift: an unbroken run of lengthening consensus prices, long and large enough */
+function detectDrifts(points: SeriesPoint[], event: EventFactory): MovementEvent[] {
+  const events: MovementEvent[] = [];
+  let start = 0;
+
+  for (let j = 1; j <= points.length; j++) {
+    if (j < points.length && points[j].price >= points[j - 1].price) continue;
+
+    // Run from `start` to j - 1 has ended
+    const first = points[start];
+    const last = points[j - 1];
+    if (last.time - first.time >= DRIFT_MIN_MS && -percentMove(first.price, last.price) >= DRIFT_MIN_PCT) {
+      events.push(event('drift', first, last));
+    }
+    start = j;
+  }
+  return events;
+}
+
+/**
+ * Reversal: zig-zag over the consensus. Once a move of REVERSAL_MIN_PCT
+ * has set a direction, a move of the same size back from its extreme is a
+ * reversal (and sets the new direction).
+ */
+function detectReversals(points: SeriesPoint[], event: EventFactory): MovementEvent[] {
+  const events: MovementEvent[] = [];
+  if (points.length < 3) return events;
+
+  let direction: 'shortening' | 'drifting' | null = null;
+  let extreme = points[0];
+  // Range before a direction is set
+  let low = points[0];
+  let high = points[0];
+
+  for (const point of points.slice(1)) {
+    if (direction === null) {
+      if (point.price < low.price) low = point;
+      if (point.price > high.price) high = point;
+      if (percentMove(high.price, point.price) >= REVERSAL_MIN_PCT) direction = 'shortening';
+      else if (-percentMove(low.price, point.price) >= REVERSAL_MIN_PCT) direction = 'drifting';
+      extreme = point;
+      continue;
+    }
+
+    const extendsMove = direction === 'shortening' ? point.price < extreme.price : point.price > extreme.price;
+    if (extendsMove) {
+      extreme = point;
+    } else if (Math.abs(percentMove(extreme.price, point.price)) >= REVERSAL_MIN_PCT) {
+      events.push(event('reversal', extreme, point));
+      direction = direction === 'shortening' ? 'drifting' : 'shortening';
+      extreme = point;
+    }
+  }
+  return events;
+}
+
+/** Late money: the shortest consensus in the final window vs the price going into it */
+function detectLateMoney(points: SeriesPoint[], commence: number, event: EventFactory): MovementEvent[] {
+  const windowStart = commence - LATE_MONEY_WINDOW_MS;
+  const base = pointBefore(points, windowStart + 1);
+  const late = points.filter((p) => p.time > windowStart && p.time < commence);
+  if (!base || late.length === 0) return [];
+
+  const shortest = late.reduce((best, p) => (p.price < best.price ? p : best));
+  return percentMove(base.price, shortest.price) >= LATE_MONEY_MIN_PCT
+    ? [event('late-money', base, shortest)]
+    : [];
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Percent change from one price to another, positive when it shortened */
+function percentMove(from: number, to: number): number {
+  return ((from - to) / from) * 100;
+}
+
+/** Last point strictly before a time */
+function pointBefore(points: SeriesPoint[], time: number): SeriesPoint | null {
+  let found: SeriesPoint | null = null;
+  for (const p of points) {
+    if (p.time >= time) break;
+    found = p;
+  }
+  return found;
+}
+
+/** Point at a tick time */
+function pointAt(points: SeriesPoint[], time: number): SeriesPoint | null {
+  return points.find((p) => p.time === time) ?? null;
+}
+
+function snapTime(snap: OddsSnapshot): number {
+  return new Date(snap.snapshot_time ?? snap.created_at ?? 0).getTime();
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
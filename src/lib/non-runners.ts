@@ -0,0 +1,236 @@
+/**
+ * Non-runner detection.
+ *
+ * The Racing API drops a withdrawn horse from the racecard rather than
+ * flagging it, so each racecard refresh compares the declared runners with
+ * the stored ones. A runner that disappears before the off is marked as a
+ * non-runner with the Rule 4 deduction for its last price, and recorded
+ * lays in the race are adjusted: lays on the horse itself are void, and
+ * lays on the others struck before the withdrawal carry the deduction.
+ *
+ * A withdrawal is final. A runner that shows up on a later racecard keeps
+ * its flag (the racecard upsert leaves it alone), since its lays have
+ * already been voided and the deduction applied to the rest of the race.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NonRunner, OddsSnapshot, RacingApiRacecard } from './types';
+import { toEventId, toCommenceTime } from './racing-api';
+import { normalizeBet } from './bets';
+import { betLiability, combineRule4, rule4Deduction } from './rule4';
+import { BETFAIR_EXCHANGE_KEYS } from './constants';
+
+/**
+ * Price a withdrawal is judged at: the average of the latest bookmaker
+ * prices, falling back to the exchange when no bookmaker priced the horse.
+ *
+ * @param latest - Most recent price per bookmaker for the runner
+ */
+export function withdrawalPrice(latest: Pick<OddsSnapshot, 'bookmaker' | 'back_price'>[]): number | null {
+  const priced = latest.filter((row): row is typeof row & { back_price: number } => (row.back_price ?? 0) > 1);
+  const bookmakers = priced.filter((row) => !BETFAIR_EXCHANGE_KEYS.includes(row.bookmaker));
+  const prices = (bookmakers.length > 0 ? bookmakers : priced).map((row) => row.back_price);
+  if (prices.length === 0) return null;
+  return Math.round((prices.reduce((sum, p) => sum + p, 0) / prices.length) * 100) / 100;
+}
+
+/** Non-runner with the deduction for its price */
+export function toNonRunner(eventId: string, runnerName: string, withdrawnAt: string, price: number | null): NonRunner {
+  return { eventId, runnerName, withdrawnAt, price, deduction: rule4Deduction(price) };
+}
+
+/**
+ * Compare fresh racecards against the stored runners and record any
+ * withdrawals. Races that have started, or come back without runners,
+ * are left alone.
+ */
+export async function detectNonRunners(
+  supabase: SupabaseClient,
+  racecards: RacingApiRacecard[],
+  now: Date = new Date()
+): Promise<{ data: NonRunner[]; error: string | null }> {
+  const declared = new Map<string, Set<string>>();
+  for (const race of racecards) {
+    if (!race.runners?.length || !(Date.parse(toCommenceTime(race)) > now.getTime())) continue;
+    declared.set(toEventId(race), new Set(race.runners.map((runner) => runner.horse).filter(Boolean)));
+  }
+  if (declared.size === 0) return { data: [], error: null };
+
+  const { data: stored, error: storedError } = await supabase
+    .from('runners')
+    .select('event_id, horse_name')
+    .in('event_id', Array.from(declared.keys()))
+    .eq('is_non_runner', false);
+
+  if (storedError) {
+    console.error('Supabase runners query error:', storedError);
+    return { data: [], error: storedError.message };
+  }
+
+  const withdrawn = new Map<string, string[]>();
+  for (const row of stored || []) {
+    if (declared.get(row.event_id)?.has(row.horse_name)) continue;
+    withdrawn.set(row.event_id, [...(withdrawn.get(row.event_id) ?? []), row.horse_name]);
+  }
+
+  const withdrawnAt = now.toISOString();
+  const nonRunners: NonRunner[] = [];
+
+  for (const [eventId, names] of withdrawn) {
+    const { data: prices, error: pricesError } = await latestPrices(supabase, eventId, names);
+    if (pricesError) return { data: nonRunners, error: pricesError };
+
+    for (const name of names) {
+      const nonRunner = toNonRunner(eventId, name, withdrawnAt, withdrawalPrice(prices.get(name) ?? []));
+
+      // Only the refresh that flips the flag adjusts the bets, so overlapping
+      // refreshes (the dashboard and the collector) can't deduct Rule 4 twice
+      const { data: flipped, error } = await supabase
+        .from('runners')
+        .update({
+          is_non_runner: true,
+          withdrawn_at: withdrawnAt,
+          withdrawal_price: nonRunner.price,
+          rule4_deduction: nonRunner.deduction,
+          updated_at: withdrawnAt,
+        })
+        .eq('event_id', eventId)
+        .eq('horse_name', name)
+        .eq('is_non_runner', false)
+        .select('horse_name');
+
+      if (error) {
+        console.error('Supabase runners update error:', error);
+        return { data: nonRunners, error: error.message };
+      }
+      if (!flipped?.length) continue;
+
+      const betError = await adjustBetsForNonRunner(supabase, nonRunner);
+      if (betError) return { data: nonRunners, error: betError };
+
+      nonRunners.push(nonRunner);
+    }
+  }
+
+  return { data: nonRunners, error: null };
+}
+
+/**
+ * Latest stored price per bookmaker for some runners of one race.
+ * Snapshots only hold price changes, so the newest row per bookmaker is
+ * its current price.
+ */
+async function latestPrices(
+  supabase: SupabaseClient,
+  eventId: string,
+  runnerNames: string[]
+): Promise<{ data: Map<string, Pick<OddsSnapshot, 'bookmaker' | 'back_price'>[]>; error: string | null }> {
+  const { data, error } = await supabase
+    .from('odds_snapshots')
+    .select('runner_name, bookmaker, back_price, snapshot_time')
+    .eq('event_id', eventId)
+    .in('runner_name', runnerNames)
+    .order('snapshot_time', { ascending: false });
+
+  if (error) {
+    console.error('Supabase odds_snapshots query error:', error);
+    return { data: new Map(), error: error.message };
+  }
+
+  const seen = new Set<string>();
+  const latest = new Map<string, Pick<OddsSnapshot, 'bookmaker' | 'back_price'>[]>();
+  for (const row of data || []) {
+    const key = `${row.runner_name}::${row.bookmaker}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const price = row.back_price === null ? null : Number(row.back_price);
+    latest.set(row.runner_name, [...(latest.get(row.runner_name) ?? []), { bookmaker: row.bookmaker, back_price: price }]);
+  }
+
+  return { data: latest, error: null };
+}
+
+/**
+ * Adjust open lays in the race for one withdrawal. Lays on the withdrawn
+ * horse are voided; lays on other runners struck before the withdrawal add
+ * its deduction and have their liability recomputed.
+ */
+export async function adjustBetsForNonRunner(
+  supabase: SupabaseClient,
+  nonRunner: NonRunner
+): Promise<string | null> {
+  const { data: rows, error } = await supabase
+    .from('bets')
+    .select('*')
+    .eq('event_id', nonRunner.eventId)
+    .is('settled_at', null);
+
+  if (error) {
+    console.error('Supabase bets query error:', error);
+    return error.message;
+  }
+
+  const now = new Date().toISOString();
+  const withdrawn = Date.parse(nonRunner.withdrawnAt);
+
+  for (const bet of (rows || []).map(normalizeBet)) {
+    let updates: Record<string, unknown> | null = null;
+
+    if (bet.runner_name === nonRunner.runnerName) {
+      updates = { outcome: 'void', pnl: 0, settled_at: now, updated_at: now };
+    } else if (nonRunner.deduction > 0 && Date.parse(bet.placed_at) < withdrawn) {
+      const deduction = combineRule4([bet.rule4_deduction, nonRunner.deduction]);
+      updates = {
+        rule4_deduction: deduction,
+        liability: round2(betLiability({ ...bet, rule4_deduction: deduction })),
+        updated_at: now,
+      };
+    }
+
+    if (!updates) continue;
+
+    const { error: updateError } = await supabase.from('bets').update(updates).eq('id', bet.id);
+    if (updateError) {
+      console.error('Supabase bet Rule 4 update error:', updateError);
+      return updateError.message;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stored non-runners for races on or after a date.
+ *
+ * @param fromDate - First race day to include (YYYY-MM-DD)
+ */
+export async function fetchNonRunners(
+  supabase: SupabaseClient,
+  fromDate: string
+): Promise<{ data: NonRunner[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from('runners')
+    .select('event_id, horse_name, withdrawn_at, withdrawal_price, rule4_deduction, races!inner(race_date)')
+    .eq('is_non_runner', true)
+    .gte('races.race_date', fromDate);
+
+  if (error) {
+    console.error('Supabase runners query error:', error);
+    return { data: [], error: error.message };
+  }
+
+  return {
+    data: (data || []).map((row) => ({
+      eventId: row.event_id,
+      runnerName: row.horse_name,
+      withdrawnAt: row.withdrawn_at,
+      price: row.withdrawal_price === null ? null : Number(row.withdrawal_price),
+      deduction: Number(row.rule4_deduction ?? 0),
+    })),
+    error: null,
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  americanToDecimal,
+  decimalToAmerican,
+  decimalToFraction,
+  formatOddsAs,
+  parseFractional,
+  parseOddsAs,
+  toStandardDecimal,
+} from './odds-format';
+
+describe('fractional odds', () => {
+  it.each([
+    [2.1, [11, 10], '11/10'],
+    [2.5, [6, 4], '6/4'],
+    [2.875, [15, 8], '15/8'],
+    [2, [1, 1], 'Evs'],
+  ] as const)('round-trips %d through %j', (decimal, fraction, text) => {
+    expect(decimalToFraction(decimal)).toEqual(fraction);
+    expect(toStandardDecimal(decimal)).toBe(decimal);
+    expect(formatOddsAs(decimal, 'fractional')).toBe(text);
+    expect(parseFractional(text)).toBe(decimal);
+  });
+
+  it('snaps a price to the nearest standard fraction', () => {
+    expect(decimalToFraction(2.45)).toEqual([6, 4]);
+    expect(toStandardDecimal(2.45)).toBe(2.5);
+    expect(decimalToFraction(2.88)).toEqual([15, 8]);
+  });
+
+  it('rounds prices beyond 1000/1 to whole-number odds', () => {
+    expect(decimalToFraction(1001)).toEqual([1000, 1]);
+    expect(decimalToFraction(1501.4)).toEqual([1500, 1]);
+    expect(formatOddsAs(1501.4, 'fractional')).toBe('1500/1');
+    expect(toStandardDecimal(1501.4)).toBe(1501);
+  });
+
+  it('parses evens, hyphenated quotes and rejects SP', () => {
+    expect(parseFractional('EVENS')).toBe(2);
+    expect(parseFractional(' 6-4 ')).toBe(2.5);
+    expect(parseFractional('SP')).toBeNull();
+    expect(parseFractional('0/1')).toBeNull();
+  });
+
+  it("shows the bookmaker's quote when it matches the price", () => {
+    expect(formatOddsAs(2.1, 'fractional', '11/10')).toBe('11/10');
+    expect(formatOddsAs(3.2, 'fractional', ' 11/5 ')).toBe('11/5');
+    expect(formatOddsAs(3.2, 'fractional', '9/4')).toBe('9/4');
+    expect(formatOddsAs(3.5, 'fractional', '9/4')).toBe('5/2');
+  });
+});
+
+describe('american odds', () => {
+  it.each([
+    [2.5, 150],
+    [2, 100],
+    [1.5, -200],
+    [1.25, -400],
+  ])('converts %d to %d and back', (decimal, american) => {
+    expect(decimalToAmerican(decimal)).toBe(american);
+    expect(americanToDecimal(american)).toBe(decimal);
+  });
+
+  it('formats positive prices with a sign', () => {
+    expect(formatOddsAs(2.5, 'american')).toBe('+150');
+    expect(formatOddsAs(1.5, 'american')).toBe('-200');
+  });
+
+  it.each([-99, 0, 50, 99.5])('rejects %d, between -100 and 100', (american) => {
+    expect(americanToDecimal(american)).toBeNull();
+    expect(parseOddsAs(String(american), 'american')).toBeNull();
+  });
+});
+
+describe('parseOddsAs', () => {
+  it('parses each format into decimal odds', () => {
+    expect(parseOddsAs('6.5', 'decimal')).toBe(6.5);
+    expect(parseOddsAs('11/2', 'fractional')).toBe(6.5);
+    expect(parseOddsAs('+550', 'american')).toBe(6.5);
+    expect(parseOddsAs('25%', 'implied')).toBe(4);
+  });
+
+  it.each(['100', '100%', '150', '0', '-5'])('rejects an implied probability of %s', (text) => {
+    expect(parseOddsAs(text, 'implied')).toBeNull();
+  });
+
+  it('rejects decimal odds of 1 or less and unparseable text', () => {
+    expect(parseOddsAs('1', 'decimal')).toBeNull();
+    expect(parseOddsAs('abc', 'decimal')).toBeNull();
+    expect(parseOddsAs('abc', 'american')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Odds display formats.
+ *
+ * Every calculation works in decimal odds; this module converts to and
+ * from the formats a user can choose to read prices in:
+ *   decimal    — 6.50
+ *   fractional — 11/2, snapped to the standard UK ladder (Evs for 1/1)
+ *   american   — +550 / -200
+ *   implied    — 15.4% (1 / decimal)
+ */
+
+import { OddsFormat } from './types';
+import { FRACTIONAL_ODDS_LADDER } from './constants';
+
+export const ODDS_FORMAT_LABELS: Record<OddsFormat, string> = {
+  decimal: 'Decimal',
+  fractional: 'Fractional',
+  american: 'American',
+  implied: 'Implied %',
+};
+
+// ============================================================
+// Fractional
+// ============================================================
+
+export function fractionToDecimal(numerator: number, denominator: number): number {
+  return 1 + numerator / denominator;
+}
+
+/**
+ * Nearest standard UK fraction to a decimal price. Prices beyond the
+ * ladder round to whole-number odds (e.g. 1500/1).
+ */
+export function decimalToFraction(decimal: number): [number, number] {
+  const longest = FRACTIONAL_ODDS_LADDER[FRACTIONAL_ODDS_LADDER.length - 1];
+  if (decimal > fractionToDecimal(longest[0], longest[1])) {
+    return [Math.round(decimal - 1), 1];
+  }
+
+  let best = FRACTIONAL_ODDS_LADDER[0];
+  for (const fraction of FRACTIONAL_ODDS_LADDER) {
+    const diff = Math.abs(fractionToDecimal(fraction[0], fraction[1]) - decimal);
+    if (diff < Math.abs(fractionToDecimal(best[0], best[1]) - decimal)) best = fraction;
+  }
+  return best;
+}
+
+/**
+ * Decimal price of the nearest standard fraction, i.e. the round trip
+ * decimal → fractional → decimal.
+ */
+export function toStandardDecimal(decimal: number): number {
+  const [numerator, denominator] = decimalToFraction(decimal);
+  return fractionToDecimal(numerator, denominator);
+}
+
+/**
+ * Parse a fractional quote ("11/2", "Evs", "EVENS", "6-4") into decimal
+ * odds. Returns null for "SP" and anything unparseable.
+ */
+export function parseFractional(text: string): number | null {
+  const value = text.trim().toLowerCase();
+  if (value === 'evs' || value === 'evens' || value === 'even') return 2;
+
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*[/-]\s*(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const numerator = parseFloat(match[1]);
+  const denominator = parseFloat(match[2]);
+  if (!(numerator > 0) || !(denominator > 0)) return null;
+  return fractionToDecimal(numerator, denominator);
+}
+
+function formatFraction([numerator, denominator]: [number, number]): string {
+  return numerator === denominator ? 'Evs' : `${numerator}/${denominator}`;
+}
+
+// ============================================================
+// American
+// ============================================================
+
+/** American (moneyline) odds: +profit on 100 staked, or -stake to win 100 */
+export function decimalToAmerican(decimal: number): number {
+  return decimal >= 2
+    ? Math.round((decimal - 1) * 100)
+    : -Math.round(100 / (decimal - 1));
+}
+
+export function americanToDecimal(american: number): number | null {
+  if (american >= 100) return 1 + american / 100;
+  if (american <= -100) return 1 + 100 / -american;
+  return null;
+}
+
+// ============================================================
+// Display and input
+// ============================================================
+
+/**
+ * Format decimal odds for display in the chosen format.
+ *
+ * @param quoted - The bookmaker's own fractional quote, shown as-is
+ *   instead of the nearest ladder fraction when available
+ */
+export function formatOddsAs(odds: number | null, format: OddsFormat, quoted?: string): string {
+  if (odds === null || odds <= 0) return '-';
+  if (odds <= 1) return odds.toFixed(2);
+
+  switch (format) {
+    case 'fractional': {
+      const parsed = quoted ? parseFractional(quoted) : null;
+      return parsed !== null && Math.abs(parsed - odds) < 0.01
+        ? quoted!.trim()
+        : formatFraction(decimalToFraction(odds));
+    }
+    case 'american': {
+      const american = decimalToAmerican(odds);
+      return american > 0 ? `+${american}` : String(american);
+    }
+    case 'implied':
+      return `${(100 / odds).toFixed(1)}%`;
+    default:
+      return odds.toFixed(2);
+  }
+}
+
+/**
+ * Parse a price typed in the chosen format back into decimal odds.
+ * Returns null when the text isn't a valid price in that format.
+ */
+export function parseOddsAs(text: string, format: OddsFormat): number | null {
+  const value = text.trim().replace(/%$/, '');
+
+  switch (format) {
+    case 'fractional':
+      return parseFractional(value);
+    case 'american':
+      return americanToDecimal(parseFloat(value));
+    case 'implied': {
+      const pct = parseFloat(value);
+      return pct > 0 && pct < 100 ? 100 / pct : null;
+    }
+    default: {
+      const decimal = parseFloat(value);
+      return decimal > 1 ? decimal : null;
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Odds provider abstraction.
+ *
+ * Routes and the collector talk to a provider rather than a vendor client.
+ * Racecards and results travel in The Racing API's shapes (the storage and
+ * settlement code is built on them), and prices in the OddsApiEvent format
+ * the dashboard consumes, so a new feed only has to map into those.
+ *
+ * The provider is chosen with ODDS_PROVIDER:
+ *   racing-api (default) — The Racing API, plus the exchange feed when configured
+ *   fixture              — replays recorded JSON on a simulated clock (fixture-store.ts)
+ * ODDS_RECORD=true records every live response into the fixture directory.
+ */
+
+import { ApiResponse, OddsApiEvent, RacingApiRacecard, RacingApiResult } from './types';
+import { createRacingApiProvider } from './racing-api-provider';
+import { createFixtureProvider, withRecording } from './fixture-provider';
+import { fixtureDir } from './fixture-store';
+
+export type RaceDay = 'today' | 'tomorrow';
+
+export interface ProviderCapabilities {
+  /** Racecards carry bookmaker prices */
+  bookmakerOdds: boolean;
+  /** Exchange back/lay ladders are attached to events */
+  exchangeOdds: boolean;
+  /** Results for today's races */
+  results: boolean;
+  /** Results for arbitrary past date ranges (backfill) */
+  resultsRange: boolean;
+  /** Real data that should be persisted to Supabase (false for replayed fixtures) */
+  live: boolean;
+}
+
+/** Events with prices; `warning` reports a non-fatal problem (e.g. exchange feed down) */
+export interface PricesResponse {
+  data: OddsApiEvent[];
+  error: string | null;
+  warning: string | null;
+}
+
+export interface OddsProvider {
+  /** Short identifier reported as `source` by the API routes */
+  id: string;
+  capabilities: ProviderCapabilities;
+  /** Racecards (race metadata and declared runners) for a race day */
+  listEvents(day: RaceDay): Promise<ApiResponse<RacingApiRacecard[]>>;
+  /** Current prices for a set of racecards, as dashboard events */
+  fetchPrices(racecards: RacingApiRacecard[]): Promise<PricesResponse>;
+  fetchResults(day: RaceDay): Promise<ApiResponse<RacingApiResult[]>>;
+  /** Results for a date range (YYYY-MM-DD, inclusive) */
+  fetchResultsRange(startDate: string, endDate: string): Promise<ApiResponse<RacingApiResult[]>>;
+  /** Simulated current time, for providers that replay recorded data */
+  clock?: () => Promise<Date>;
+}
+
+/**
+ * Provider selected by ODDS_PROVIDER, or an error explaining what
+ * configuration is missing.
+ */
+export function getOddsProvider(): { provider: OddsProvider | null; error: string | null } {
+  const id = (process.env.ODDS_PROVIDER || 'racing-api').toLowerCase();
+
+  switch (id) {
+    case 'racing-api': {
+      const username = process.env.RACING_API_USERNAME;
+      const password = process.env.RACING_API_PASSWORD;
+      if (!username || !password) {
+        return {
+          provider: null,
+          error:
+            'Racing API credentials not configured. Add RACING_API_USERNAME and RACING_API_PASSWORD to your Vercel Environment Variables, then redeploy.',
+        };
+      }
+      const provider = createRacingApiProvider(username, password);
+      return {
+        provider: process.env.ODDS_RECORD === 'true' ? withRecording(provider, fixtureDir()) : provider,
+        error: null,
+      };
+    }
+    case 'fixture':
+      return { provider: createFixtureProvider(fixtureDir()), error: null };
+    default:
+      return { provider: null, error: `Unknown ODDS_PROVIDER "${id}" (expected racing-api or fixture)` };
+  }
+}
+
+/**
+ * Whether the app is replaying fixtures. History, snapshots and racecards
+ * are then served from the recording instead of Supabase.
+ */
+export function isFixtureMode(): boolean {
+  return (process.env.ODDS_PROVIDER || '').toLowerCase() === 'fixture';
+}
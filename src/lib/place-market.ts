@@ -0,0 +1,105 @@
+/**
+ * Place markets: each-way terms and place probabilities.
+ *
+ * Bookmakers pay the place part of an each-way bet at a fraction of the win
+ * odds (e.g. 1/5 the odds, 3 places); the exchange runs a separate PLACE
+ * market per race. Place probabilities are derived from the model's win
+ * probabilities with the Harville model, which treats each finishing
+ * position as a fresh race among the horses still to finish:
+ *   P(j second | i first) = p_j / (1 - p_i)
+ */
+
+import { EachWayTerms } from './types';
+import { STANDARD_EACH_WAY_TERMS } from './constants';
+
+// ============================================================
+// Each-way terms
+// ============================================================
+
+/**
+ * Parse each-way terms as quoted by the Racing API (ew_places "3",
+ * ew_denom "5" or "1/5"). Returns null for win-only or missing terms.
+ */
+export function parseEachWayTerms(places: unknown, denominator: unknown): EachWayTerms | null {
+  const placesPaid = parseInt(String(places ?? ''), 10);
+  const denom = String(denominator ?? '').trim();
+  const match = denom.match(/^(?:(\d+)\s*\/\s*)?(\d+)$/);
+  if (!(placesPaid >= 2) || !match) return null;
+
+  const numerator = match[1] ? parseInt(match[1], 10) : 1;
+  const fraction = numerator / parseInt(match[2], 10);
+  return fraction > 0 && fraction <= 1 ? { places: placesPaid, fraction } : null;
+}
+
+/**
+ * Standard each-way terms for a field, or null when the race is win only.
+ */
+export function standardEachWayTerms(fieldSize: number, handicap: boolean): EachWayTerms | null {
+  const row = STANDARD_EACH_WAY_TERMS.find(
+    (terms) => fieldSize >= terms.minRunners && (!terms.handicap || handicap)
+  );
+  return row ? { places: row.places, fraction: row.fraction } : null;
+}
+
+/** Display form, e.g. "1/5 · 3 places" */
+export function formatEachWayTerms(terms: EachWayTerms): string {
+  const denominator = Math.round(1 / terms.fraction);
+  const fraction = Math.abs(1 / denominator - terms.fraction) < 1e-9
+    ? `1/${denominator}`
+    : terms.fraction.toFixed(2);
+  return `${fraction} · ${terms.places} places`;
+}
+
+// ============================================================
+// Harville place probabilities
+// ============================================================
+
+/**
+ * Probability of each runner finishing in the first `places` positions.
+ *
+ * Win probabilities are normalised to sum to 1 first, so de-margined or
+ * model probabilities can be passed as they are. Exact enumeration of the
+ * first `places` finishers — n^places paths, fine for race fields.
+ *
+ * @returns Place probabilities in the same order as `winProbs`
+ */
+export function harvillePlaceProbabilities(winProbs: number[], places: number): number[] {
+  const total = winProbs.reduce((sum, p) => sum + Math.max(p, 0), 0);
+  const result = winProbs.map(() => 0);
+  if (total <= 0 || places < 1) return result;
+
+  const probs = winProbs.map((p) => Math.max(p, 0) / total);
+  const depth = Math.min(places, probs.length);
+  const used = probs.map(() => false);
+
+  // `reach` = probability of the finishing order so far; `remaining` = the
+  // win probability left among runners not yet placed
+  const visit = (position: number, reach: number, remaining: number) => {
+    for (let i = 0; i < probs.length; i++) {
+      if (used[i] || probs[i] <= 0) continue;
+      const p = (reach * probs[i]) / remaining;
+      result[i] += p;
+      if (position + 1 < depth && remaining - probs[i] > 1e-12) {
+        used[i] = true;
+        visit(position + 1, p, remaining - probs[i]);
+        used[i] = false;
+      }
+    }
+  };
+  visit(0, 1, 1);
+
+  return result.map((p) => Math.min(p, 1));
+}
+
+/**
+ * Place probabilities keyed by runner name, for the runners with a win
+ * probability. Races paying as many places as there are runners (or no
+ * places at all) have no meaningful place market and return an empty map.
+ */
+export function placeProbabilities(winProbs: Map<string, number>, places: number): Map<string, number> {
+  const names = Array.from(winProbs.keys());
+  if (places < 2 || places >= names.length) return new Map();
+
+  const probs = harvillePlaceProbabilities(names.map((name) => winProbs.get(name)!), places);
+  return new Map(names.map((name, i) => [name, probs[i]]));
+}
@@ -0,0 +1,175 @@
+/**
+ * P&L reporting over settled lays.
+ *
+ * Void lays count towards the bet total but not towards liability, strike
+ * rate or average odds, so ROI is measured on liability actually at risk.
+ * A lay recommended by several strategy profiles counts towards each of
+ * their rows in the strategy breakdown.
+ */
+
+import { Bet, ValueSignalLevel } from './types';
+
+export type PnlPeriod = 'day' | 'week' | 'month';
+
+export interface PnlStats {
+  bets: number;
+  /** Lays where the horse lost (we won) */
+  won: number;
+  /** Lays where the horse won (we lost) */
+  lost: number;
+  void: number;
+  /** Matched liability on won + lost lays */
+  liability: number;
+  pnl: number;
+  /** pnl / liability, in percent */
+  roi: number | null;
+  /** won / (won + lost), in percent */
+  strikeRate: number | null;
+  averageOdds: number | null;
+}
+
+export interface PnlPeriodRow extends PnlStats {
+  /** Period key: YYYY-MM-DD (day, or Monday of the week) or YYYY-MM */
+  period: string;
+}
+
+export interface PnlSignalRow extends PnlStats {
+  signal: ValueSignalLevel;
+}
+
+export interface PnlStrategyRow extends PnlStats {
+  /** Strategy profile name, as recorded on the lay */
+  strategy: string;
+}
+
+export interface PnlCurvePoint {
+  time: string;
+  bankroll: number;
+}
+
+export interface PnlReport {
+  summary: PnlStats & { startingBankroll: number; endingBankroll: number; openBets: number };
+  periods: PnlPeriodRow[];
+  signals: PnlSignalRow[];
+  strategies: PnlStrategyRow[];
+  curve: PnlCurvePoint[];
+}
+
+const SIGNAL_ORDER: ValueSignalLevel[] = ['premium', 'strong', 'conservative', 'none'];
+
+/**
+ * Build the P&L report for a set of recorded lays.
+ *
+ * @param bets - Recorded lays (settled and open, any order)
+ * @param startingBankroll - Bankroll the cumulative curve starts from
+ * @param period - Grouping for the period table
+ */
+export function buildPnlReport(bets: Bet[], startingBankroll: number, period: PnlPeriod): PnlReport {
+  const settled = bets
+    .filter((b) => b.settled_at && b.outcome)
+    .sort((a, b) => a.commence_time.localeCompare(b.commence_time));
+
+  // Period table (newest first)
+  const byPeriod = groupBy(settled, (b) => periodKey(b.commence_time, period));
+  const periods = Array.from(byPeriod.entries())
+    .map(([key, group]) => ({ period: key, ...computeStats(group) }))
+    .sort((a, b) => b.period.localeCompare(a.period));
+
+  // Breakdown by signal level at the time of the lay
+  const bySignal = groupBy(settled, (b) => b.value_signal ?? 'none');
+  const signals = SIGNAL_ORDER.filter((s) => bySignal.has(s)).map((signal) => ({
+    signal,
+    ...computeStats(bySignal.get(signal)!),
+  }));
+
+  // Breakdown by the strategy profiles recommending the lay (most lays first)
+  const byStrategy = new Map<string, Bet[]>();
+  for (const bet of settled) {
+    for (const strategy of bet.strategies) {
+      const group = byStrategy.get(strategy);
+      if (group) group.push(bet);
+      else byStrategy.set(strategy, [bet]);
+    }
+  }
+  const strategies = Array.from(byStrategy.entries())
+    .map(([strategy, group]) => ({ strategy, ...computeStats(group) }))
+    .sort((a, b) => b.bets - a.bets || a.strategy.localeCompare(b.strategy));
+
+  // Cumulative bankroll, one point per race
+  const curve: PnlCurvePoint[] = [];
+  let bankroll = startingBankroll;
+  for (const [time, group] of groupBy(settled, (b) => b.commence_time)) {
+    bankroll = round2(bankroll + group.reduce((sum, b) => sum + (b.pnl ?? 0), 0));
+    curve.push({ time, bankroll });
+  }
+
+  const summary = computeStats(settled);
+
+  return {
+    summary: {
+      ...summary,
+      startingBankroll,
+      endingBankroll: round2(startingBankroll + summary.pnl),
+      openBets: bets.filter((b) => !b.settled_at && b.status !== 'cancelled').length,
+    },
+    periods,
+    signals,
+    strategies,
+    curve,
+  };
+}
+
+/**
+ * Start of the period containing an ISO timestamp.
+ * Weeks start on Monday (UTC).
+ */
+export function periodKey(time: string, period: PnlPeriod): string {
+  if (period === 'month') return time.slice(0, 7);
+  if (period === 'day') return time.slice(0, 10);
+
+  const date = new Date(time.slice(0, 10) + 'T00:00:00Z');
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  return date.toISOString().slice(0, 10);
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function computeStats(bets: Bet[]): PnlStats {
+  const decided = bets.filter((b) => b.outcome === 'won' || b.outcome === 'lost');
+  const won = decided.filter((b) => b.outcome === 'won').length;
+  const liability = round2(decided.reduce((sum, b) => sum + b.liability, 0));
+  const pnl = round2(bets.reduce((sum, b) => sum + (b.pnl ?? 0), 0));
+
+  return {
+    bets: bets.length,
+    won,
+    lost: decided.length - won,
+    void: bets.length - decided.length,
+    liability,
+    pnl,
+    roi: liability > 0 ? (pnl / liability) * 100 : null,
+    strikeRate: decided.length > 0 ? (won / decided.length) * 100 : null,
+    averageOdds:
+      decided.length > 0
+        ? Math.round((decided.reduce((sum, b) => sum + b.odds, 0) / decided.length) * 100) / 100
+        : null,
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = map.get(k);
+    if (group) group.push(item);
+    else map.set(k, [item]);
+  }
+  return map;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
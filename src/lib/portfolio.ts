@@ -0,0 +1,244 @@
+/**
+ * Race-level Kelly sizing for simultaneous lays.
+ *
+ * kellyLay sizes each runner as if it were the only bet. When several
+ * runners in the same race are laid, at most one of them can win, so the
+ * bets are not independent: a winner's liability is partly offset by the
+ * stakes collected on the other lays. This module solves for the jointly
+ * growth-optimal set of liabilities and writes the result back into each
+ * runner's LayDecision.
+ */
+
+import { RunnerOdds } from './types';
+import { FullKellyResult, profitIfLose, lossIfWin } from './lay-engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface PortfolioLeg {
+  runnerName: string;
+  /** Decimal lay odds O */
+  layOdds: number;
+  /** Model probability horse WINS */
+  pWin: number;
+}
+
+export interface PortfolioParams {
+  bankroll: number;
+  commission: number;
+  /** Applied to the joint optimum (1.0 = full, 0.5 = half) */
+  kellyMultiplier: number;
+  /** Max race exposure (worst-case loss) as % of bankroll */
+  maxLiabilityPct: number;
+  minStake: number;
+}
+
+export interface PortfolioResult {
+  /** Sizing per leg, same order as the input */
+  legs: FullKellyResult[];
+  /** Loss if the worst outcome for us happens (a laid horse wins) */
+  worstCaseLoss: number;
+  /** Expected log-growth of the bankroll at the chosen sizes */
+  expectedGrowth: number;
+  cappedByMaxLiability: boolean;
+}
+
+// Coordinate ascent settings
+const MAX_SWEEPS = 200;
+const TOLERANCE = 1e-10;
+
+// ============================================================
+// Solver
+// ============================================================
+
+/**
+ * Jointly growth-optimal lay liabilities for one race.
+ *
+ * With f_i = liability on runner i as a fraction of bankroll and
+ * r_i = (1-c)/(O_i-1) the return per unit liability when it loses:
+ *
+ *   Runner i wins (prob p_i):         B' = B * (1 - f_i + Σ_{j≠i} f_j r_j)
+ *   None of the laid runners wins:    B' = B * (1 + Σ_j f_j r_j)
+ *
+ * G(f) = Σ_i p_i ln(...) + (1 - Σ p_i) ln(...) is concave, so cyclic
+ * coordinate Newton steps with f_i ≥ 0 converge to the optimum. With a
+ * single leg this reduces to kellyLay's f* = q - p/r.
+ *
+ * The Kelly multiplier scales the joint optimum, then all liabilities are
+ * scaled down together if the race's worst-case loss exceeds
+ * maxLiabilityPct of bankroll.
+ */
+export function solveRacePortfolio(legs: PortfolioLeg[], params: PortfolioParams): PortfolioResult {
+  const { bankroll, commission, kellyMultiplier, maxLiabilityPct, minStake } = params;
+  const n = legs.length;
+
+  const r = legs.map((leg) => (leg.layOdds > 1 ? (1 - commission) / (leg.layOdds - 1) : 0));
+  const p = legs.map((leg) => Math.min(Math.max(leg.pWin, 0), 1));
+  const pNone = Math.max(0, 1 - p.reduce((sum, v) => sum + v, 0));
+
+  // Outcome k < n: leg k wins. Outcome n: none of the legs wins.
+  const coef = (outcome: number, leg: number) => (outcome === leg ? -1 : r[leg]);
+  const prob = (outcome: number) => (outcome < n ? p[outcome] : pNone);
+  const wealth = (f: number[]) =>
+    Array.from({ length: n + 1 }, (_, k) => 1 + f.reduce((sum, fj, j) => sum + coef(k, j) * fj, 0));
+
+  const full = new Array<number>(n).fill(0);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS && bankroll > 0; sweep++) {
+    let maxChange = 0;
+
+    for (let i = 0; i < n; i++) {
+      if (r[i] <= 0) continue;
+      const w = wealth(full);
+
+      let d1 = 0;
+      let d2 = 0;
+      for (let k = 0; k <= n; k++) {
+        const a = coef(k, i);
+        d1 += (prob(k) * a) / w[k];
+        d2 -= (prob(k) * a * a) / (w[k] * w[k]);
+      }
+      if (d2 >= 0) continue;
+
+      // Newton step, clamped to [0, 1] and halved until every outcome stays solvent
+      let next = Math.min(Math.max(full[i] - d1 / d2, 0), 1);
+      for (let tries = 0; tries < 50; tries++) {
+        const trial = [...full];
+        trial[i] = next;
+        if (wealth(trial).every((v) => v > 0)) break;
+        next = (full[i] + next) / 2;
+      }
+
+      maxChange = Math.max(maxChange, Math.abs(next - full[i]));
+      full[i] = next;
+    }
+
+    if (maxChange < TOLERANCE) break;
+  }
+
+  // Fractional Kelly, then the per-race exposure cap
+  let f = full.map((v) => Math.min(v * kellyMultiplier, 1));
+  const worstFraction = () => Math.max(0, ...wealth(f).slice(0, n).map((w) => 1 - w));
+  const maxFraction = maxLiabilityPct / 100;
+  let cappedByMaxLiability = false;
+  if (worstFraction() > maxFraction) {
+    const scale = maxFraction / worstFraction();
+    f = f.map((v) => v * scale);
+    cappedByMaxLiability = true;
+  }
+
+  const w = wealth(f);
+  const expectedGrowth = w.reduce((sum, wk, k) => sum + (prob(k) > 0 ? prob(k) * Math.log(wk) : 0), 0);
+
+  return {
+    legs: legs.map((leg, i) => {
+      const liab = f[i] * bankroll;
+      const stake = leg.layOdds > 1 ? liab / (leg.layOdds - 1) : 0;
+      const profit = profitIfLose(stake, commission);
+      const loss = lossIfWin(stake, leg.layOdds);
+      const ev = (1 - p[i]) * profit - p[i] * loss;
+
+      return {
+        kellyFraction: round4(full[i]),
+        returnPerLiability: round4(r[i]),
+        layStake: round2(stake),
+        liability: round2(liab),
+        profitIfLoses: round2(profit),
+        lossIfWins: round2(loss),
+        ev: round2(ev),
+        evPctBankroll: bankroll > 0 ? round4((ev / bankroll) * 100) : 0,
+        evPerLiability: liab > 0 ? round4(ev / liab) : 0,
+        cappedByMaxLiability,
+        belowMinStake: stake > 0 && stake < minStake,
+      };
+    }),
+    worstCaseLoss: round2(worstFraction() * bankroll),
+    expectedGrowth: round4(expectedGrowth),
+    cappedByMaxLiability,
+  };
+}
+
+// ============================================================
+// Apply to a race
+// ============================================================
+
+/**
+ * Re-size every PLACE LAY runner in a race jointly.
+ *
+ * Races with fewer than two lays are returned unchanged (the joint optimum
+ * is the single-runner Kelly). Runners the joint solution gives no stake
+ * are switched to no-lay with a reason code.
+ */
+export function sizeRaceLays(runners: RunnerOdds[], params: PortfolioParams): RunnerOdds[] {
+  const laid = runners.filter(
+    (r) => r.layDecision?.placeLay && r.layDecision.pModel !== null && r.betfairOdds !== null
+  );
+  if (laid.length < 2) return runners;
+
+  const result = solveRacePortfolio(
+    laid.map((r) => ({
+      runnerName: r.runnerName,
+      layOdds: r.layDecision!.layPrice ?? r.betfairOdds!,
+      pWin: r.layDecision!.pModel!,
+    })),
+    params
+  );
+
+  const sized = new Map(laid.map((r, i) => [r.runnerName, result.legs[i]]));
+  const portfolioReason = `Race portfolio: sized jointly with ${laid.length - 1} other lay${laid.length > 2 ? 's' : ''}`;
+
+  return runners.map((runner) => {
+    const kelly = sized.get(runner.runnerName);
+    if (!kelly || !runner.layDecision) return runner;
+
+    // Drop the single-runner min-stake note; re-add it against the joint stake
+    const reasons = runner.layDecision.reasons.filter((reason) => !reason.startsWith('Stake £'));
+    const placeLay = kelly.layStake > 0;
+
+    if (!placeLay) {
+      return {
+        ...runner,
+        layDecision: {
+          ...runner.layDecision,
+          placeLay: false,
+          reasons: [
+            'No stake in race portfolio',
+            ...reasons.filter((reason) => reason !== 'PLACE LAY'),
+            portfolioReason,
+          ],
+          kelly,
+          ev: kelly.ev,
+          evPctBankroll: kelly.evPctBankroll,
+        },
+      };
+    }
+
+    return {
+      ...runner,
+      layDecision: {
+        ...runner.layDecision,
+        reasons: [
+          ...(kelly.belowMinStake ? [`Stake £${kelly.layStake} below min £${params.minStake}`] : []),
+          ...reasons,
+          portfolioReason,
+        ],
+        kelly,
+        ev: kelly.ev,
+        evPctBankroll: kelly.evPctBankroll,
+      },
+    };
+  });
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
@@ -0,0 +1,119 @@
+/**
+ * Strategy profiles: named sets of lay settings evaluated side by side.
+ *
+ * Settings hold one set of value thresholds, Kelly sizing, model
+ * parameters and entry conditions — the primary strategy, which drives the
+ * dashboard's recommendations and risk limits. A profile is a named copy of
+ * just those fields. Every runner is also evaluated under each profile
+ * (see useOdds), the backtester replays each profile over the same
+ * snapshots, and recorded lays are tagged with the profiles that fired so
+ * the P&L report can compare them.
+ *
+ * Bankroll, commission, the consensus and the risk limits are shared by
+ * all profiles.
+ */
+
+import { UserSettings } from './types';
+import { LayDecision } from './lay-engine';
+import { parseStrategy } from './strategy';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ProfileSettings = Pick<
+  UserSettings,
+  | 'thresholds'
+  | 'kellyMode'
+  | 'kellyMultiplier'
+  | 'maxLiabilityPct'
+  | 'modelAlpha'
+  | 'modelBeta'
+  | 'modelSegments'
+  | 'strategy'
+  | 'movementConditions'
+>;
+
+export interface StrategyProfile {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+}
+
+/** A runner's lay decision under one profile */
+export interface ProfileDecision {
+  profileId: string;
+  profileName: string;
+  decision: LayDecision | null;
+}
+
+const PROFILE_SETTING_KEYS: (keyof ProfileSettings)[] = [
+  'thresholds',
+  'kellyMode',
+  'kellyMultiplier',
+  'maxLiabilityPct',
+  'modelAlpha',
+  'modelBeta',
+  'modelSegments',
+  'strategy',
+  'movementConditions',
+];
+
+// ============================================================
+// Profiles
+// ============================================================
+
+/** Copy the profile fields out of the current settings */
+export function profileSettings(settings: UserSettings): ProfileSettings {
+  return Object.fromEntries(PROFILE_SETTING_KEYS.map((key) => [key, settings[key]])) as ProfileSettings;
+}
+
+/** A new profile from the current settings */
+export function createProfile(name: string, settings: UserSettings): StrategyProfile {
+  return {
+    id: `profile_${Date.now().toString(36)}`,
+    name: name.trim(),
+    settings: profileSettings(settings),
+  };
+}
+
+/**
+ * Settings to evaluate a profile with: the shared settings overlaid with
+ * the profile's own. Fields missing from an older profile fall back to the
+ * current settings.
+ */
+export function applyProfile(settings: UserSettings, profile: StrategyProfile): UserSettings {
+  return { ...settings, ...profile.settings };
+}
+
+/** Names of the profiles that recommend the win lay */
+export function firedProfiles(decisions: ProfileDecision[]): string[] {
+  return decisions.filter((d) => d.decision?.placeLay).map((d) => d.profileName);
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * Validate profiles read from JSON (a backtest request body).
+ */
+export function parseProfiles(value: unknown): { profiles: StrategyProfile[]; error: string | null } {
+  if (value === undefined || value === null) return { profiles: [], error: null };
+  if (!Array.isArray(value)) return { profiles: [], error: 'profiles must be an array' };
+
+  for (let i = 0; i < value.length; i++) {
+    const profile = value[i] as Partial<StrategyProfile> | null;
+    if (!profile || typeof profile.id !== 'string' || typeof profile.name !== 'string' || !profile.name.trim()) {
+      return { profiles: [], error: `profiles[${i}] needs an id and a name` };
+    }
+    if (!profile.settings || typeof profile.settings !== 'object') {
+      return { profiles: [], error: `profiles[${i}].settings must be an object` };
+    }
+    if (profile.settings.strategy !== undefined) {
+      const { error } = parseStrategy(profile.settings.strategy);
+      if (error) return { profiles: [], error: `profiles[${i}] (${profile.name}): ${error}` };
+    }
+  }
+  return { profiles: value as StrategyProfile[], error: null };
+}
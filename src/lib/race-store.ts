@@ -0,0 +1,152 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RacingApiRacecard, RacingApiRunner, RaceMeta, RaceRecord, RunnerRecord } from './types';
+import { toEventId } from './racing-api';
+import { detectNonRunners } from './non-runners';
+
+/**
+ * Map a Racing API racecard onto a races table row.
+ * Empty strings from the API are stored as NULL.
+ */
+export function buildRaceRecord(race: RacingApiRacecard): RaceRecord {
+  const fieldSize = toInt(race.field_size);
+
+  return {
+    id: toEventId(race),
+    race_id: text(race.race_id),
+    course: race.course,
+    course_id: text(race.course_id),
+    race_date: race.date,
+    off_time: text(race.off_time),
+    off_dt: text(race.off_dt),
+    race_name: text(race.race_name),
+    distance: text(race.distance),
+    distance_f: toFloat(race.distance_f),
+    region: text(race.region)?.toUpperCase() ?? null,
+    pattern: text(race.pattern),
+    race_class: text(race.race_class),
+    race_type: text(race.type),
+    age_band: text(race.age_band),
+    rating_band: text(race.rating_band),
+    prize: text(race.prize),
+    field_size: fieldSize ?? race.runners?.length ?? null,
+    going: text(race.going),
+    going_detailed: text(race.going_detailed),
+    surface: text(race.surface),
+    big_race: Boolean(race.big_race),
+    is_abandoned: Boolean(race.is_abandoned),
+  };
+}
+
+/**
+ * Map a Racing API runner onto a runners table row.
+ */
+export function buildRunnerRecord(eventId: string, runner: RacingApiRunner): RunnerRecord {
+  return {
+    event_id: eventId,
+    horse_id: text(runner.horse_id),
+    horse_name: runner.horse,
+    number: toInt(runner.number),
+    draw: toInt(runner.draw),
+    age: toInt(runner.age),
+    sex: text(runner.sex_code) ?? text(runner.sex),
+    weight_lbs: toInt(runner.lbs),
+    jockey: text(runner.jockey),
+    jockey_id: text(runner.jockey_id),
+    trainer: text(runner.trainer),
+    trainer_id: text(runner.trainer_id),
+    owner: text(runner.owner),
+    official_rating: toInt(runner.ofr),
+    rpr: toInt(runner.rpr),
+    ts: toInt(runner.ts),
+    form: text(runner.form),
+    headgear: text(runner.headgear),
+    last_run: toInt(runner.last_run),
+    silk_url: text(runner.silk_url),
+    comment: text(runner.comment),
+  };
+}
+
+/**
+ * Upsert racecards into the races and runners tables.
+ * Called on every /api/racing fetch and collector run so declarations,
+ * going and jockey changes stay current up to the off. Stored runners
+ * missing from the fresh racecard are recorded as non-runners.
+ */
+export async function saveRacecards(
+  supabase: SupabaseClient,
+  racecards: RacingApiRacecard[]
+): Promise<{ races: number; runners: number; nonRunners: number; error: string | null }> {
+  if (racecards.length === 0) return { races: 0, runners: 0, nonRunners: 0, error: null };
+
+  const now = new Date().toISOString();
+  const raceRows = racecards.map((race) => ({ ...buildRaceRecord(race), updated_at: now }));
+  const runnerRows = racecards.flatMap((race) => {
+    const eventId = toEventId(race);
+    return (race.runners || [])
+      .filter((runner) => Boolean(runner.horse))
+      .map((runner) => ({ ...buildRunnerRecord(eventId, runner), updated_at: now }));
+  });
+
+  const { error: raceError } = await supabase
+    .from('races')
+    .upsert(raceRows, { onConflict: 'id' });
+
+  if (raceError) {
+    console.error('Supabase races upsert error:', raceError);
+    return { races: 0, runners: 0, nonRunners: 0, error: raceError.message };
+  }
+
+  if (runnerRows.length > 0) {
+    const { error: runnerError } = await supabase
+      .from('runners')
+      .upsert(runnerRows, { onConflict: 'event_id,horse_name' });
+
+    if (runnerError) {
+      console.error('Supabase runners upsert error:', runnerError);
+      return { races: raceRows.length, runners: 0, nonRunners: 0, error: runnerError.message };
+    }
+  }
+
+  const withdrawals = await detectNonRunners(supabase, racecards);
+
+  return {
+    races: raceRows.length,
+    runners: runnerRows.length,
+    nonRunners: withdrawals.data.length,
+    error: withdrawals.error,
+  };
+}
+
+/**
+ * Convert a stored race row into the RaceMeta used for model segmentation.
+ */
+export function raceRecordToMeta(race: RaceRecord): RaceMeta {
+  return {
+    type: race.race_type,
+    raceClass: race.race_class,
+    fieldSize: race.field_size,
+    going: race.going,
+    surface: race.surface,
+    region: race.region,
+  };
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function text(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const str = String(value).trim();
+  return str.length > 0 ? str : null;
+}
+
+function toInt(value: unknown): number | null {
+  const n = parseInt(String(value ?? ''), 10);
+  return isNaN(n) ? null : n;
+}
+
+function toFloat(value: unknown): number | null {
+  const n = parseFloat(String(value ?? ''));
+  return isNaN(n) ? null : n;
+}
@@ -0,0 +1,43 @@
+import { OddsProvider } from './odds-provider';
+import {
+  fetchRacecards,
+  fetchResults,
+  fetchResultsRange,
+  transformRacecardsToEvents,
+} from './racing-api';
+import { getExchangeConfig, fetchExchangeMarkets } from './betfair-exchange';
+
+/**
+ * The Racing API as an odds provider. Bookmaker prices come embedded in the
+ * Standard plan racecards; when BETFAIR_APP_KEY is set the exchange market
+ * books are merged in, and a failing exchange feed only produces a warning.
+ */
+export function createRacingApiProvider(username: string, password: string): OddsProvider {
+  const exchangeConfig = getExchangeConfig();
+
+  return {
+    id: 'the-racing-api',
+    capabilities: {
+      bookmakerOdds: true,
+      exchangeOdds: exchangeConfig !== null,
+      results: true,
+      resultsRange: true,
+      live: true,
+    },
+
+    listEvents: (day) => fetchRacecards(username, password, day),
+
+    async fetchPrices(racecards) {
+      const exchange = exchangeConfig ? await fetchExchangeMarkets(exchangeConfig, racecards) : null;
+      return {
+        data: transformRacecardsToEvents(racecards, exchange?.data, exchange?.place),
+        error: null,
+        warning: exchange?.error ?? null,
+      };
+    },
+
+    fetchResults: (day) => fetchResults(username, password, day),
+
+    fetchResultsRange: (startDate, endDate) => fetchResultsRange(username, password, startDate, endDate),
+  };
+}
@@ -1,7 +1,41 @@
-import { RacingApiRacecard, RacingApiResult, ApiResponse, OddsApiEvent } from './types';
+import {
+  RacingApiRacecard,
+  RacingApiResult,
+  ApiResponse,
+  OddsApiEvent,
+  RaceMeta,
+  ExchangeMarket,
+  EachWayTerms,
+} from './types';
+import { BETFAIR_EXCHANGE_KEYS } from './constants';
+import { parseEachWayTerms, standardEachWayTerms } from './place-market';
 
 const RACING_API_BASE_URL = 'https://api.theracingapi.com/v1';
 
+/**
+ * Build the event ID used throughout the app (snapshots, races, results)
+ * from a racecard or result. Falls back to course/date/time when race_id
+ * is missing so the same race always maps to the same ID.
+ */
+export function toEventId(race: {
+  race_id?: string;
+  course_id?: string;
+  course: string;
+  date: string;
+  off_time: string;
+}): string {
+  return (race.race_id || `${race.course_id || race.course}_${race.date}_${race.off_time}`)
+    .replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+/**
+ * Race start time — the API returns off_time as "HH:MM" and off_dt as a
+ * full datetime, which is preferred when present.
+ */
+export function toCommenceTime(race: { off_dt?: string; date: string; off_time: string }): string {
+  return race.off_dt || `${race.date}T${race.off_time}:00Z`;
+}
+
 /**
  * Fetch today's racecards from The Racing API (Standard plan endpoint).
  * Uses /v1/racecards/standard which includes bookmaker odds.
@@ -135,6 +169,88 @@ export async function fetchResults(
   }
 }
 
+/**
+ * Fetch results for a date range from The Racing API.
+ * Uses /v1/results?start_date=&end_date= and pages through with limit/skip,
+ * since the endpoint caps each response at 50 races. Returns an error
+ * rather than partial results when the range needs more than MAX_PAGES pages.
+ *
+ * @param startDate - First day to include (YYYY-MM-DD)
+ * @param endDate - Last day to include (YYYY-MM-DD)
+ */
+export async function fetchResultsRange(
+  username: string,
+  password: string,
+  startDate: string,
+  endDate: string
+): Promise<ApiResponse<RacingApiResult[]>> {
+  const PAGE_SIZE = 50;
+  const MAX_PAGES = 40;
+
+  try {
+    const credentials = btoa(`${username}:${password}`);
+    const results: RacingApiResult[] = [];
+    let url = '';
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const params = new URLSearchParams({
+        start_date: startDate,
+        end_date: endDate,
+        limit: String(PAGE_SIZE),
+        skip: String(page * PAGE_SIZE),
+      });
+      url = `${RACING_API_BASE_URL}/results?${params}`;
+      console.log(`Racing API: fetching results from ${url}`);
+
+      const response = await fetch(url, {
+        headers: { Authorization: `Basic ${credentials}` },
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Racing API results error: ${response.status} - ${errorText}`);
+        return { data: null, error: `Racing API results error: ${response.status}` };
+      }
+
+      const json = await response.json();
+      const pageResults: RacingApiResult[] = Array.isArray(json)
+        ? json
+        : Array.isArray(json.results)
+          ? json.results
+          : [];
+
+      results.push(...pageResults);
+      if (pageResults.length < PAGE_SIZE) break;
+
+      // A full last page means there are more races than we fetch per call:
+      // fail rather than hand back a range with days silently missing
+      if (page === MAX_PAGES - 1) {
+        console.error(`Racing API results: ${startDate} → ${endDate} exceeds ${MAX_PAGES * PAGE_SIZE} races`);
+        return {
+          data: null,
+          error: `More than ${MAX_PAGES * PAGE_SIZE} races between ${startDate} and ${endDate}; use a shorter range`,
+        };
+      }
+    }
+
+    // Filter to UK/IRE
+    const filtered = results.filter((r) => {
+      const region = (r.region || '').toUpperCase();
+      return region === 'GB' || region === 'IRE';
+    });
+
+    console.log(`Racing API: got ${filtered.length} results for ${startDate} → ${endDate}`);
+    return { data: filtered, error: null, meta: { url, status: 200 } };
+  } catch (err) {
+    console.error('Failed to fetch results range:', err);
+    return {
+      data: null,
+      error: `Network error fetching results: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
 /**
  * Build a map of race_id → RaceResult from results data.
  * Used to match results to racecard events.
@@ -143,8 +259,7 @@ export function buildResultsMap(results: RacingApiResult[]): Map<string, { winne
   const map = new Map<string, { winner: string | null; positions: Map<string, string> }>();
 
   for (const race of results) {
-    const raceId = (race.race_id || `${race.course_id || race.course}_${race.date}_${race.off_time}`)
-      .replace(/[^a-zA-Z0-9_]/g, '_');
+    const raceId = toEventId(race);
 
     const positions = new Map<string, string>();
     let winner: string | null = null;
@@ -176,14 +291,25 @@ export function buildResultsMap(results: RacingApiResult[]): Map<string, { winne
  * Since the dashboard pipeline (useOdds → transformEvents) builds runners
  * from bookmaker outcomes, we MUST create at least one bookmaker entry per
  * runner even when no odds are available — otherwise runners won't appear.
+ *
+ * When exchange markets are supplied (event ID → market), the exchange's
+ * best back replaces the Racing API's Betfair Exchange price and the full
+ * market book is attached as `exchange`.
  */
-export function transformRacecardsToEvents(racecards: RacingApiRacecard[]): OddsApiEvent[] {
+export function transformRacecardsToEvents(
+  racecards: RacingApiRacecard[],
+  exchangeMarkets?: Map<string, ExchangeMarket>,
+  exchangePlaceMarkets?: Map<string, ExchangeMarket>
+): OddsApiEvent[] {
   return racecards.map((race: any) => {
-    const raceId = (race.race_id || `${race.course_id || race.course}_${race.date}_${race.off_time}`)
-      .replace(/[^a-zA-Z0-9_]/g, '_');
+    const raceId = toEventId(race);
+    const exchange = exchangeMarkets?.get(raceId);
+    const exchangePlace = exchangePlaceMarkets?.get(raceId);
 
     const runners = race.runners || [];
-    const bookmakerMap = new Map<string, { name: string; price: number }[]>();
+    const bookmakerMap = new Map<string, { name: string; price: number; fractional?: string; updated?: string }[]>();
+    // Each-way terms per bookmaker (the same for every runner in a race)
+    const termsMap = new Map<string, EachWayTerms>();
 
     for (const runner of runners) {
       const horseName = runner.horse;
@@ -197,16 +323,38 @@ export function transformRacecardsToEvents(racecards: RacingApiRacecard[]): Odds
       if (Array.isArray(oddsArray) && oddsArray.length > 0) {
         for (const entry of oddsArray) {
           const bk = String(entry.bookmaker || 'unknown');
+          // The exchange feed is the source of truth for Betfair prices
+          if (exchange && BETFAIR_EXCHANGE_KEYS.includes(bk.toLowerCase().replace(/\s+/g, '_'))) continue;
           const decStr = String(entry.decimal || '');
           const price = parseFloat(decStr);
           if (isNaN(price) || price <= 0) continue; // skip "SP" and invalid values
           const existing = bookmakerMap.get(bk) || [];
-          existing.push({ name: horseName, price });
+          const fractional = String(entry.fractional || '').trim();
+          const updated = toUpdateTime(entry.updated);
+          existing.push({
+            name: horseName,
+            price,
+            ...(fractional ? { fractional } : {}),
+            ...(updated ? { updated } : {}),
+          });
           bookmakerMap.set(bk, existing);
           hasOdds = true;
+
+          const terms = parseEachWayTerms(entry.ew_places, entry.ew_denom);
+          if (terms && !termsMap.has(bk)) termsMap.set(bk, terms);
         }
       }
 
+      const exchangeRunner = exchange?.runners.find(
+        (r) => r.runnerName === horseName && r.status === 'ACTIVE'
+      );
+      if (exchangeRunner?.bestBack) {
+        const existing = bookmakerMap.get('Betfair Exchange') || [];
+        existing.push({ name: horseName, price: exchangeRunner.bestBack, updated: exchange?.fetchedAt });
+        bookmakerMap.set('Betfair Exchange', existing);
+        hasOdds = true;
+      }
+
       // Fallback: use SP decimal if available (post-race)
       if (!hasOdds && runner.sp_dec) {
         const spPrice = parseFloat(String(runner.sp_dec));
@@ -226,7 +374,8 @@ export function transformRacecardsToEvents(racecards: RacingApiRacecard[]): Odds
       }
     }
 
-    // Convert to The Odds API bookmaker format
+    // Convert to The Odds API bookmaker format. Each-way terms only feed the
+    // race's place terms: place lays are priced off the exchange PLACE market
     const bookmakers = Array.from(bookmakerMap.entries()).map(([key, outcomes]) => ({
       key: key.toLowerCase().replace(/\s+/g, '_'),
       title: key === 'sp' ? 'Starting Price' : key === 'racecard' ? 'Racecard' : key,
@@ -238,13 +387,18 @@ export function transformRacecardsToEvents(racecards: RacingApiRacecard[]): Odds
           outcomes: outcomes.map((o) => ({
             name: o.name,
             price: o.price,
+            ...(o.fractional ? { fractional: o.fractional } : {}),
+            ...(o.updated ? { last_update: o.updated } : {}),
           })),
         },
       ],
     }));
 
-    // Build commence_time — the API returns off_time as "HH:MM" and off_dt as full datetime
-    const commenceTime = race.off_dt || `${race.date}T${race.off_time}:00Z`;
+    const commenceTime = toCommenceTime(race);
+    const meta = buildRaceMeta(race);
+    const eachWay =
+      mostCommonTerms(Array.from(termsMap.values())) ??
+      (meta.fieldSize !== null ? standardEachWayTerms(meta.fieldSize, /handicap/i.test(race.race_name || '')) : null);
 
     return {
       id: raceId,
@@ -254,6 +408,62 @@ export function transformRacecardsToEvents(racecards: RacingApiRacecard[]): Odds
       home_team: `${race.off_time} ${race.course}`,
       away_team: null,
       bookmakers,
+      race_meta: meta,
+      ...(exchange ? { exchange } : {}),
+      ...(exchangePlace ? { exchange_place: exchangePlace } : {}),
+      ...(eachWay ? { each_way: eachWay } : {}),
     };
   });
 }
+
+/**
+ * When a bookmaker last changed a price. The API quotes "YYYY-MM-DD HH:MM:SS"
+ * without a zone, read as UTC like the off times; anything unparseable is
+ * dropped so the bookmaker's fetch time is used instead.
+ */
+function toUpdateTime(updated: unknown): string | undefined {
+  const text = String(updated ?? '').trim();
+  if (!text) return undefined;
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(text) ? `${text.replace(' ', 'T')}Z` : text;
+  const time = Date.parse(iso);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * The each-way terms quoted by the most bookmakers (ties go to the more
+ * generous terms: more places, then the larger fraction).
+ */
+function mostCommonTerms(terms: EachWayTerms[]): EachWayTerms | null {
+  const counts = new Map<string, { terms: EachWayTerms; count: number }>();
+  for (const t of terms) {
+    const key = `${t.places}:${t.fraction}`;
+    counts.set(key, { terms: t, count: (counts.get(key)?.count ?? 0) + 1 });
+  }
+
+  const ranked = Array.from(counts.values()).sort(
+    (a, b) => b.count - a.count || b.terms.places - a.terms.places || b.terms.fraction - a.terms.fraction
+  );
+  return ranked[0]?.terms ?? null;
+}
+
+/**
+ * Extract the racecard attributes used for model segmentation.
+ * Empty strings from the API are normalised to null; field size falls back
+ * to the number of declared runners when the API leaves it blank.
+ */
+function buildRaceMeta(race: RacingApiRacecard): RaceMeta {
+  const text = (value: unknown): string | null => {
+    const str = typeof value === 'string' ? value.trim() : '';
+    return str.length > 0 ? str : null;
+  };
+  const declaredFieldSize = parseInt(String(race.field_size || ''), 10);
+
+  return {
+    type: text(race.type),
+    raceClass: text(race.race_class),
+    fieldSize: !isNaN(declaredFieldSize) ? declaredFieldSize : race.runners?.length ?? null,
+    going: text(race.going),
+    surface: text(race.surface),
+    region: text(race.region)?.toUpperCase() ?? null,
+  };
+}
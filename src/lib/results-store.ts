@@ -0,0 +1,148 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RacingApiResult, RaceResultRecord } from './types';
+import { toEventId } from './racing-api';
+
+/**
+ * Position strings the Racing API uses for runners that did not take part.
+ * RR (refused to race) is not one: the horse was under starter's orders, so
+ * it is an unplaced loser, not a withdrawal.
+ */
+const NON_RUNNER_POSITIONS = ['NR'];
+
+/**
+ * Map a Racing API result onto race_results rows (one per runner).
+ */
+export function buildResultRecords(race: RacingApiResult): RaceResultRecord[] {
+  const eventId = toEventId(race);
+
+  return (race.runners || [])
+    .filter((runner) => Boolean(runner.horse))
+    .map((runner) => {
+      const position = text(runner.position)?.toUpperCase() ?? null;
+      const isNonRunner = position === null || NON_RUNNER_POSITIONS.includes(position);
+
+      return {
+        event_id: eventId,
+        race_date: race.date,
+        course: text(race.course),
+        off_time: text(race.off_time),
+        race_name: text(race.race_name),
+        horse_id: text(runner.horse_id),
+        horse_name: runner.horse,
+        position: isNonRunner ? null : position,
+        is_non_runner: isNonRunner,
+        sp: text(runner.sp),
+        sp_dec: toFloat(runner.sp_dec),
+        btn: text(runner.btn),
+        number: toInt(runner.number),
+        draw: toInt(runner.draw),
+        jockey: text(runner.jockey),
+        trainer: text(runner.trainer),
+      };
+    });
+}
+
+/**
+ * Upsert results into race_results.
+ *
+ * The results feed omits horses that were withdrawn, so any runner declared
+ * in the stored racecard (runners table) but missing from the result is
+ * written as a non-runner.
+ */
+export async function saveResults(
+  supabase: SupabaseClient,
+  results: RacingApiResult[]
+): Promise<{ saved: number; nonRunners: number; error: string | null }> {
+  const rows = results.flatMap(buildResultRecords);
+  if (rows.length === 0) return { saved: 0, nonRunners: 0, error: null };
+
+  // Declared runners missing from the result → non-runners
+  const seen = new Set(rows.map((r) => `${r.event_id}::${r.horse_name}`));
+  const resultByEvent = new Map(results.map((race) => [toEventId(race), race]));
+  const { data: declared } = await supabase
+    .from('runners')
+    .select('event_id, horse_id, horse_name, number, draw, jockey, trainer')
+    .in('event_id', Array.from(resultByEvent.keys()));
+
+  const nonRunners: RaceResultRecord[] = [];
+  for (const runner of declared || []) {
+    if (seen.has(`${runner.event_id}::${runner.horse_name}`)) continue;
+    const race = resultByEvent.get(runner.event_id)!;
+    nonRunners.push({
+      event_id: runner.event_id,
+      race_date: race.date,
+      course: text(race.course),
+      off_time: text(race.off_time),
+      race_name: text(race.race_name),
+      horse_id: runner.horse_id,
+      horse_name: runner.horse_name,
+      position: null,
+      is_non_runner: true,
+      sp: null,
+      sp_dec: null,
+      btn: null,
+      number: runner.number,
+      draw: runner.draw,
+      jockey: runner.jockey,
+      trainer: runner.trainer,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('race_results')
+    .upsert(
+      [...rows, ...nonRunners].map((r) => ({ ...r, updated_at: now })),
+      { onConflict: 'event_id,horse_name' }
+    );
+
+  if (error) {
+    console.error('Supabase race_results upsert error:', error);
+    return { saved: 0, nonRunners: 0, error: error.message };
+  }
+
+  return { saved: rows.length + nonRunners.length, nonRunners: nonRunners.length, error: null };
+}
+
+/**
+ * Group stored result rows into event ID → { winner, positions }, the same
+ * shape buildResultsMap produces from live results. Non-runners appear in
+ * positions as 'NR' so settlement can void them.
+ */
+export function buildStoredResultsMap(
+  rows: RaceResultRecord[]
+): Map<string, { winner: string | null; positions: Map<string, string> }> {
+  const map = new Map<string, { winner: string | null; positions: Map<string, string> }>();
+
+  for (const row of rows) {
+    const entry = map.get(row.event_id) ?? { winner: null, positions: new Map<string, string>() };
+    const position = row.is_non_runner ? 'NR' : row.position;
+    if (position) {
+      entry.positions.set(row.horse_name, position);
+      if (position === '1') entry.winner = row.horse_name;
+    }
+    map.set(row.event_id, entry);
+  }
+
+  return map;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function text(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const str = String(value).trim();
+  return str.length > 0 ? str : null;
+}
+
+function toInt(value: unknown): number | null {
+  const n = parseInt(String(value ?? ''), 10);
+  return isNaN(n) ? null : n;
+}
+
+function toFloat(value: unknown): number | null {
+  const n = parseFloat(String(value ?? ''));
+  return isNaN(n) ? null : n;
+}
@@ -0,0 +1,219 @@
+/**
+ * Portfolio risk limits applied on top of the lay engine.
+ *
+ * evaluateRunner and the race portfolio size each race on its own. These
+ * limits look across races, using the bet ledger for what is already at
+ * risk, and either trim recommended liabilities or force placeLay false.
+ * Win and place lays draw on the same room:
+ *
+ * - Daily stop-loss: settled P&L today at or below −dailyStopLossPct of bankroll
+ * - Lays per day: recorded today + recommended today ≤ maxLaysPerDay
+ * - Total exposure: open + recommended liability ≤ maxTotalLiabilityPct of bankroll
+ * - Meeting exposure: same, per course and day, ≤ maxMeetingLiabilityPct
+ *
+ * A limit of 0 is switched off.
+ */
+
+import { Bet, Race, RunnerOdds, UserSettings } from './types';
+import { FullKellyResult, LayDecision } from './lay-engine';
+import { isOpenBet } from './bets';
+
+type RiskLimits = Pick<
+  UserSettings,
+  'maxTotalLiabilityPct' | 'maxMeetingLiabilityPct' | 'maxLaysPerDay' | 'dailyStopLossPct' | 'minStake'
+>;
+
+export interface RiskState {
+  /** UTC date the daily limits apply to (YYYY-MM-DD) */
+  date: string;
+  openLiability: number;
+  /** Meeting key → open liability */
+  meetingLiability: Map<string, number>;
+  /** Non-cancelled lays recorded today */
+  laysToday: number;
+  /** Settled P&L on today's races */
+  pnlToday: number;
+  /** event ID::runner name::market for every non-cancelled recorded lay */
+  recorded: Set<string>;
+}
+
+/** The parts of a win or place lay decision the limits act on */
+type LimitedLay = Pick<LayDecision, 'placeLay' | 'reasons' | 'kelly' | 'ev' | 'evPctBankroll'>;
+
+/**
+ * Meeting a race belongs to: course name from the event name
+ * ("14:30 Cheltenham") plus the race date.
+ */
+export function meetingKey(eventName: string, commenceTime: string): string {
+  const course = eventName.replace(/^\d{1,2}:\d{2}\s*/, '').trim().toLowerCase();
+  return `${course}::${commenceTime.slice(0, 10)}`;
+}
+
+/**
+ * Summarise the bet ledger for the risk checks.
+ */
+export function buildRiskState(bets: Bet[], now: Date = new Date()): RiskState {
+  const date = now.toISOString().slice(0, 10);
+  const meetingLiability = new Map<string, number>();
+  let openLiability = 0;
+  let laysToday = 0;
+  let pnlToday = 0;
+  const recorded = new Set<string>();
+
+  for (const bet of bets) {
+    if (bet.status === 'cancelled') continue;
+    recorded.add(`${bet.event_id}::${bet.runner_name}::${bet.market}`);
+
+    if (bet.placed_at.slice(0, 10) === date) laysToday++;
+    if (bet.settled_at && bet.commence_time.slice(0, 10) === date) pnlToday += bet.pnl ?? 0;
+
+    if (isOpenBet(bet)) {
+      openLiability += bet.liability;
+      const key = meetingKey(bet.event_name, bet.commence_time);
+      meetingLiability.set(key, (meetingLiability.get(key) ?? 0) + bet.liability);
+    }
+  }
+
+  return {
+    date,
+    openLiability: round2(openLiability),
+    meetingLiability,
+    laysToday,
+    pnlToday: round2(pnlToday),
+    recorded,
+  };
+}
+
+/**
+ * Apply the risk limits to every recommended win and place lay.
+ *
+ * Races are taken in off-time order, so earlier races get first call on the
+ * remaining exposure, and a runner's win lay comes before its place lay.
+ * Lays already recorded in the same market are left as they are — their
+ * liability is in the ledger already.
+ *
+ * @param races - Races with lay decisions (any order; returned in the same order)
+ * @param state - Ledger summary from buildRiskState
+ * @param limits - Risk settings
+ * @param bankroll - Bankroll the percentage limits are measured against
+ */
+export function applyRiskLimits(
+  races: Race[],
+  state: RiskState,
+  limits: RiskLimits,
+  bankroll: number
+): Race[] {
+  const stopLoss = limits.dailyStopLossPct > 0 ? -bankroll * (limits.dailyStopLossPct / 100) : null;
+  const stopped = stopLoss !== null && state.pnlToday <= stopLoss;
+
+  let totalRoom = limits.maxTotalLiabilityPct > 0
+    ? bankroll * (limits.maxTotalLiabilityPct / 100) - state.openLiability
+    : Infinity;
+  const meetingCap = limits.maxMeetingLiabilityPct > 0
+    ? bankroll * (limits.maxMeetingLiabilityPct / 100)
+    : Infinity;
+  const meetingUsed = new Map(state.meetingLiability);
+  let laysLeft = limits.maxLaysPerDay > 0 ? limits.maxLaysPerDay - state.laysToday : Infinity;
+
+  /** One recommended lay through the limits: unchanged, trimmed or blocked */
+  const limitLay = <T extends LimitedLay>(decision: T, meeting: string, isToday: boolean): T => {
+    if (stopped) {
+      return blockLay(decision, `Daily stop-loss hit (£${state.pnlToday.toFixed(2)} today)`);
+    }
+    if (isToday && laysLeft <= 0) {
+      return blockLay(decision, `Daily lay limit reached (${limits.maxLaysPerDay})`);
+    }
+
+    const meetingRoom = meetingCap - (meetingUsed.get(meeting) ?? 0);
+    const room = Math.min(totalRoom, meetingRoom);
+    if (room <= 0) {
+      return blockLay(
+        decision,
+        totalRoom <= meetingRoom ? 'Total exposure limit reached' : 'Meeting exposure limit reached'
+      );
+    }
+
+    let result = decision;
+    if (decision.kelly!.liability > room) {
+      const kelly = scaleKelly(decision.kelly!, room / decision.kelly!.liability, limits.minStake);
+      result = {
+        ...decision,
+        reasons: [
+          totalRoom <= meetingRoom
+            ? `Liability trimmed to total exposure limit (£${kelly.liability})`
+            : `Liability trimmed to meeting exposure limit (£${kelly.liability})`,
+          ...decision.reasons,
+        ],
+        kelly,
+        ev: kelly.ev,
+        evPctBankroll: kelly.evPctBankroll,
+      };
+    }
+
+    const used = result.kelly!.liability;
+    totalRoom -= used;
+    meetingUsed.set(meeting, (meetingUsed.get(meeting) ?? 0) + used);
+    if (isToday) laysLeft--;
+    return result;
+  };
+
+  const adjusted = new Map<string, Race>();
+  const ordered = [...races].sort((a, b) => a.commenceTime.localeCompare(b.commenceTime));
+
+  for (const race of ordered) {
+    const meeting = meetingKey(race.eventName, race.commenceTime);
+    const isToday = race.commenceTime.slice(0, 10) === state.date;
+
+    const runners = race.runners.map((runner): RunnerOdds => {
+      const key = `${race.eventId}::${runner.runnerName}`;
+      let ld = runner.layDecision;
+      if (!ld) return runner;
+
+      if (ld.placeLay && ld.kelly && !state.recorded.has(`${key}::win`)) {
+        ld = limitLay(ld, meeting, isToday);
+      }
+      const placeLd = ld.placeMarket;
+      if (placeLd?.placeLay && placeLd.kelly && !state.recorded.has(`${key}::place`)) {
+        ld = { ...ld, placeMarket: limitLay(placeLd, meeting, isToday) };
+      }
+
+      return ld === runner.layDecision ? runner : { ...runner, layDecision: ld };
+    });
+
+    adjusted.set(race.eventId, { ...race, runners });
+  }
+
+  return races.map((race) => adjusted.get(race.eventId) ?? race);
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function blockLay<T extends LimitedLay>(decision: T, reason: string): T {
+  return {
+    ...decision,
+    placeLay: false,
+    reasons: [reason, ...decision.reasons.filter((r) => r !== 'PLACE LAY')],
+  };
+}
+
+/** Scale a Kelly result's stake (all payoffs are linear in the stake) */
+function scaleKelly(kelly: FullKellyResult, factor: number, minStake: number): FullKellyResult {
+  const layStake = round2(kelly.layStake * factor);
+  return {
+    ...kelly,
+    layStake,
+    liability: round2(kelly.liability * factor),
+    profitIfLoses: round2(kelly.profitIfLoses * factor),
+    lossIfWins: round2(kelly.lossIfWins * factor),
+    ev: round2(kelly.ev * factor),
+    evPctBankroll: Math.round(kelly.evPctBankroll * factor * 10000) / 10000,
+    cappedByMaxLiability: true,
+    belowMinStake: layStake > 0 && layStake < minStake,
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
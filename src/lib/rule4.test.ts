@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { rule4Deduction, combineRule4, applyRule4 } from './rule4';
+
+// Tattersalls Rule 4(c) bands: [shortest, longest] fractional price and deduction
+const BANDS: { from: [number, number]; to: [number, number]; deduction: number }[] = [
+  { from: [1, 100], to: [1, 9], deduction: 90 },
+  { from: [2, 17], to: [2, 11], deduction: 85 },
+  { from: [1, 5], to: [1, 4], deduction: 80 },
+  { from: [3, 10], to: [2, 5], deduction: 75 },
+  { from: [4, 9], to: [8, 15], deduction: 70 },
+  { from: [4, 7], to: [4, 6], deduction: 65 },
+  { from: [8, 11], to: [5, 6], deduction: 60 },
+  { from: [10, 11], to: [20, 21], deduction: 55 },
+  { from: [1, 1], to: [6, 5], deduction: 50 },
+  { from: [5, 4], to: [6, 4], deduction: 45 },
+  { from: [8, 5], to: [7, 4], deduction: 40 },
+  { from: [9, 5], to: [9, 4], deduction: 35 },
+  { from: [12, 5], to: [3, 1], deduction: 30 },
+  { from: [16, 5], to: [4, 1], deduction: 25 },
+  { from: [9, 2], to: [11, 2], deduction: 20 },
+  { from: [6, 1], to: [9, 1], deduction: 15 },
+  { from: [10, 1], to: [14, 1], deduction: 10 },
+  { from: [15, 1], to: [20, 1], deduction: 5 },
+];
+
+const decimal = ([n, d]: [number, number]) => 1 + n / d;
+const label = ([n, d]: [number, number]) => `${n}/${d}`;
+
+describe('rule4Deduction', () => {
+  for (const band of BANDS) {
+    it(`deducts ${band.deduction}p from ${label(band.from)} to ${label(band.to)}`, () => {
+      for (const price of [band.from, band.to]) {
+        expect(rule4Deduction(decimal(price))).toBe(band.deduction);
+        // As quoted to two decimal places
+        expect(rule4Deduction(Math.round(decimal(price) * 100) / 100)).toBe(band.deduction);
+      }
+    });
+  }
+
+  it('deducts nothing longer than 20/1 or without a price', () => {
+    expect(rule4Deduction(22)).toBe(0);
+    expect(rule4Deduction(23)).toBe(0);
+    expect(rule4Deduction(null)).toBe(0);
+  });
+});
+
+describe('combineRule4', () => {
+  it('adds deductions up to the 90p cap', () => {
+    expect(combineRule4([25, 15])).toBe(40);
+    expect(combineRule4([75, 50])).toBe(90);
+  });
+});
+
+describe('applyRule4', () => {
+  it('reduces the winnings part of the odds', () => {
+    expect(applyRule4(5, 25)).toBe(4);
+    expect(applyRule4(5, 0)).toBe(5);
+  });
+});
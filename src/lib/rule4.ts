@@ -0,0 +1,40 @@
+/**
+ * Tattersalls Rule 4 deductions.
+ *
+ * When a horse is withdrawn after the market has formed, winning bets on
+ * the remaining runners have their winnings reduced by a deduction set by
+ * the withdrawn horse's price. With deduction d (pence in the £):
+ *   adjusted odds = 1 + (O - 1) * (1 - d/100)
+ * Several withdrawals add up, capped at RULE4_MAX_DEDUCTION.
+ */
+
+import { Bet } from './types';
+import { RULE4_DEDUCTIONS, RULE4_MAX_DEDUCTION, RULE4_ODDS_TOLERANCE } from './constants';
+import { layLiability } from './lay-engine';
+
+/**
+ * Deduction (pence in the £) for a horse withdrawn at `price`.
+ * Unpriced withdrawals deduct nothing.
+ */
+export function rule4Deduction(price: number | null): number {
+  if (price === null || !(price > 1)) return 0;
+  return RULE4_DEDUCTIONS.find((row) => price <= row.maxOdds + RULE4_ODDS_TOLERANCE)?.deduction ?? 0;
+}
+
+/** Combined deduction for several withdrawals */
+export function combineRule4(deductions: number[]): number {
+  return Math.min(RULE4_MAX_DEDUCTION, deductions.reduce((sum, d) => sum + d, 0));
+}
+
+/** Decimal odds after a Rule 4 deduction */
+export function applyRule4(odds: number, deduction: number): number {
+  if (deduction <= 0) return odds;
+  return 1 + (odds - 1) * (1 - deduction / 100);
+}
+
+/**
+ * Liability on a lay after its Rule 4 deduction.
+ */
+export function betLiability(bet: Pick<Bet, 'matched_stake' | 'odds' | 'rule4_deduction'>): number {
+  return layLiability(bet.matched_stake, applyRule4(bet.odds, bet.rule4_deduction));
+}
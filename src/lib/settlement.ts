@@ -0,0 +1,121 @@
+/**
+ * Settlement of recorded lays against stored race results.
+ *
+ * Uses the same payoffs as the lay engine:
+ * - Horse loses (we win):  +profitIfLose(S, c) = S * (1 - c)
+ * - Horse wins (we lose):  -lossIfWin(S, O)    = S * (O - 1)
+ * - Place lays: "wins" means finishing within the places paid
+ * - Non-runner, void race or nothing matched: 0
+ *
+ * S is the matched stake and c the commission rate recorded with the bet.
+ * O is the matched odds after any Rule 4 deduction for later non-runners.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Bet, BetOutcome, RaceResultRecord } from './types';
+import { profitIfLose, lossIfWin } from './lay-engine';
+import { buildStoredResultsMap } from './results-store';
+import { normalizeBet } from './bets';
+import { applyRule4 } from './rule4';
+
+type StoredResult = { winner: string | null; positions: Map<string, string> };
+
+export interface BetSettlement {
+  outcome: BetOutcome;
+  pnl: number;
+}
+
+/**
+ * Settle a single lay.
+ *
+ * Returns null while the race has no stored result. A race whose stored
+ * result has no finisher (abandoned / declared void) voids every lay on it;
+ * a runner missing from the result or marked NR is voided on its own.
+ */
+export function settleBet(bet: Bet, result: StoredResult | null): BetSettlement | null {
+  if (bet.status === 'cancelled' || bet.matched_stake <= 0) {
+    return { outcome: 'void', pnl: 0 };
+  }
+  if (!result) return null;
+
+  const finished = Array.from(result.positions.values()).some((p) => p.toUpperCase() !== 'NR');
+  if (!finished) return { outcome: 'void', pnl: 0 };
+
+  const position = result.positions.get(bet.runner_name);
+  if (!position || position.toUpperCase() === 'NR') {
+    return { outcome: 'void', pnl: 0 };
+  }
+
+  // Place lays lose when the horse finishes in the places, win lays only when it wins
+  const placesPaid = bet.market === 'place' ? bet.places ?? 1 : 1;
+  const finish = parseInt(position, 10);
+
+  if (finish >= 1 && finish <= placesPaid) {
+    return { outcome: 'lost', pnl: -round2(lossIfWin(bet.matched_stake, applyRule4(bet.odds, bet.rule4_deduction))) };
+  }
+
+  return { outcome: 'won', pnl: round2(profitIfLose(bet.matched_stake, bet.commission)) };
+}
+
+/**
+ * Settle every unsettled bet whose race has started and has a stored result.
+ * Bets without a result yet are left open and counted as pending.
+ */
+export async function settleOpenBets(
+  supabase: SupabaseClient
+): Promise<{ settled: number; pending: number; error: string | null }> {
+  const { data: rows, error: betsError } = await supabase
+    .from('bets')
+    .select('*')
+    .is('settled_at', null)
+    .lte('commence_time', new Date().toISOString());
+
+  if (betsError) {
+    console.error('Supabase bets query error:', betsError);
+    return { settled: 0, pending: 0, error: betsError.message };
+  }
+
+  const bets = (rows || []).map(normalizeBet);
+  if (bets.length === 0) return { settled: 0, pending: 0, error: null };
+
+  const eventIds = Array.from(new Set(bets.map((b) => b.event_id)));
+  const { data: resultRows, error: resultsError } = await supabase
+    .from('race_results')
+    .select('*')
+    .in('event_id', eventIds);
+
+  if (resultsError) {
+    console.error('Supabase race_results query error:', resultsError);
+    return { settled: 0, pending: bets.length, error: resultsError.message };
+  }
+
+  const results = buildStoredResultsMap((resultRows || []) as RaceResultRecord[]);
+  const now = new Date().toISOString();
+  let settled = 0;
+  let pending = 0;
+
+  for (const bet of bets) {
+    const settlement = settleBet(bet, results.get(bet.event_id) ?? null);
+    if (!settlement) {
+      pending++;
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('bets')
+      .update({ ...settlement, settled_at: now, updated_at: now })
+      .eq('id', bet.id);
+
+    if (error) {
+      console.error('Supabase bet settlement error:', error);
+      return { settled, pending, error: error.message };
+    }
+    settled++;
+  }
+
+  return { settled, pending, error: null };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
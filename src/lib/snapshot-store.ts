@@ -0,0 +1,151 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OddsApiEvent, OddsSnapshot } from './types';
+import {
+  BETFAIR_EXCHANGE_KEYS,
+  COLLECTOR_MIN_POLL_MS,
+  SNAPSHOT_BAR_MINUTES,
+  SNAPSHOT_DOWNSAMPLE_BATCH,
+  SNAPSHOT_DOWNSAMPLE_MAX_BATCHES,
+} from './constants';
+
+/**
+ * Flatten events into odds_snapshots rows (one per event/bookmaker/runner).
+ * Placeholder entries with no real odds are skipped; is_opening is decided
+ * by the database when the rows are saved. Betfair Exchange rows carry the
+ * best lay, ladder and total matched when the event has an exchange book.
+ */
+export function buildSnapshots(events: OddsApiEvent[]): OddsSnapshot[] {
+  const snapshots: OddsSnapshot[] = [];
+
+  for (const event of events) {
+    for (const bookmaker of event.bookmakers) {
+      for (const market of bookmaker.markets) {
+        if (market.key !== 'h2h') continue;
+        for (const outcome of market.outcomes) {
+          if (outcome.price <= 0) continue;
+          const exchangeRunner = BETFAIR_EXCHANGE_KEYS.includes(bookmaker.key)
+            ? event.exchange?.runners.find((r) => r.runnerName === outcome.name)
+            : undefined;
+          snapshots.push({
+            event_id: event.id,
+            event_name: event.home_team || event.sport_title || 'Unknown',
+            sport_key: event.sport_key,
+            commence_time: event.commence_time,
+            bookmaker: bookmaker.key,
+            runner_name: outcome.name,
+            back_price: outcome.price,
+            lay_price: exchangeRunner?.bestLay ?? null,
+            back_ladder: exchangeRunner?.availableToBack ?? null,
+            lay_ladder: exchangeRunner?.availableToLay ?? null,
+            total_matched: exchangeRunner?.totalMatched ?? null,
+            is_opening: false,
+          });
+        }
+      }
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Idempotency key for a collection cycle. Callers in the same
+ * COLLECTOR_MIN_POLL_MS window share a key, so overlapping runs
+ * (retries, two cron triggers) cannot write the same price twice.
+ */
+export function snapshotCycleId(now: Date = new Date()): string {
+  return `cycle_${Math.floor(now.getTime() / COLLECTOR_MIN_POLL_MS)}`;
+}
+
+/**
+ * Insert snapshots into odds_snapshots via the insert_odds_snapshots RPC.
+ *
+ * Only price changes are stored: a row is written when the (event, runner,
+ * bookmaker) prices or exchange ladder differ from the last stored ones, and the first row per
+ * key is flagged is_opening. Both checks run inside the database under a
+ * unique index, so concurrent writers cannot duplicate rows or openings.
+ */
+export async function saveSnapshots(
+  supabase: SupabaseClient,
+  snapshots: OddsSnapshot[],
+  cycleId: string = snapshotCycleId()
+): Promise<{ saved: number; newOpenings: number; error: string | null }> {
+  if (snapshots.length === 0) return { saved: 0, newOpenings: 0, error: null };
+
+  const rows = snapshots.map((s) => ({
+    event_id: s.event_id,
+    event_name: s.event_name,
+    sport_key: s.sport_key,
+    commence_time: s.commence_time,
+    bookmaker: s.bookmaker,
+    runner_name: s.runner_name,
+    back_price: s.back_price,
+    lay_price: s.lay_price,
+    back_ladder: s.back_ladder ?? null,
+    lay_ladder: s.lay_ladder ?? null,
+    total_matched: s.total_matched ?? null,
+  }));
+
+  const { data, error } = await supabase.rpc('insert_odds_snapshots', {
+    p_snapshots: rows,
+    p_cycle_id: cycleId,
+  });
+
+  if (error) {
+    console.error('Supabase snapshot insert error:', error);
+    return { saved: 0, newOpenings: 0, error: error.message };
+  }
+
+  return { saved: data?.saved ?? 0, newOpenings: data?.newOpenings ?? 0, error: null };
+}
+
+export interface DownsampleResult {
+  /** Races whose history was downsampled on this run */
+  events: number;
+  /** Raw rows moved to odds_snapshots_archive */
+  archived: number;
+  /** Rows left in odds_snapshots for those races */
+  kept: number;
+  /** More races are still waiting (the run hit its batch limit) */
+  remaining: boolean;
+  error: string | null;
+}
+
+/**
+ * Downsample price history for races that started before `before`.
+ *
+ * Runs the downsample_odds_snapshots RPC in batches of races. Per (event,
+ * runner, bookmaker) the opening, first, last, lowest and highest prices and
+ * the last price in each `barMinutes` bar are kept; every other row is moved
+ * to odds_snapshots_archive. Races are marked once done, so repeated runs
+ * only touch new ones.
+ */
+export async function downsampleSnapshots(
+  supabase: SupabaseClient,
+  before: Date,
+  barMinutes: number = SNAPSHOT_BAR_MINUTES
+): Promise<DownsampleResult> {
+  const total: DownsampleResult = { events: 0, archived: 0, kept: 0, remaining: false, error: null };
+
+  for (let batch = 0; batch < SNAPSHOT_DOWNSAMPLE_MAX_BATCHES; batch++) {
+    const { data, error } = await supabase.rpc('downsample_odds_snapshots', {
+      p_before: before.toISOString(),
+      p_bar_minutes: barMinutes,
+      p_max_events: SNAPSHOT_DOWNSAMPLE_BATCH,
+    });
+
+    if (error) {
+      console.error('Supabase snapshot downsample error:', error);
+      return { ...total, error: error.message };
+    }
+
+    total.events += data?.events ?? 0;
+    total.archived += data?.archived ?? 0;
+    total.kept += data?.kept ?? 0;
+    total.remaining = data?.remaining ?? false;
+
+    if (!total.remaining) break;
+  }
+
+  return total;
+}
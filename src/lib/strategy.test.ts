@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STRATEGY, StrategyContext, StrategyGroup, evaluateStrategy, parseStrategy } from './strategy';
+
+const CTX: StrategyContext = {
+  priceShortened: true,
+  hasLayValue: true,
+  compressionPercent: 20,
+  edge: 0.03,
+  currentOdds: 4,
+  fieldSize: 10,
+  bookmakerCount: 4,
+  minutesToOff: 30,
+  valueSignal: 'strong',
+};
+
+const and = (...rules: StrategyGroup['rules']): StrategyGroup => ({ type: 'group', op: 'and', rules });
+const or = (...rules: StrategyGroup['rules']): StrategyGroup => ({ type: 'group', op: 'or', rules });
+
+describe('evaluateStrategy', () => {
+  it('passes the default strategy when the price shortened into value', () => {
+    expect(evaluateStrategy(DEFAULT_STRATEGY, CTX)).toEqual([]);
+  });
+
+  it('gives one reason per failed rule in an AND group', () => {
+    const reasons = evaluateStrategy(DEFAULT_STRATEGY, { ...CTX, priceShortened: false, hasLayValue: false });
+    expect(reasons).toEqual(['Price not shortened', 'No lay value (model p >= market p)']);
+  });
+
+  it('passes an OR group when any rule passes', () => {
+    const strategy = or({ type: 'minCompression', percent: 50 }, { type: 'oddsBand', min: 3, max: 5 });
+    expect(evaluateStrategy(strategy, CTX)).toEqual([]);
+  });
+
+  it('reports every rule of a failed OR group', () => {
+    const strategy = or({ type: 'minCompression', percent: 50 }, { type: 'minEdge', percent: 5 });
+    expect(evaluateStrategy(strategy, CTX)).toEqual(['Compression 20.0% below 50%', 'Edge 3.0% below 5%']);
+  });
+
+  it('nests OR groups inside AND groups', () => {
+    const strategy = and(
+      { type: 'priceShortened' },
+      or({ type: 'fieldSize', min: 12, max: 20 }, { type: 'signalLevel', level: 'strong' })
+    );
+    expect(evaluateStrategy(strategy, CTX)).toEqual([]);
+    expect(evaluateStrategy(strategy, { ...CTX, valueSignal: 'conservative' })).toEqual([
+      'Field of 10 outside 12–20',
+      'Signal conservative below strong',
+    ]);
+  });
+
+  it('fails an empty OR group', () => {
+    expect(evaluateStrategy(and({ type: 'priceShortened' }, or()), CTX)).toEqual(['Empty OR group (add at least one rule)']);
+  });
+
+  it('fails rules whose input is unknown', () => {
+    const strategy = and(
+      { type: 'minCompression', percent: 10 },
+      { type: 'fieldSize', min: 5, max: 16 },
+      { type: 'minBookmakers', count: 3 },
+      { type: 'timeToOff', minMinutes: 0, maxMinutes: 60 },
+      { type: 'signalLevel', level: 'conservative' }
+    );
+    const unknown = {
+      ...CTX,
+      compressionPercent: null,
+      fieldSize: null,
+      bookmakerCount: null,
+      minutesToOff: null,
+      valueSignal: null,
+    };
+    expect(evaluateStrategy(strategy, unknown)).toEqual([
+      'Compression unknown (no opening price)',
+      'Field size unknown',
+      'Bookmaker count unknown',
+      'Time to off unknown',
+      'Signal level unknown',
+    ]);
+  });
+});
+
+describe('parseStrategy', () => {
+  it('accepts a nested strategy', () => {
+    const strategy = and({ type: 'layValue' }, or({ type: 'oddsBand', min: 2, max: 8 }));
+    expect(parseStrategy(strategy)).toEqual({ strategy, error: null });
+  });
+
+  it.each([
+    [null, 'strategy must be an object'],
+    [{ type: 'layValue' }, 'strategy must be a group at the top level'],
+    [{ type: 'group', op: 'xor', rules: [] }, "strategy.op must be 'and' or 'or'"],
+    [{ type: 'group', op: 'and' }, 'strategy.rules must be an array'],
+    [and({ type: 'bogus' } as never), "strategy.rules[0].type 'bogus' is not a known rule"],
+    [and(or({ type: 'oddsBand', min: 2 } as never)), 'strategy.rules[0].rules[0].max must be a number'],
+    [and({ type: 'minEdge', percent: Number.NaN }), 'strategy.rules[0].percent must be a number'],
+    [and({ type: 'signalLevel', level: 'none' } as never), 'strategy.rules[0].level must be conservative, strong or premium'],
+  ])('rejects %j', (value, error) => {
+    expect(parseStrategy(value)).toEqual({ strategy: null, error });
+  });
+});
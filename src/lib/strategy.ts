@@ -0,0 +1,232 @@
+/**
+ * Lay strategies: declarative entry conditions for the lay engine.
+ *
+ * A strategy is a tree of rules combined with AND/OR groups, stored as
+ * plain JSON (in settings and the lay_strategies table). evaluateRunner
+ * checks the runner against it in place of the fixed
+ * "price shortened AND lay value" condition — which is what the default
+ * strategy still says. Every failed rule contributes one reason.
+ */
+
+import { ValueSignalLevel } from './types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type StrategyRule =
+  | { type: 'priceShortened' }
+  | { type: 'layValue' }
+  | { type: 'minCompression'; percent: number }
+  | { type: 'minEdge'; percent: number }
+  | { type: 'oddsBand'; min: number; max: number }
+  | { type: 'fieldSize'; min: number; max: number }
+  | { type: 'minBookmakers'; count: number }
+  | { type: 'timeToOff'; minMinutes: number; maxMinutes: number }
+  | { type: 'signalLevel'; level: Exclude<ValueSignalLevel, 'none'> };
+
+export type StrategyRuleType = StrategyRule['type'];
+
+export interface StrategyGroup {
+  type: 'group';
+  /** and: every rule must pass; or: at least one must */
+  op: 'and' | 'or';
+  rules: StrategyNode[];
+}
+
+export type StrategyNode = StrategyRule | StrategyGroup;
+
+/** What the rules are checked against; null = not known for this runner */
+export interface StrategyContext {
+  priceShortened: boolean;
+  hasLayValue: boolean;
+  /** Opening vs current price, % (positive = shortened) */
+  compressionPercent: number | null;
+  /** pMarket - pModel, as a fraction */
+  edge: number;
+  currentOdds: number;
+  fieldSize: number | null;
+  bookmakerCount: number | null;
+  minutesToOff: number | null;
+  valueSignal: ValueSignalLevel | null;
+}
+
+/** A strategy saved to the shared library */
+export interface SavedStrategy {
+  id: string;
+  name: string;
+  definition: StrategyGroup;
+  updated_at?: string;
+}
+
+export const STRATEGY_RULE_LABELS: Record<StrategyRuleType, string> = {
+  priceShortened: 'Price shortened',
+  layValue: 'Lay value',
+  minCompression: 'Min compression %',
+  minEdge: 'Min edge %',
+  oddsBand: 'Odds band',
+  fieldSize: 'Field size',
+  minBookmakers: 'Min bookmakers',
+  timeToOff: 'Minutes to off',
+  signalLevel: 'Min signal level',
+};
+
+const SIGNAL_RANK: Record<ValueSignalLevel, number> = {
+  none: 0,
+  conservative: 1,
+  strong: 2,
+  premium: 3,
+};
+
+/** The engine's original entry condition */
+export const DEFAULT_STRATEGY: StrategyGroup = {
+  type: 'group',
+  op: 'and',
+  rules: [{ type: 'priceShortened' }, { type: 'layValue' }],
+};
+
+/** A new rule of the given type with sensible starting values */
+export function defaultRule(type: StrategyRuleType): StrategyRule {
+  switch (type) {
+    case 'minCompression':
+      return { type, percent: 15 };
+    case 'minEdge':
+      return { type, percent: 2 };
+    case 'oddsBand':
+      return { type, min: 2, max: 10 };
+    case 'fieldSize':
+      return { type, min: 5, max: 16 };
+    case 'minBookmakers':
+      return { type, count: 3 };
+    case 'timeToOff':
+      return { type, minMinutes: 0, maxMinutes: 60 };
+    case 'signalLevel':
+      return { type, level: 'conservative' };
+    default:
+      return { type };
+  }
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+/**
+ * Check a runner against a strategy.
+ *
+ * @returns One reason per failed rule; empty when the strategy passes.
+ *   A failed OR group reports the reasons of all its rules. An OR group
+ *   with no rules fails (none of them can pass), so a group added in the
+ *   editor and left empty doesn't turn its branch into "always lay".
+ */
+export function evaluateStrategy(node: StrategyNode, ctx: StrategyContext): string[] {
+  if (node.type === 'group') {
+    if (node.op === 'or' && node.rules.length === 0) return ['Empty OR group (add at least one rule)'];
+    const results = node.rules.map((rule) => evaluateStrategy(rule, ctx));
+    if (node.op === 'or' && results.some((reasons) => reasons.length === 0)) return [];
+    return results.flat();
+  }
+
+  const failure = checkRule(node, ctx);
+  return failure ? [failure] : [];
+}
+
+/** Reason the rule fails, or null when it passes */
+function checkRule(rule: StrategyRule, ctx: StrategyContext): string | null {
+  switch (rule.type) {
+    case 'priceShortened':
+      return ctx.priceShortened ? null : 'Price not shortened';
+    case 'layValue':
+      return ctx.hasLayValue ? null : 'No lay value (model p >= market p)';
+    case 'minCompression':
+      if (ctx.compressionPercent === null) return 'Compression unknown (no opening price)';
+      return ctx.compressionPercent >= rule.percent
+        ? null
+        : `Compression ${ctx.compressionPercent.toFixed(1)}% below ${rule.percent}%`;
+    case 'minEdge':
+      return ctx.edge * 100 >= rule.percent
+        ? null
+        : `Edge ${(ctx.edge * 100).toFixed(1)}% below ${rule.percent}%`;
+    case 'oddsBand':
+      return ctx.currentOdds >= rule.min && ctx.currentOdds <= rule.max
+        ? null
+        : `Odds ${ctx.currentOdds} outside ${rule.min}–${rule.max}`;
+    case 'fieldSize':
+      if (ctx.fieldSize === null) return 'Field size unknown';
+      return ctx.fieldSize >= rule.min && ctx.fieldSize <= rule.max
+        ? null
+        : `Field of ${ctx.fieldSize} outside ${rule.min}–${rule.max}`;
+    case 'minBookmakers':
+      if (ctx.bookmakerCount === null) return 'Bookmaker count unknown';
+      return ctx.bookmakerCount >= rule.count
+        ? null
+        : `${ctx.bookmakerCount} bookmaker${ctx.bookmakerCount !== 1 ? 's' : ''}, need ${rule.count}`;
+    case 'timeToOff':
+      if (ctx.minutesToOff === null) return 'Time to off unknown';
+      return ctx.minutesToOff >= rule.minMinutes && ctx.minutesToOff <= rule.maxMinutes
+        ? null
+        : `${Math.round(ctx.minutesToOff)} min to off, outside ${rule.minMinutes}–${rule.maxMinutes}`;
+    case 'signalLevel':
+      if (ctx.valueSignal === null) return 'Signal level unknown';
+      return SIGNAL_RANK[ctx.valueSignal] >= SIGNAL_RANK[rule.level]
+        ? null
+        : `Signal ${ctx.valueSignal} below ${rule.level}`;
+  }
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * Validate a strategy read from JSON (request body or stored row).
+ * The top level must be a group.
+ */
+export function parseStrategy(value: unknown): { strategy: StrategyGroup | null; error: string | null } {
+  const error = nodeError(value, 'strategy');
+  if (error) return { strategy: null, error };
+  if ((value as StrategyNode).type !== 'group') {
+    return { strategy: null, error: 'strategy must be a group at the top level' };
+  }
+  return { strategy: value as StrategyGroup, error: null };
+}
+
+function nodeError(value: unknown, path: string): string | null {
+  if (!value || typeof value !== 'object') return `${path} must be an object`;
+  const node = value as Record<string, unknown>;
+  const num = (key: string) => typeof node[key] === 'number' && isFinite(node[key] as number);
+  const needNumbers = (...keys: string[]) => {
+    const missing = keys.filter((key) => !num(key));
+    return missing.length > 0 ? `${path}.${missing[0]} must be a number` : null;
+  };
+
+  switch (node.type) {
+    case 'group':
+      if (node.op !== 'and' && node.op !== 'or') return `${path}.op must be 'and' or 'or'`;
+      if (!Array.isArray(node.rules)) return `${path}.rules must be an array`;
+      for (let i = 0; i < node.rules.length; i++) {
+        const error = nodeError(node.rules[i], `${path}.rules[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    case 'priceShortened':
+    case 'layValue':
+      return null;
+    case 'minCompression':
+    case 'minEdge':
+      return needNumbers('percent');
+    case 'oddsBand':
+    case 'fieldSize':
+      return needNumbers('min', 'max');
+    case 'minBookmakers':
+      return needNumbers('count');
+    case 'timeToOff':
+      return needNumbers('minMinutes', 'maxMinutes');
+    case 'signalLevel':
+      return node.level === 'conservative' || node.level === 'strong' || node.level === 'premium'
+        ? null
+        : `${path}.level must be conservative, strong or premium`;
+    default:
+      return `${path}.type '${String(node.type)}' is not a known rule`;
+  }
+}
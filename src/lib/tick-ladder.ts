@@ -0,0 +1,87 @@
+/**
+ * Betfair Exchange price ladder.
+ *
+ * The exchange only accepts prices on a fixed ladder (1.01–2 in 0.01,
+ * 2–3 in 0.02, 3–4 in 0.05, ... up to 1000), so a computed price such as
+ * 4.37 has to be snapped to a tick before it can be requested. Distances
+ * between prices are also more meaningful in ticks than in decimal points:
+ * 1.50 → 1.40 is ten ticks, 15 → 14 only two.
+ */
+
+import { EXCHANGE_PRICE_INCREMENTS, EXCHANGE_MIN_PRICE, EXCHANGE_MAX_PRICE } from './constants';
+
+/** Every valid exchange price, ascending */
+export const TICK_LADDER: number[] = buildLadder();
+
+function buildLadder(): number[] {
+  const ladder: number[] = [];
+  let price = EXCHANGE_MIN_PRICE;
+  for (const { upTo, tick } of EXCHANGE_PRICE_INCREMENTS) {
+    // Step in integer hundredths to avoid floating-point drift
+    for (let cents = Math.round(price * 100); cents < Math.round(upTo * 100); cents += Math.round(tick * 100)) {
+      ladder.push(cents / 100);
+    }
+    price = upTo;
+  }
+  ladder.push(EXCHANGE_MAX_PRICE);
+  return ladder;
+}
+
+/** Tick size at a price (the increment to the next tick up) */
+export function tickSize(price: number): number {
+  return EXCHANGE_PRICE_INCREMENTS.find((row) => price < row.upTo)?.tick
+    ?? EXCHANGE_PRICE_INCREMENTS[EXCHANGE_PRICE_INCREMENTS.length - 1].tick;
+}
+
+/**
+ * Index of a price on the ladder.
+ *
+ * @param direction - nearest (default), up (next tick at or above) or
+ *   down (next tick at or below); prices off the ladder are clamped
+ */
+function tickIndex(price: number, direction: 'nearest' | 'up' | 'down' = 'nearest'): number {
+  if (price <= TICK_LADDER[0]) return 0;
+  if (price >= TICK_LADDER[TICK_LADDER.length - 1]) return TICK_LADDER.length - 1;
+
+  // First tick at or above the price (binary search)
+  let lo = 0;
+  let hi = TICK_LADDER.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (TICK_LADDER[mid] < price - 1e-9) lo = mid + 1;
+    else hi = mid;
+  }
+
+  if (Math.abs(TICK_LADDER[lo] - price) < 1e-9 || direction === 'up') return lo;
+  if (direction === 'down') return lo - 1;
+  return price - TICK_LADDER[lo - 1] <= TICK_LADDER[lo] - price ? lo - 1 : lo;
+}
+
+/** Whether a price is exactly on the ladder */
+export function isValidTick(price: number): boolean {
+  return Math.abs(TICK_LADDER[tickIndex(price)] - price) < 1e-9;
+}
+
+/**
+ * Snap a price to the ladder.
+ *
+ * For lay prices use `up`: an order at 4.37 could only be matched at 4.4
+ * or worse, so that is the price to plan liability around.
+ */
+export function snapToTick(price: number, direction: 'nearest' | 'up' | 'down' = 'nearest'): number {
+  return TICK_LADDER[tickIndex(price, direction)];
+}
+
+/** The price `ticks` ticks away (positive = longer), clamped to the ladder */
+export function offsetTicks(price: number, ticks: number): number {
+  const index = tickIndex(price) + ticks;
+  return TICK_LADDER[Math.min(Math.max(index, 0), TICK_LADDER.length - 1)];
+}
+
+/**
+ * Signed number of ticks from `from` to `to` (positive when `to` is the
+ * longer price). Prices off the ladder count from their nearest tick.
+ */
+export function ticksBetween(from: number, to: number): number {
+  return tickIndex(to) - tickIndex(from);
+}
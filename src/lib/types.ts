@@ -7,6 +7,10 @@
 export interface OddsApiOutcome {
   name: string;
   price: number;
+  /** Fractional price as quoted by the bookmaker (e.g. "11/2"), when supplied */
+  fractional?: string;
+  /** When the bookmaker last changed this price (falls back to the bookmaker's last_update) */
+  last_update?: string;
 }
 
 export interface OddsApiMarket {
@@ -30,6 +34,72 @@ export interface OddsApiEvent {
   home_team: string | null;
   away_team: string | null;
   bookmakers: OddsApiBookmaker[];
+  /** Racecard attributes (Racing API only — used for model segmentation) */
+  race_meta?: RaceMeta;
+  /** Betfair Exchange WIN market book (only when the exchange adapter is configured) */
+  exchange?: ExchangeMarket;
+  /** Betfair Exchange PLACE market book, when the race has one */
+  exchange_place?: ExchangeMarket;
+  /** Each-way terms most bookmakers are offering (standard terms when none are quoted) */
+  each_way?: EachWayTerms;
+}
+
+/** Each-way terms: places paid and the fraction of the win odds paid for a place */
+export interface EachWayTerms {
+  places: number;
+  /** e.g. 0.2 for 1/5 the odds */
+  fraction: number;
+}
+
+/** Race-level racecard attributes carried through to the lay engine */
+export interface RaceMeta {
+  /** e.g. "Flat", "Hurdle", "Chase", "NH Flat" */
+  type: string | null;
+  /** e.g. "Class 4" (empty for Irish races) */
+  raceClass: string | null;
+  fieldSize: number | null;
+  /** e.g. "Good To Soft" */
+  going: string | null;
+  /** e.g. "Turf", "AW" */
+  surface: string | null;
+  /** e.g. "GB", "IRE" */
+  region: string | null;
+}
+
+/** One price level on the exchange ladder */
+export interface ExchangePriceSize {
+  price: number;
+  /** Stake available at this price */
+  size: number;
+}
+
+/** Exchange prices for one runner in a WIN market */
+export interface ExchangeRunnerBook {
+  runnerName: string;
+  selectionId: number;
+  /** e.g. "ACTIVE", "REMOVED" */
+  status: string;
+  bestBack: number | null;
+  /** Best price available to lay (lowest lay offer) — the price we lay at */
+  bestLay: number | null;
+  /** Top three levels, best first */
+  availableToBack: ExchangePriceSize[];
+  availableToLay: ExchangePriceSize[];
+  totalMatched: number;
+  lastPriceTraded: number | null;
+}
+
+/** Exchange market book (WIN or PLACE) for one race */
+export interface ExchangeMarket {
+  marketId: string;
+  /** e.g. "OPEN", "SUSPENDED", "CLOSED" */
+  status: string;
+  inPlay: boolean;
+  totalMatched: number;
+  runners: ExchangeRunnerBook[];
+  /** Places paid (PLACE markets; 1 for WIN markets) */
+  numberOfWinners?: number;
+  fetchedAt: string;
 }
 
 // --- Application domain types ---
@@ -37,36 +107,58 @@ export interface OddsApiEvent {
 export interface RunnerOdds {
   runnerName: string;
   bookmakerOdds: BookmakerPrice[];
-  /** Betfair Exchange price — the price we actually lay at */
+  /** Betfair Exchange price — the price we actually lay at (best lay when the exchange feed is available) */
   betfairOdds: number | null;
+  /** Exchange ladder for this runner (null without the exchange feed) */
+  exchange: ExchangeRunnerBook | null;
   /** Best (lowest) current odds across ALL bookmakers */
   bestCurrentOdds: number | null;
   bestBookmaker: string | null;
   worstBookmaker: string | null;
-  /** Opening average across all bookmakers (from DB first snapshot, or current avg as proxy) */
+  /** Opening average across all bookmakers (from DB first snapshot, or current avg as proxy), after any Rule 4 deduction */
   openingAverageOdds: number | null;
+  /** Opening average before the race's Rule 4 deduction (equal to openingAverageOdds without non-runners) */
+  unadjustedOpeningOdds: number | null;
   /** Legacy field — same as openingAverageOdds for backward compat */
   initialOdds: number | null;
   hasDbOpening: boolean;
-  /** Current average across all bookmakers (live market consensus) */
+  /** Current weighted consensus across bookmakers (live market consensus, see consensus.ts) */
   averageOdds: number | null;
+  /** Each bookmaker's part in averageOdds: weight, share and any exclusion */
+  consensus: import('./consensus').ConsensusContributor[];
   /** Number of bookmakers with real odds for this runner */
   bookmakerCount: number;
   /** Odds spread: [lowest, highest] across bookmakers */
   oddsSpread: [number, number] | null;
   impliedProbability: number | null;
   currentImpliedProbability: number | null;
+  /** Opening average's win probability with the race's overround removed (%) */
+  fairProbability: number | null;
+  /** Exchange price's win probability with the exchange book's overround removed (%) */
+  fairMarketProbability: number | null;
   /** Compression: betfairOdds vs openingAverageOdds */
   compressionPercent: number | null;
+  /** The same move in exchange ladder ticks (positive = shortened) */
+  compressionTicks: number | null;
   valueSignal: ValueSignalLevel;
+  /** Best lay in the exchange PLACE market (null without one) */
+  placeOdds: number | null;
+  /** Model probability of finishing in the places (Harville), null when the race pays no places */
+  placeProbability: number | null;
+  /** Steam, drift, reversal and late-money events from the snapshot series */
+  movements: import('./movement').MovementEvent[];
   /** Full lay decision from the lay engine */
   layDecision: import('./lay-engine').LayDecision | null;
+  /** Lay decision under each strategy profile (see profiles.ts) */
+  profileDecisions: import('./profiles').ProfileDecision[];
 }
 
 export interface BookmakerPrice {
   bookmaker: string;
   bookmakerTitle: string;
   price: number;
+  /** Bookmaker's own fractional quote, shown as-is in fractional mode */
+  fractional?: string;
   lastUpdate: string;
 }
 
@@ -83,6 +175,26 @@ export interface Race {
   withinFieldSizeFilter: boolean;
   /** Race result: winner name and positions (null if race hasn't run yet) */
   result: RaceResult | null;
+  /** Racecard attributes (type, class, going...) when the provider supplies them */
+  meta: RaceMeta | null;
+  /** Runners withdrawn since the racecard was first stored */
+  nonRunners: NonRunner[];
+  /** Combined Rule 4 deduction applied to opening prices (pence in the £, 0 = none) */
+  rule4Deduction: number;
+  /** Places paid in the place market (exchange PLACE market, else each-way terms) */
+  places: number | null;
+  eachWay: EachWayTerms | null;
+}
+
+/** A runner withdrawn after declaration, with its Rule 4 deduction */
+export interface NonRunner {
+  eventId: string;
+  runnerName: string;
+  withdrawnAt: string;
+  /** Last bookmaker average before withdrawal (null when never priced) */
+  price: number | null;
+  /** Rule 4 deduction in pence per £ */
+  deduction: number;
 }
 
 export interface OddsSnapshot {
@@ -97,7 +209,155 @@ export interface OddsSnapshot {
   back_price: number | null;
   lay_price: number | null;
   is_opening: boolean;
+  /** Exchange rows only: top three levels and total matched on the runner */
+  back_ladder?: ExchangePriceSize[] | null;
+  lay_ladder?: ExchangePriceSize[] | null;
+  total_matched?: number | null;
+  /** Collection cycle that wrote the row */
+  cycle_id?: string | null;
+  created_at?: string;
+}
+
+/** Row in the races table (racecard metadata) */
+export interface RaceRecord {
+  id: string;
+  race_id: string | null;
+  course: string;
+  course_id: string | null;
+  race_date: string;
+  off_time: string | null;
+  off_dt: string | null;
+  race_name: string | null;
+  distance: string | null;
+  distance_f: number | null;
+  region: string | null;
+  pattern: string | null;
+  race_class: string | null;
+  race_type: string | null;
+  age_band: string | null;
+  rating_band: string | null;
+  prize: string | null;
+  field_size: number | null;
+  going: string | null;
+  going_detailed: string | null;
+  surface: string | null;
+  big_race: boolean;
+  is_abandoned: boolean;
+  updated_at?: string;
+}
+
+/** Row in the runners table (declared runner details) */
+export interface RunnerRecord {
+  id?: string;
+  event_id: string;
+  horse_id: string | null;
+  horse_name: string;
+  number: number | null;
+  draw: number | null;
+  age: number | null;
+  sex: string | null;
+  weight_lbs: number | null;
+  jockey: string | null;
+  jockey_id: string | null;
+  trainer: string | null;
+  trainer_id: string | null;
+  owner: string | null;
+  official_rating: number | null;
+  rpr: number | null;
+  ts: number | null;
+  form: string | null;
+  headgear: string | null;
+  last_run: number | null;
+  silk_url: string | null;
+  comment: string | null;
+  /** Set when the runner drops off the racecard before the off */
+  is_non_runner?: boolean;
+  withdrawn_at?: string | null;
+  withdrawal_price?: number | null;
+  rule4_deduction?: number | null;
+  updated_at?: string;
+}
+
+/** Row in the race_results table (one per runner) */
+export interface RaceResultRecord {
+  id?: string;
+  event_id: string;
+  race_date: string;
+  course: string | null;
+  off_time: string | null;
+  race_name: string | null;
+  horse_id: string | null;
+  horse_name: string;
+  position: string | null;
+  is_non_runner: boolean;
+  sp: string | null;
+  sp_dec: number | null;
+  btn: string | null;
+  number: number | null;
+  draw: number | null;
+  jockey: string | null;
+  trainer: string | null;
+  updated_at?: string;
+}
+
+// --- Bet ledger types ---
+
+/** Exchange state of a recorded lay */
+export type BetStatus = 'matched' | 'partially_matched' | 'cancelled';
+
+export type BetMarket = 'win' | 'place';
+
+/** Settled result of a lay, from the layer's side (won = horse lost) */
+export type BetOutcome = 'won' | 'lost' | 'void';
+
+/** Row in the bets table */
+export interface Bet {
+  id: string;
+  event_id: string;
+  event_name: string;
+  commence_time: string;
+  runner_name: string;
+  odds: number;
+  stake: number;
+  matched_stake: number;
+  /** Net of any Rule 4 deduction */
+  liability: number;
+  commission: number;
+  /** Rule 4 deduction from later withdrawals, pence in the £ (0 = none) */
+  rule4_deduction: number;
+  /** Market laid: the WIN market or a PLACE market paying `places` places */
+  market: BetMarket;
+  places: number | null;
+  status: BetStatus;
+  value_signal: ValueSignalLevel | null;
+  model_probability: number | null;
+  edge: number | null;
+  notes: string | null;
+  /** Strategy profiles recommending the lay when it was recorded */
+  strategies: string[];
+  placed_at: string;
+  /** Settlement (null while the bet is open) */
+  outcome: BetOutcome | null;
+  pnl: number | null;
+  settled_at: string | null;
   created_at?: string;
+  updated_at?: string;
+}
+
+/** Fields supplied when recording a new lay */
+export type NewBet = Pick<Bet, 'event_id' | 'event_name' | 'commence_time' | 'runner_name' | 'odds' | 'stake' | 'commission'> &
+  Partial<Pick<Bet, 'market' | 'places' | 'matched_stake' | 'status' | 'value_signal' | 'model_probability' | 'edge' | 'notes' | 'strategies' | 'placed_at'>>;
+
+// --- Bankroll types ---
+
+/** Row in the bankroll_transactions table */
+export interface BankrollTransaction {
+  id: string;
+  kind: 'deposit' | 'withdrawal';
+  /** Always positive; kind gives the direction */
+  amount: number;
+  note: string | null;
+  created_at: string;
 }
 
 // --- Settings types ---
@@ -109,7 +369,10 @@ export interface Thresholds {
 }
 
 export interface UserSettings {
+  /** Fixed bankroll (static mode) or starting bankroll (dynamic mode) */
   bankroll: number;
+  /** static: stake off `bankroll` as typed; dynamic: bankroll + transactions + settled P&L − open liability */
+  bankrollMode: 'static' | 'dynamic';
   currency: string;
   thresholds: Thresholds;
   kellyMode: 'full' | 'half' | 'custom';
@@ -124,8 +387,31 @@ export interface UserSettings {
   /** Probability model calibration: P(win) = 1/(1 + alpha*(O-1)^beta) */
   modelAlpha: number;
   modelBeta: number;
+  /** Per-segment calibration overrides, first match wins (falls back to alpha/beta above) */
+  modelSegments: import('./lay-engine').ModelSegment[];
+  /** Risk limits across recorded lays and recommendations (0 = off) */
+  maxTotalLiabilityPct: number;
+  maxMeetingLiabilityPct: number;
+  maxLaysPerDay: number;
+  dailyStopLossPct: number;
+  /** How prices are displayed (calculations always use decimal) */
+  oddsFormat: OddsFormat;
+  /** How the overround is removed from market prices (see demargin.ts) */
+  demarginMethod: DemarginMethod;
+  /** Accuracy weights by bookmaker key for the consensus (missing books weigh 1) */
+  bookmakerWeights: Record<string, number>;
+  /** Movement conditions every lay must also meet (see movement.ts) */
+  movementConditions: import('./movement').MovementCondition[];
+  /** Entry rules for a win lay (see strategy.ts) */
+  strategy: import('./strategy').StrategyGroup;
+  /** Named strategy profiles evaluated alongside the settings above */
+  profiles: import('./profiles').StrategyProfile[];
 }
 
+export type OddsFormat = 'decimal' | 'fractional' | 'american' | 'implied';
+
+export type DemarginMethod = 'proportional' | 'shin' | 'power' | 'odds-ratio';
+
 // --- Kelly Calculator types (legacy — use LayDecision from lay-engine.ts) ---
 
 export interface KellyParams {
@@ -275,6 +561,44 @@ export interface RacingApiResult {
   runners: RacingApiResultRunner[];
 }
 
+// --- Betfair Exchange API types (API-NG betting operations) ---
+
+export interface BetfairMarketCatalogue {
+  marketId: string;
+  marketName: string;
+  marketStartTime: string;
+  totalMatched?: number;
+  description?: {
+    /** e.g. "WIN", "PLACE" */
+    marketType: string;
+  };
+  event?: {
+    id: string;
+    name: string;
+    countryCode?: string;
+    venue?: string;
+  };
+  runners?: Array<{ selectionId: number; runnerName: string; sortPriority?: number }>;
+}
+
+export interface BetfairMarketBook {
+  marketId: string;
+  status: string;
+  inplay: boolean;
+  totalMatched?: number;
+  numberOfWinners?: number;
+  runners: Array<{
+    selectionId: number;
+    status: string;
+    lastPriceTraded?: number;
+    totalMatched?: number;
+    ex?: {
+      availableToBack?: ExchangePriceSize[];
+      availableToLay?: ExchangePriceSize[];
+    };
+  }>;
+}
+
 /** Simplified result for a single race: winner + positions */
 export interface RaceResult {
   /** Winner horse name (position "1") */
@@ -300,8 +624,11 @@ export interface DashboardStats {
   racesToday: number;
   racesTomorrow: number;
   valueAlerts: number;
-  snapshotsSaved: number;
+  /** Most recent snapshot stored by the collector */
+  lastSnapshotAt: string | null;
   supabaseConnected: boolean;
   openingOddsCount: number;
   lastRefreshed: string | null;
+  /** Simulated time when the server is replaying fixtures (null when live) */
+  replayTime: string | null;
 }
@@ -0,0 +1,68 @@
+-- Races: racecard metadata captured on each /api/racing fetch
+CREATE TABLE races (
+  id TEXT PRIMARY KEY,                  -- Event ID (matches odds_snapshots.event_id)
+  race_id TEXT,                         -- The Racing API race_id
+  course TEXT NOT NULL,                 -- e.g., "Cheltenham"
+  course_id TEXT,
+  race_date DATE NOT NULL,
+  off_time TEXT,                        -- e.g., "14:30"
+  off_dt TIMESTAMPTZ,                   -- Full scheduled off datetime
+  race_name TEXT,
+  distance TEXT,                        -- e.g., "2m4f"
+  distance_f DECIMAL(6,2),              -- Distance in furlongs
+  region TEXT,                          -- "GB" / "IRE"
+  pattern TEXT,                         -- e.g., "Grade 1", "Listed"
+  race_class TEXT,                      -- e.g., "Class 4"
+  race_type TEXT,                       -- "Flat", "Hurdle", "Chase", "NH Flat"
+  age_band TEXT,
+  rating_band TEXT,
+  prize TEXT,                           -- Prize as returned, e.g., "£4,187"
+  field_size INTEGER,
+  going TEXT,
+  going_detailed TEXT,
+  surface TEXT,                         -- "Turf" / "AW"
+  big_race BOOLEAN DEFAULT FALSE,
+  is_abandoned BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_races_date ON races(race_date);
+CREATE INDEX idx_races_off ON races(off_dt);
+
+-- Runners: declared runners for each race, refreshed on every fetch
+CREATE TABLE runners (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id TEXT NOT NULL REFERENCES races(id) ON DELETE CASCADE,
+  horse_id TEXT,
+  horse_name TEXT NOT NULL,             -- Matches odds_snapshots.runner_name
+  number INTEGER,                       -- Saddlecloth number
+  draw INTEGER,
+  age INTEGER,
+  sex TEXT,
+  weight_lbs INTEGER,
+  jockey TEXT,
+  jockey_id TEXT,
+  trainer TEXT,
+  trainer_id TEXT,
+  owner TEXT,
+  official_rating INTEGER,              -- OR
+  rpr INTEGER,                          -- Racing Post Rating
+  ts INTEGER,                           -- Topspeed
+  form TEXT,
+  headgear TEXT,
+  last_run INTEGER,                     -- Days since last run
+  silk_url TEXT,
+  comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (event_id, horse_name)
+);
+
+CREATE INDEX idx_runners_event ON runners(event_id);
+
+ALTER TABLE races ENABLE ROW LEVEL SECURITY;
+ALTER TABLE runners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON races FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON runners FOR ALL USING (true);
@@ -0,0 +1,30 @@
+-- Race results: one row per runner, written whenever results are fetched
+CREATE TABLE race_results (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id TEXT NOT NULL,               -- Matches odds_snapshots.event_id / races.id
+  race_date DATE NOT NULL,
+  course TEXT,
+  off_time TEXT,
+  race_name TEXT,
+  horse_id TEXT,
+  horse_name TEXT NOT NULL,             -- Matches odds_snapshots.runner_name
+  position TEXT,                        -- "1", "2", ... or "PU", "F", "UR"; NULL for non-runners
+  is_non_runner BOOLEAN DEFAULT FALSE,  -- Declared but did not run
+  sp TEXT,                              -- Starting price as returned, e.g., "11/2"
+  sp_dec DECIMAL(10,4),                 -- Starting price in decimal
+  btn TEXT,                             -- Distance beaten
+  number INTEGER,
+  draw INTEGER,
+  jockey TEXT,
+  trainer TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (event_id, horse_name)
+);
+
+CREATE INDEX idx_results_event ON race_results(event_id);
+CREATE INDEX idx_results_date ON race_results(race_date);
+
+ALTER TABLE race_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON race_results FOR ALL USING (true);
@@ -0,0 +1,30 @@
+-- Bets: lays we have actually placed on the exchange
+CREATE TABLE bets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id TEXT NOT NULL,               -- Matches odds_snapshots.event_id / races.id
+  event_name TEXT NOT NULL,             -- e.g., "14:30 Cheltenham"
+  commence_time TIMESTAMPTZ NOT NULL,
+  runner_name TEXT NOT NULL,
+  odds DECIMAL(10,4) NOT NULL,          -- Lay odds we were matched at
+  stake DECIMAL(12,2) NOT NULL,         -- Requested lay stake (backer's stake)
+  matched_stake DECIMAL(12,2) NOT NULL, -- Portion of the stake actually matched
+  liability DECIMAL(12,2) NOT NULL,     -- matched_stake * (odds - 1)
+  commission DECIMAL(6,4) NOT NULL,     -- Commission rate at time of bet
+  status TEXT NOT NULL DEFAULT 'matched'
+    CHECK (status IN ('matched', 'partially_matched', 'cancelled')),
+  value_signal TEXT,                    -- Signal level when the lay was recorded
+  model_probability DECIMAL(8,6),       -- Lay engine pModel at the time
+  edge DECIMAL(8,6),                    -- Lay engine edge at the time
+  notes TEXT,
+  placed_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_bets_event ON bets(event_id);
+CREATE INDEX idx_bets_status ON bets(status);
+CREATE INDEX idx_bets_placed ON bets(placed_at);
+
+ALTER TABLE bets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON bets FOR ALL USING (true);
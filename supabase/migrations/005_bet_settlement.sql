@@ -0,0 +1,7 @@
+-- Settlement of recorded lays against race_results
+ALTER TABLE bets
+  ADD COLUMN outcome TEXT CHECK (outcome IN ('won', 'lost', 'void')), -- From the layer's side: won = horse lost
+  ADD COLUMN pnl DECIMAL(12,2),                                          -- Net of commission; 0 when void
+  ADD COLUMN settled_at TIMESTAMPTZ;                                     -- NULL while the bet is open
+
+CREATE INDEX idx_bets_unsettled ON bets(commence_time) WHERE settled_at IS NULL;
@@ -0,0 +1,15 @@
+-- Bankroll transactions: audit trail of deposits and withdrawals.
+-- Rows are never edited or deleted; corrections are posted as new entries.
+CREATE TABLE bankroll_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('deposit', 'withdrawal')),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0), -- Always positive; kind gives the direction
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_bankroll_transactions_created ON bankroll_transactions(created_at);
+
+ALTER TABLE bankroll_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON bankroll_transactions FOR ALL USING (true);
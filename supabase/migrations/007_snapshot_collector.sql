@@ -0,0 +1,3 @@
+-- Server-side snapshot collector: when each race was last captured,
+-- so polling can tighten as the off approaches without re-reading snapshots
+ALTER TABLE races ADD COLUMN last_snapshot_at TIMESTAMPTZ;
@@ -0,0 +1,108 @@
+-- Change-only snapshot storage.
+-- A row is written only when a (event, runner, bookmaker) price differs from
+-- the last stored one; the first row per key is the opening price.
+
+-- Collection cycle that wrote the row (idempotency key)
+ALTER TABLE odds_snapshots ADD COLUMN cycle_id TEXT;
+
+-- Keep only the earliest opening per (event, runner, bookmaker) before
+-- enforcing uniqueness (concurrent writes could flag more than one)
+UPDATE odds_snapshots s
+SET is_opening = FALSE
+WHERE s.is_opening
+  AND EXISTS (
+    SELECT 1 FROM odds_snapshots o
+    WHERE o.is_opening
+      AND o.event_id = s.event_id
+      AND o.runner_name = s.runner_name
+      AND o.bookmaker = s.bookmaker
+      AND (o.snapshot_time, o.id) < (s.snapshot_time, s.id)
+  );
+
+-- One opening row per (event, runner, bookmaker)
+CREATE UNIQUE INDEX idx_snapshots_opening_unique
+  ON odds_snapshots(event_id, runner_name, bookmaker)
+  WHERE is_opening;
+
+-- Replaying a cycle (retries, concurrent callers) cannot duplicate rows
+CREATE UNIQUE INDEX idx_snapshots_cycle_unique
+  ON odds_snapshots(cycle_id, event_id, runner_name, bookmaker)
+  WHERE cycle_id IS NOT NULL;
+
+-- Latest price per key, for change detection
+CREATE INDEX idx_snapshots_latest
+  ON odds_snapshots(event_id, runner_name, bookmaker, snapshot_time DESC);
+
+-- Insert a batch of snapshots, keeping only openings and price changes.
+-- p_snapshots: JSON array of {event_id, event_name, sport_key, commence_time,
+--              bookmaker, runner_name, back_price, lay_price}
+-- Returns {"saved": n, "newOpenings": n}
+CREATE OR REPLACE FUNCTION insert_odds_snapshots(p_snapshots JSONB, p_cycle_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  snap JSONB;
+  inserted INTEGER;
+  saved INTEGER := 0;
+  new_openings INTEGER := 0;
+  last_back DECIMAL(10,4);
+  last_lay DECIMAL(10,4);
+  found_last BOOLEAN;
+BEGIN
+  -- Serialise snapshot writers so change detection sees committed rows
+  PERFORM pg_advisory_xact_lock(hashtext('odds_snapshots'));
+
+  FOR snap IN SELECT * FROM jsonb_array_elements(p_snapshots) LOOP
+    -- First price for this key becomes the opening row
+    INSERT INTO odds_snapshots (
+      event_id, event_name, sport_key, commence_time, bookmaker,
+      runner_name, back_price, lay_price, is_opening, cycle_id
+    ) VALUES (
+      snap->>'event_id', snap->>'event_name', snap->>'sport_key',
+      (snap->>'commence_time')::TIMESTAMPTZ, snap->>'bookmaker',
+      snap->>'runner_name', (snap->>'back_price')::DECIMAL, (snap->>'lay_price')::DECIMAL,
+      TRUE, p_cycle_id
+    )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    IF inserted > 0 THEN
+      saved := saved + 1;
+      new_openings := new_openings + 1;
+      CONTINUE;
+    END IF;
+
+    -- Otherwise store it only if the price moved
+    SELECT back_price, lay_price, TRUE INTO last_back, last_lay, found_last
+    FROM odds_snapshots
+    WHERE event_id = snap->>'event_id'
+      AND runner_name = snap->>'runner_name'
+      AND bookmaker = snap->>'bookmaker'
+    ORDER BY snapshot_time DESC
+    LIMIT 1;
+
+    IF found_last
+      AND last_back IS NOT DISTINCT FROM (snap->>'back_price')::DECIMAL(10,4)
+      AND last_lay IS NOT DISTINCT FROM (snap->>'lay_price')::DECIMAL(10,4) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO odds_snapshots (
+      event_id, event_name, sport_key, commence_time, bookmaker,
+      runner_name, back_price, lay_price, is_opening, cycle_id
+    ) VALUES (
+      snap->>'event_id', snap->>'event_name', snap->>'sport_key',
+      (snap->>'commence_time')::TIMESTAMPTZ, snap->>'bookmaker',
+      snap->>'runner_name', (snap->>'back_price')::DECIMAL, (snap->>'lay_price')::DECIMAL,
+      FALSE, p_cycle_id
+    )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    saved := saved + inserted;
+  END LOOP;
+
+  RETURN jsonb_build_object('saved', saved, 'newOpenings', new_openings);
+END;
+$$;
@@ -0,0 +1,130 @@
+-- Snapshot retention.
+-- Price history for races older than the retention window is downsampled:
+-- per (event, runner, bookmaker) we keep the opening, first, last, lowest
+-- and highest price plus the last price in each N-minute bar. Every other
+-- row is moved to odds_snapshots_archive rather than dropped.
+
+-- Set once a race's history has been downsampled
+ALTER TABLE odds_snapshots ADD COLUMN is_downsampled BOOLEAN DEFAULT FALSE;
+
+-- Finds races still waiting to be downsampled
+CREATE INDEX idx_snapshots_retention
+  ON odds_snapshots(commence_time)
+  WHERE NOT is_downsampled;
+
+-- Raw rows removed by downsampling (same shape as odds_snapshots)
+CREATE TABLE odds_snapshots_archive (
+  id UUID PRIMARY KEY,                  -- Original odds_snapshots.id
+  event_id TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  sport_key TEXT NOT NULL,
+  commence_time TIMESTAMPTZ NOT NULL,
+  snapshot_time TIMESTAMPTZ,
+  bookmaker TEXT NOT NULL,
+  runner_name TEXT NOT NULL,
+  back_price DECIMAL(10,4),
+  lay_price DECIMAL(10,4),
+  is_opening BOOLEAN DEFAULT FALSE,
+  cycle_id TEXT,
+  created_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ DEFAULT NOW() -- When the row was moved here
+);
+
+CREATE INDEX idx_snapshots_archive_event ON odds_snapshots_archive(event_id, runner_name);
+
+ALTER TABLE odds_snapshots_archive ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for service role" ON odds_snapshots_archive FOR ALL USING (true);
+
+-- Downsample up to p_max_events races that started before p_before.
+-- Returns {"events": n, "archived": n, "kept": n, "remaining": bool}
+CREATE OR REPLACE FUNCTION downsample_odds_snapshots(
+  p_before TIMESTAMPTZ,
+  p_bar_minutes INTEGER DEFAULT 5,
+  p_max_events INTEGER DEFAULT 100
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  event_ids TEXT[];
+  archived INTEGER := 0;
+  kept INTEGER := 0;
+  remaining BOOLEAN;
+BEGIN
+  -- Don't race the snapshot writers (insert_odds_snapshots takes the same lock)
+  PERFORM pg_advisory_xact_lock(hashtext('odds_snapshots'));
+
+  SELECT array_agg(event_id) INTO event_ids
+  FROM (
+    SELECT DISTINCT event_id
+    FROM odds_snapshots
+    WHERE commence_time < p_before AND NOT is_downsampled
+    ORDER BY event_id
+    LIMIT p_max_events
+  ) batch;
+
+  IF event_ids IS NULL THEN
+    RETURN jsonb_build_object('events', 0, 'archived', 0, 'kept', 0, 'remaining', FALSE);
+  END IF;
+
+  -- Move every row that is not a kept point to the archive
+  WITH ranked AS (
+    SELECT
+      id,
+      is_opening,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY snapshot_time, id) AS first_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY snapshot_time DESC, id DESC) AS last_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY back_price ASC NULLS LAST, snapshot_time) AS min_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY back_price DESC NULLS LAST, snapshot_time) AS max_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker,
+                                      floor(extract(epoch FROM snapshot_time) / (p_bar_minutes * 60))
+                         ORDER BY snapshot_time DESC, id DESC) AS bar_rank
+    FROM odds_snapshots
+    WHERE event_id = ANY(event_ids)
+  ),
+  removed AS (
+    DELETE FROM odds_snapshots s
+    USING ranked r
+    WHERE s.id = r.id
+      AND NOT r.is_opening
+      AND r.first_rank > 1
+      AND r.last_rank > 1
+      AND r.min_rank > 1
+      AND r.max_rank > 1
+      AND r.bar_rank > 1
+    RETURNING s.*
+  )
+  INSERT INTO odds_snapshots_archive (
+    id, event_id, event_name, sport_key, commence_time, snapshot_time, bookmaker,
+    runner_name, back_price, lay_price, is_opening, cycle_id, created_at
+  )
+  SELECT
+    id, event_id, event_name, sport_key, commence_time, snapshot_time, bookmaker,
+    runner_name, back_price, lay_price, is_opening, cycle_id, created_at
+  FROM removed;
+
+  GET DIAGNOSTICS archived = ROW_COUNT;
+
+  UPDATE odds_snapshots
+  SET is_downsampled = TRUE
+  WHERE event_id = ANY(event_ids);
+
+  GET DIAGNOSTICS kept = ROW_COUNT;
+
+  SELECT EXISTS (
+    SELECT 1 FROM odds_snapshots
+    WHERE commence_time < p_before AND NOT is_downsampled
+  ) INTO remaining;
+
+  RETURN jsonb_build_object(
+    'events', array_length(event_ids, 1),
+    'archived', archived,
+    'kept', kept,
+    'remaining', remaining
+  );
+END;
+$$;
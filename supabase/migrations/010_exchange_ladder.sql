@@ -0,0 +1,193 @@
+-- Betfair Exchange ladder on snapshot rows.
+-- Exchange rows (bookmaker betfair_exchange) now carry the best lay in
+-- lay_price plus the top three levels each side and total matched.
+
+ALTER TABLE odds_snapshots ADD COLUMN back_ladder JSONB;     -- [{"price": 5.1, "size": 120.5}, ...] best first
+ALTER TABLE odds_snapshots ADD COLUMN lay_ladder JSONB;      -- Same shape, lay side
+ALTER TABLE odds_snapshots ADD COLUMN total_matched DECIMAL(14,2); -- Matched on the runner
+
+ALTER TABLE odds_snapshots_archive ADD COLUMN back_ladder JSONB;
+ALTER TABLE odds_snapshots_archive ADD COLUMN lay_ladder JSONB;
+ALTER TABLE odds_snapshots_archive ADD COLUMN total_matched DECIMAL(14,2);
+
+-- As in 008, now also storing the ladder and treating a ladder change as a
+-- price change (total matched alone does not trigger a row).
+-- p_snapshots: JSON array of {event_id, event_name, sport_key, commence_time,
+--              bookmaker, runner_name, back_price, lay_price,
+--              back_ladder, lay_ladder, total_matched}
+-- Returns {"saved": n, "newOpenings": n}
+CREATE OR REPLACE FUNCTION insert_odds_snapshots(p_snapshots JSONB, p_cycle_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  snap JSONB;
+  inserted INTEGER;
+  saved INTEGER := 0;
+  new_openings INTEGER := 0;
+  last_back DECIMAL(10,4);
+  last_lay DECIMAL(10,4);
+  last_back_ladder JSONB;
+  last_lay_ladder JSONB;
+  found_last BOOLEAN;
+BEGIN
+  -- Serialise snapshot writers so change detection sees committed rows
+  PERFORM pg_advisory_xact_lock(hashtext('odds_snapshots'));
+
+  FOR snap IN SELECT * FROM jsonb_array_elements(p_snapshots) LOOP
+    -- First price for this key becomes the opening row
+    INSERT INTO odds_snapshots (
+      event_id, event_name, sport_key, commence_time, bookmaker,
+      runner_name, back_price, lay_price, back_ladder, lay_ladder,
+      total_matched, is_opening, cycle_id
+    ) VALUES (
+      snap->>'event_id', snap->>'event_name', snap->>'sport_key',
+      (snap->>'commence_time')::TIMESTAMPTZ, snap->>'bookmaker',
+      snap->>'runner_name', (snap->>'back_price')::DECIMAL, (snap->>'lay_price')::DECIMAL,
+      NULLIF(snap->'back_ladder', 'null'::JSONB), NULLIF(snap->'lay_ladder', 'null'::JSONB),
+      (snap->>'total_matched')::DECIMAL, TRUE, p_cycle_id
+    )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    IF inserted > 0 THEN
+      saved := saved + 1;
+      new_openings := new_openings + 1;
+      CONTINUE;
+    END IF;
+
+    -- Otherwise store it only if the prices or ladder moved
+    SELECT back_price, lay_price, back_ladder, lay_ladder, TRUE
+    INTO last_back, last_lay, last_back_ladder, last_lay_ladder, found_last
+    FROM odds_snapshots
+    WHERE event_id = snap->>'event_id'
+      AND runner_name = snap->>'runner_name'
+      AND bookmaker = snap->>'bookmaker'
+    ORDER BY snapshot_time DESC
+    LIMIT 1;
+
+    IF found_last
+      AND last_back IS NOT DISTINCT FROM (snap->>'back_price')::DECIMAL(10,4)
+      AND last_lay IS NOT DISTINCT FROM (snap->>'lay_price')::DECIMAL(10,4)
+      AND last_back_ladder IS NOT DISTINCT FROM NULLIF(snap->'back_ladder', 'null'::JSONB)
+      AND last_lay_ladder IS NOT DISTINCT FROM NULLIF(snap->'lay_ladder', 'null'::JSONB) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO odds_snapshots (
+      event_id, event_name, sport_key, commence_time, bookmaker,
+      runner_name, back_price, lay_price, back_ladder, lay_ladder,
+      total_matched, is_opening, cycle_id
+    ) VALUES (
+      snap->>'event_id', snap->>'event_name', snap->>'sport_key',
+      (snap->>'commence_time')::TIMESTAMPTZ, snap->>'bookmaker',
+      snap->>'runner_name', (snap->>'back_price')::DECIMAL, (snap->>'lay_price')::DECIMAL,
+      NULLIF(snap->'back_ladder', 'null'::JSONB), NULLIF(snap->'lay_ladder', 'null'::JSONB),
+      (snap->>'total_matched')::DECIMAL, FALSE, p_cycle_id
+    )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    saved := saved + inserted;
+  END LOOP;
+
+  RETURN jsonb_build_object('saved', saved, 'newOpenings', new_openings);
+END;
+$$;
+
+-- As in 009, now copying the ladder columns to the archive.
+-- Downsample up to p_max_events races that started before p_before.
+-- Returns {"events": n, "archived": n, "kept": n, "remaining": bool}
+CREATE OR REPLACE FUNCTION downsample_odds_snapshots(
+  p_before TIMESTAMPTZ,
+  p_bar_minutes INTEGER DEFAULT 5,
+  p_max_events INTEGER DEFAULT 100
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  event_ids TEXT[];
+  archived INTEGER := 0;
+  kept INTEGER := 0;
+  remaining BOOLEAN;
+BEGIN
+  -- Don't race the snapshot writers (insert_odds_snapshots takes the same lock)
+  PERFORM pg_advisory_xact_lock(hashtext('odds_snapshots'));
+
+  SELECT array_agg(event_id) INTO event_ids
+  FROM (
+    SELECT DISTINCT event_id
+    FROM odds_snapshots
+    WHERE commence_time < p_before AND NOT is_downsampled
+    ORDER BY event_id
+    LIMIT p_max_events
+  ) batch;
+
+  IF event_ids IS NULL THEN
+    RETURN jsonb_build_object('events', 0, 'archived', 0, 'kept', 0, 'remaining', FALSE);
+  END IF;
+
+  -- Move every row that is not a kept point to the archive
+  WITH ranked AS (
+    SELECT
+      id,
+      is_opening,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY snapshot_time, id) AS first_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY snapshot_time DESC, id DESC) AS last_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY back_price ASC NULLS LAST, snapshot_time) AS min_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker
+                         ORDER BY back_price DESC NULLS LAST, snapshot_time) AS max_rank,
+      row_number() OVER (PARTITION BY event_id, runner_name, bookmaker,
+                                      floor(extract(epoch FROM snapshot_time) / (p_bar_minutes * 60))
+                         ORDER BY snapshot_time DESC, id DESC) AS bar_rank
+    FROM odds_snapshots
+    WHERE event_id = ANY(event_ids)
+  ),
+  removed AS (
+    DELETE FROM odds_snapshots s
+    USING ranked r
+    WHERE s.id = r.id
+      AND NOT r.is_opening
+      AND r.first_rank > 1
+      AND r.last_rank > 1
+      AND r.min_rank > 1
+      AND r.max_rank > 1
+      AND r.bar_rank > 1
+    RETURNING s.*
+  )
+  INSERT INTO odds_snapshots_archive (
+    id, event_id, event_name, sport_key, commence_time, snapshot_time, bookmaker,
+    runner_name, back_price, lay_price, back_ladder, lay_ladder, total_matched,
+    is_opening, cycle_id, created_at
+  )
+  SELECT
+    id, event_id, event_name, sport_key, commence_time, snapshot_time, bookmaker,
+    runner_name, back_price, lay_price, back_ladder, lay_ladder, total_matched,
+    is_opening, cycle_id, created_at
+  FROM removed;
+
+  GET DIAGNOSTICS archived = ROW_COUNT;
+
+  UPDATE odds_snapshots
+  SET is_downsampled = TRUE
+  WHERE event_id = ANY(event_ids);
+
+  GET DIAGNOSTICS kept = ROW_COUNT;
+
+  SELECT EXISTS (
+    SELECT 1 FROM odds_snapshots
+    WHERE commence_time < p_before AND NOT is_downsampled
+  ) INTO remaining;
+
+  RETURN jsonb_build_object(
+    'events', array_length(event_ids, 1),
+    'archived', archived,
+    'kept', kept,
+    'remaining', remaining
+  );
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Non-runners: runners that drop off a racecard before the off.
+-- Detected on each racecard refresh by comparing against the stored runners.
+ALTER TABLE runners
+  ADD COLUMN is_non_runner BOOLEAN DEFAULT FALSE,
+  ADD COLUMN withdrawn_at TIMESTAMPTZ,                -- First refresh the runner was missing from
+  ADD COLUMN withdrawal_price DECIMAL(10,4),          -- Last bookmaker average before withdrawal
+  ADD COLUMN rule4_deduction INTEGER;                 -- Tattersalls Rule 4 deduction, pence in the £
+
+CREATE INDEX idx_runners_non_runner ON runners(event_id) WHERE is_non_runner;
+
+-- Rule 4 applied to a recorded lay: total deduction (pence in the £, capped
+-- at 90) from withdrawals after the bet was placed. Liability is stored
+-- net of the deduction; odds stay as matched.
+ALTER TABLE bets ADD COLUMN rule4_deduction INTEGER DEFAULT 0;
@@ -0,0 +1,5 @@
+-- Place lays: the market a recorded lay was struck in. Place lays lose when
+-- the horse finishes within `places`; win lays (the default) only when it wins.
+ALTER TABLE bets
+  ADD COLUMN market TEXT DEFAULT 'win' CHECK (market IN ('win', 'place')),
+  ADD COLUMN places INTEGER;                          -- Places paid (place lays only)
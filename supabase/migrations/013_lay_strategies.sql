@@ -0,0 +1,14 @@
+-- Lay strategies: named entry-rule definitions shared across the team.
+-- `definition` is the strategy tree as JSON (see src/lib/strategy.ts);
+-- the dashboard evaluates whichever one is loaded into settings.
+CREATE TABLE lay_strategies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  definition JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE lay_strategies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON lay_strategies FOR ALL USING (true);
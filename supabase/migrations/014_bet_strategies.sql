@@ -0,0 +1,4 @@
+-- Strategy profiles: names of the profiles recommending a lay when it was
+-- recorded (see src/lib/profiles.ts), so P&L can be compared per strategy.
+ALTER TABLE bets
+  ADD COLUMN strategies TEXT[] DEFAULT '{}';